@@ -7,9 +7,16 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 
 // Import registration modules
 import { registerAllPrompts } from './prompts/registerPrompts.js';
+import { registerAllResources } from './resources/registerResources.js';
+import { indexManager } from './search/indexManager.js';
+import { symbolIndex } from './symbols/symbolIndex.js';
 import { registerAllTools } from './tools/registerTools.js';
+import { onFileChange } from './utils/fileWriter.js';
 import { moduleManager } from './utils/moduleManager.js';
 import { repoManager } from './utils/repoManager.js';
+import { repoWatcher } from './utils/repoWatcher.js';
+import { getServerConfig } from './utils/serverConfig.js';
+import { purgeAllExpiredTrash } from './utils/trash.js';
 
 /**
  * Helper function to write to stderr safely
@@ -27,6 +34,9 @@ async function main(): Promise<void> {
   try {
     logToStderr('Starting Swift Coder MCP Server...');
 
+    // Refuse to start with an invalid config file rather than silently ignoring part of it
+    getServerConfig();
+
     // Create the MCP server
     const server = new McpServer({
       name: 'swift-code-context-server',
@@ -47,15 +57,45 @@ async function main(): Promise<void> {
       logToStderr(`Warning: Could not auto-detect repositories and modules: ${error}`);
     }
 
+    // Remove deletes that have been in the trash past the retention period
+    const purged = await purgeAllExpiredTrash();
+    if (purged > 0) {
+      logToStderr(`Removed ${purged} expired deletes from the trash`);
+    }
+
     // Register all components
     registerAllTools(server);
     registerAllPrompts(server);
+    registerAllResources(server);
+
+    // Re-detect a repository's modules when its manifests or top-level directories change
+    repoWatcher.onChange(async change => {
+      if (change.paths.some(changedPath => moduleManager.affectsModuleDetection(changedPath))) {
+        const modulesCount = await moduleManager.refreshModules(change.repoId);
+        logToStderr(`Re-detected ${modulesCount} modules in ${change.repoId}`);
+      }
+    });
+
+    // Have the search index re-read changed files before the next search; the server's own
+    // writes are reported at once, the watcher's only after its events settle
+    repoWatcher.onChange(change => indexManager.handleChange(change));
+    onFileChange(change => indexManager.handleChange(change));
+
+    // Have the symbol index re-read changed files before the next symbol query
+    repoWatcher.onChange(change => symbolIndex.handleChange(change));
+    onFileChange(change => symbolIndex.handleChange(change));
 
     // Start the server with stdio transport
     const transport = new StdioServerTransport();
     await server.connect(transport);
     logToStderr('Swift Coder MCP Server started successfully');
 
+    // Watch for changes once connected so a large repository does not delay startup
+    await repoWatcher.start();
+
+    // Load or build the search index in the background
+    indexManager.start();
+
     // Final confirmation of working directory
     logToStderr(`Server running with working directory: ${process.cwd()}`);
   } catch (error) {
@@ -0,0 +1,151 @@
+/**
+ * Lint Runner
+ * Chooses and runs a linter for files written by the file tools
+ */
+import path from 'path';
+
+import { moduleManager } from '../utils/moduleManager.js';
+import { parsePathFormat, resolveToAbsolutePath } from '../utils/path-handler.js';
+import { repoManager } from '../utils/repoManager.js';
+import { builtInLinters } from './linters.js';
+import { LintContext, LintResult, Linter } from './lintTypes.js';
+
+/**
+ * Lint Runner class
+ * Holds the registered linters and picks one based on the file and its module
+ */
+export class LintRunner {
+  private linters: Linter[] = [];
+
+  /**
+   * Initialize the lint runner with the built-in linters
+   */
+  constructor() {
+    builtInLinters.forEach(linter => this.registerLinter(linter));
+  }
+
+  /**
+   * Register an additional linter
+   * Linters registered later are only used when earlier ones do not apply
+   * @param linter Linter definition
+   */
+  public registerLinter(linter: Linter): void {
+    this.linters.push(linter);
+  }
+
+  /**
+   * Get the linters that can check a file, most preferred first
+   * Linters matching the module's language come before those matching only the extension
+   * @param filePath Absolute file path
+   * @param moduleLanguage Primary language of the containing module
+   * @returns Candidate linters
+   */
+  private getCandidates(filePath: string, moduleLanguage?: string): Linter[] {
+    const ext = path.extname(filePath).toLowerCase();
+    const candidates = this.linters.filter(linter => linter.extensions.includes(ext));
+
+    return [
+      ...candidates.filter(linter => moduleLanguage && linter.languages.includes(moduleLanguage)),
+      ...candidates.filter(linter => !moduleLanguage || !linter.languages.includes(moduleLanguage)),
+    ];
+  }
+
+  /**
+   * Lint a file addressed by a tool path
+   * Never throws: problems running the linter are reported in the result
+   * @param toolPath File path in format /repoId/path/to/file
+   * @returns Lint result
+   */
+  public async lintFile(toolPath: string): Promise<LintResult> {
+    try {
+      const { repoId, relativePath } = parsePathFormat(toolPath);
+      const repo = repoManager.getRepository(repoId);
+      const filePath = resolveToAbsolutePath(toolPath);
+
+      // Run from the module root so the linter picks up the module's configuration
+      const module = moduleManager.getModuleForPath(repoId, relativePath);
+      const cwd =
+        module && repo ? path.join(repo.path, module.path) : repo?.path || path.dirname(filePath);
+
+      const context: LintContext = { filePath, cwd, moduleLanguage: module?.language };
+      const candidates = this.getCandidates(filePath, module?.language);
+
+      if (candidates.length === 0) {
+        return {
+          status: 'unsupported',
+          diagnostics: [],
+          message: `No linter configured for ${path.extname(filePath) || 'files without an extension'}`,
+        };
+      }
+
+      for (const linter of candidates) {
+        const command = await linter.resolveCommand(context);
+        if (!command) {
+          continue;
+        }
+
+        try {
+          const diagnostics = await linter.run(command, context);
+          return {
+            status: diagnostics.length > 0 ? 'issues' : 'passed',
+            linter: linter.name,
+            diagnostics,
+          };
+        } catch (error) {
+          return {
+            status: 'failed',
+            linter: linter.name,
+            diagnostics: [],
+            message: `${linter.name} failed: ${(error as Error).message}`,
+          };
+        }
+      }
+
+      return {
+        status: 'unavailable',
+        linter: candidates[0].name,
+        diagnostics: [],
+        message: `No linter is installed for this file (tried: ${candidates.map(l => l.name).join(', ')})`,
+      };
+    } catch (error) {
+      return {
+        status: 'failed',
+        diagnostics: [],
+        message: `Linting failed: ${(error as Error).message}`,
+      };
+    }
+  }
+}
+
+/**
+ * Format a lint result as a text block for a tool response
+ * @param result Lint result
+ * @returns Text summarizing the result, followed by any diagnostics as JSON
+ */
+export function formatLintResult(result: LintResult): string {
+  const linterName = result.linter ? ` (${result.linter})` : '';
+  let summary: string;
+
+  switch (result.status) {
+    case 'passed':
+      summary = `Lint${linterName}: no issues found`;
+      break;
+    case 'issues': {
+      const errors = result.diagnostics.filter(d => d.severity === 'error').length;
+      summary = `Lint${linterName}: ${result.diagnostics.length} issue(s), ${errors} error(s)`;
+      break;
+    }
+    case 'skipped':
+      return 'Lint: skipped';
+    default:
+      summary = `Lint${linterName}: ${result.status} - ${result.message}`;
+  }
+
+  // Only attach structured diagnostics when there is something to act on
+  return result.status === 'issues'
+    ? `${summary}\n${JSON.stringify(result.diagnostics, null, 2)}`
+    : summary;
+}
+
+// Create singleton instance
+export const lintRunner = new LintRunner();
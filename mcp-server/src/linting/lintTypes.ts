@@ -0,0 +1,67 @@
+/**
+ * Lint Types
+ * Shared types for the lint-on-write pipeline
+ */
+
+/**
+ * Severity of a single lint diagnostic
+ */
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A single problem reported by a linter
+ */
+export interface LintDiagnostic {
+  line: number; // 1-based line number
+  column: number; // 1-based column number
+  severity: LintSeverity;
+  rule?: string; // Linter rule or code, e.g. "no-unused-vars" or "E501"
+  message: string;
+}
+
+/**
+ * Overall outcome of linting a file
+ */
+export type LintStatus =
+  | 'passed' // Linter ran and reported nothing
+  | 'issues' // Linter ran and reported diagnostics
+  | 'unavailable' // A suitable linter exists but is not installed
+  | 'unsupported' // No linter is configured for this kind of file
+  | 'failed' // The linter crashed or produced unreadable output
+  | 'skipped'; // Linting was disabled by the caller
+
+/**
+ * Result of linting a file
+ */
+export interface LintResult {
+  status: LintStatus;
+  linter?: string; // Name of the linter that ran (or would have run)
+  diagnostics: LintDiagnostic[];
+  message?: string; // Human-readable explanation for non-passing statuses
+}
+
+/**
+ * Everything a linter needs to check one file
+ */
+export interface LintContext {
+  filePath: string; // Absolute path of the file to lint
+  cwd: string; // Directory to run the linter in (module root, or repository root)
+  moduleLanguage?: string; // Primary language of the module containing the file
+}
+
+/**
+ * A pluggable linter definition
+ */
+export interface Linter {
+  name: string;
+  languages: string[]; // Module languages this linter is preferred for
+  extensions: string[]; // File extensions this linter can check
+  /**
+   * Resolve the executable to run, or null if the linter is not installed
+   */
+  resolveCommand(context: LintContext): Promise<string | null>;
+  /**
+   * Run the linter and return its diagnostics for the file
+   */
+  run(command: string, context: LintContext): Promise<LintDiagnostic[]>;
+}
@@ -0,0 +1,374 @@
+/**
+ * Built-in Linters
+ * Linter definitions for the languages detected by the module manager
+ */
+import { execFile } from 'child_process';
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { LintContext, LintDiagnostic, Linter, LintSeverity } from './lintTypes.js';
+
+/**
+ * Output of a finished linter process
+ */
+interface CommandOutput {
+  stdout: string;
+  stderr: string;
+}
+
+// Linters can be slow on first run (cargo, go) but must never hang a tool call
+const LINT_TIMEOUT_MS = 120 * 1000;
+
+/**
+ * Run a linter command, capturing output even when it exits non-zero
+ * Linters conventionally exit non-zero when they find problems, so only
+ * spawn failures and timeouts are treated as errors.
+ */
+function runCommand(command: string, args: string[], cwd: string): Promise<CommandOutput> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      command,
+      args,
+      { cwd, timeout: LINT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error && (typeof error.code === 'string' || error.killed)) {
+          reject(error.killed ? new Error(`${command} timed out`) : error);
+          return;
+        }
+        resolve({ stdout: stdout.toString(), stderr: stderr.toString() });
+      }
+    );
+  });
+}
+
+/**
+ * Find an executable on the PATH
+ * @param name Executable name
+ * @returns Absolute path to the executable, or null if not found
+ */
+export async function findExecutable(name: string): Promise<string | null> {
+  const searchPaths = (process.env.PATH || '').split(path.delimiter).filter(Boolean);
+  for (const dir of searchPaths) {
+    const candidate = path.join(dir, name);
+    try {
+      await fs.access(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return null;
+}
+
+/**
+ * Walk up from a directory looking for a file
+ * @param startDir Directory to start from
+ * @param fileName File to look for
+ * @param stopDir Directory to stop at (inclusive)
+ * @returns Directory containing the file, or null if not found
+ */
+function findUp(startDir: string, fileName: string, stopDir: string): string | null {
+  let dir = startDir;
+  while (dir.startsWith(stopDir)) {
+    if (existsSync(path.join(dir, fileName))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return null;
+}
+
+/**
+ * Parse linter output that is expected to be JSON
+ */
+function parseJson<T>(output: string, linterName: string): T {
+  try {
+    return JSON.parse(output) as T;
+  } catch {
+    throw new Error(`${linterName} produced unreadable output: ${output.slice(0, 200)}`);
+  }
+}
+
+/**
+ * ESLint for JavaScript and TypeScript, preferring the module's local install
+ */
+const eslintLinter: Linter = {
+  name: 'eslint',
+  languages: ['typescript', 'javascript'],
+  extensions: ['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts'],
+
+  async resolveCommand(context: LintContext): Promise<string | null> {
+    const localDir = findUp(
+      path.dirname(context.filePath),
+      'node_modules/.bin/eslint',
+      context.cwd
+    );
+    if (localDir) {
+      return path.join(localDir, 'node_modules/.bin/eslint');
+    }
+    return findExecutable('eslint');
+  },
+
+  async run(command: string, context: LintContext): Promise<LintDiagnostic[]> {
+    const { stdout, stderr } = await runCommand(
+      command,
+      ['--format', 'json', context.filePath],
+      context.cwd
+    );
+    if (!stdout.trim()) {
+      throw new Error(stderr.trim() || 'eslint produced no output');
+    }
+
+    const results = parseJson<
+      Array<{
+        messages: Array<{
+          ruleId: string | null;
+          severity: number;
+          message: string;
+          line?: number;
+          column?: number;
+        }>;
+      }>
+    >(stdout, 'eslint');
+
+    return results.flatMap(result =>
+      result.messages.map(message => ({
+        line: message.line || 1,
+        column: message.column || 1,
+        severity: (message.severity === 2 ? 'error' : 'warning') as LintSeverity,
+        rule: message.ruleId || undefined,
+        message: message.message,
+      }))
+    );
+  },
+};
+
+/**
+ * Ruff for Python
+ */
+const ruffLinter: Linter = {
+  name: 'ruff',
+  languages: ['python'],
+  extensions: ['.py', '.pyi'],
+
+  async resolveCommand(): Promise<string | null> {
+    return findExecutable('ruff');
+  },
+
+  async run(command: string, context: LintContext): Promise<LintDiagnostic[]> {
+    const { stdout, stderr } = await runCommand(
+      command,
+      ['check', '--output-format', 'json', '--quiet', context.filePath],
+      context.cwd
+    );
+    if (!stdout.trim()) {
+      if (stderr.trim()) throw new Error(stderr.trim());
+      return [];
+    }
+
+    const results = parseJson<
+      Array<{ code: string | null; message: string; location: { row: number; column: number } }>
+    >(stdout, 'ruff');
+
+    return results.map(result => ({
+      line: result.location.row,
+      column: result.location.column,
+      // Ruff reports syntax errors without a rule code
+      severity: (result.code ? 'warning' : 'error') as LintSeverity,
+      rule: result.code || undefined,
+      message: result.message,
+    }));
+  },
+};
+
+/**
+ * Flake8 for Python, used when ruff is not installed
+ */
+const flake8Linter: Linter = {
+  name: 'flake8',
+  languages: ['python'],
+  extensions: ['.py'],
+
+  async resolveCommand(): Promise<string | null> {
+    return findExecutable('flake8');
+  },
+
+  async run(command: string, context: LintContext): Promise<LintDiagnostic[]> {
+    const { stdout, stderr } = await runCommand(
+      command,
+      ['--format=%(row)d:%(col)d:%(code)s:%(text)s', context.filePath],
+      context.cwd
+    );
+    if (!stdout.trim() && stderr.trim()) {
+      throw new Error(stderr.trim());
+    }
+
+    return stdout
+      .split('\n')
+      .map(line => line.match(/^(\d+):(\d+):(\w+):(.*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(([, row, col, code, text]) => ({
+        line: parseInt(row, 10),
+        column: parseInt(col, 10),
+        // E9xx and F82x are syntax and undefined-name errors
+        severity: (/^(E9|F82)/.test(code) ? 'error' : 'warning') as LintSeverity,
+        rule: code,
+        message: text.trim(),
+      }));
+  },
+};
+
+/**
+ * go vet for Go, run on the package that contains the file
+ */
+const goVetLinter: Linter = {
+  name: 'go vet',
+  languages: ['go'],
+  extensions: ['.go'],
+
+  async resolveCommand(): Promise<string | null> {
+    return findExecutable('go');
+  },
+
+  async run(command: string, context: LintContext): Promise<LintDiagnostic[]> {
+    const packageDir = path.dirname(context.filePath);
+    const { stderr } = await runCommand(command, ['vet', '.'], packageDir);
+    const fileName = path.basename(context.filePath);
+
+    // go vet reports "./file.go:12:3: message" for every file in the package
+    return stderr
+      .split('\n')
+      .map(line => line.match(/^(.*?\.go):(\d+):(\d+): (.*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .filter(([, file]) => path.basename(file) === fileName)
+      .map(([, , row, col, text]) => ({
+        line: parseInt(row, 10),
+        column: parseInt(col, 10),
+        severity: 'error' as LintSeverity,
+        message: text.trim(),
+      }));
+  },
+};
+
+/**
+ * cargo clippy for Rust, run in the crate that contains the file
+ */
+const cargoClippyLinter: Linter = {
+  name: 'cargo clippy',
+  languages: ['rust'],
+  extensions: ['.rs'],
+
+  async resolveCommand(): Promise<string | null> {
+    const cargo = await findExecutable('cargo');
+    if (!cargo) {
+      return null;
+    }
+    // clippy is an optional cargo component
+    return (await findExecutable('cargo-clippy')) ? cargo : null;
+  },
+
+  async run(command: string, context: LintContext): Promise<LintDiagnostic[]> {
+    const crateDir =
+      findUp(path.dirname(context.filePath), 'Cargo.toml', context.cwd) || context.cwd;
+    const { stdout } = await runCommand(
+      command,
+      ['clippy', '--message-format=json', '--quiet'],
+      crateDir
+    );
+
+    const diagnostics: LintDiagnostic[] = [];
+    for (const line of stdout.split('\n')) {
+      if (!line.trim().startsWith('{')) continue;
+
+      const entry = parseJson<{
+        reason?: string;
+        message?: {
+          level: string;
+          message: string;
+          code?: { code: string } | null;
+          spans: Array<{
+            file_name: string;
+            line_start: number;
+            column_start: number;
+            is_primary: boolean;
+          }>;
+        };
+      }>(line, 'cargo clippy');
+
+      if (entry.reason !== 'compiler-message' || !entry.message) continue;
+
+      const span = entry.message.spans.find(s => s.is_primary);
+      if (!span || path.resolve(crateDir, span.file_name) !== context.filePath) continue;
+
+      diagnostics.push({
+        line: span.line_start,
+        column: span.column_start,
+        severity: (entry.message.level === 'error'
+          ? 'error'
+          : entry.message.level === 'warning'
+            ? 'warning'
+            : 'info') as LintSeverity,
+        rule: entry.message.code?.code,
+        message: entry.message.message,
+      });
+    }
+    return diagnostics;
+  },
+};
+
+/**
+ * ShellCheck for shell scripts
+ */
+const shellcheckLinter: Linter = {
+  name: 'shellcheck',
+  languages: ['shell'],
+  extensions: ['.sh', '.bash'],
+
+  async resolveCommand(): Promise<string | null> {
+    return findExecutable('shellcheck');
+  },
+
+  async run(command: string, context: LintContext): Promise<LintDiagnostic[]> {
+    const { stdout, stderr } = await runCommand(
+      command,
+      ['--format', 'json', context.filePath],
+      context.cwd
+    );
+    if (!stdout.trim()) {
+      if (stderr.trim()) throw new Error(stderr.trim());
+      return [];
+    }
+
+    const results = parseJson<
+      Array<{ line: number; column: number; level: string; code: number; message: string }>
+    >(stdout, 'shellcheck');
+
+    return results.map(result => ({
+      line: result.line,
+      column: result.column,
+      severity: (result.level === 'error'
+        ? 'error'
+        : result.level === 'warning'
+          ? 'warning'
+          : 'info') as LintSeverity,
+      rule: `SC${result.code}`,
+      message: result.message,
+    }));
+  },
+};
+
+/**
+ * Built-in linters in order of preference
+ * When several linters handle the same language, the first installed one is used
+ */
+export const builtInLinters: Linter[] = [
+  eslintLinter,
+  ruffLinter,
+  flake8Linter,
+  goVetLinter,
+  cargoClippyLinter,
+  shellcheckLinter,
+];
@@ -23,12 +23,11 @@ Work begins here.
 You are now connected to the Swift Coder MCP server, which provides context and tools for working with the swift-coder repository.
 
 You can use this server to:
-- Explore the repository structure
-- Read and write files
-- Execute commands
-- And more!
+- Explore the repository structure and its modules
+- Read, search, create and edit files
+- Review changes and undo edits made through the server
 
-Get started by exploring the available tools and repository structure.
+Get started with get-repositories and list-modules, or use one of the other prompts (review-changes, implement-feature, explain-module, write-tests-for, fix-failing-build).
 `;
 
       return {
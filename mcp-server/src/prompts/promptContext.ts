@@ -0,0 +1,184 @@
+/**
+ * Prompt Context
+ * Live repository context that prompt templates can pull in with {{context.name}}
+ */
+import fs from 'fs/promises';
+import path from 'path';
+
+import { fenceFileContent, sniffFileContent } from '../utils/fileContent.js';
+import { FileWalker } from '../utils/fileWalker.js';
+import { runGit } from '../utils/git.js';
+import {
+  describeModule,
+  formatModuleDescription,
+  formatModuleList,
+} from '../utils/moduleDescriber.js';
+import { moduleManager } from '../utils/moduleManager.js';
+import { parsePathFormat, resolveToAbsolutePath } from '../utils/path-handler.js';
+import { repoManager } from '../utils/repoManager.js';
+
+/**
+ * Arguments a prompt was called with
+ */
+export type PromptArguments = Record<string, string | undefined>;
+
+/**
+ * Produces one named piece of context from the prompt's arguments
+ */
+type ContextProvider = (args: PromptArguments) => Promise<string>;
+
+// Longest git output or file included in a prompt
+const MAX_CONTEXT_LINES = 400;
+
+// Most test files listed for write-tests-for
+const MAX_TEST_FILES = 20;
+
+// Test file naming conventions across the supported languages
+const TEST_FILE_PATTERNS = [/\.(test|spec)\.[^.]+$/, /_test\.[^.]+$/, /^test_.+\.py$/];
+
+/**
+ * Cut text down to a number of lines, noting what was left out
+ */
+function limitLines(text: string, maxLines: number = MAX_CONTEXT_LINES): string {
+  const lines = text.trimEnd().split('\n');
+  if (lines.length <= maxLines) {
+    return lines.join('\n');
+  }
+  return `${lines.slice(0, maxLines).join('\n')}\n... (${lines.length - maxLines} more lines)`;
+}
+
+/**
+ * Get the repository a prompt is about
+ * The repoId argument wins, then the repository of the path argument, then the default repository.
+ */
+function getRepository(args: PromptArguments): { id: string; path: string; displayName: string } {
+  const repoId = args.repoId || (args.path ? parsePathFormat(args.path).repoId : undefined);
+  const repo = repoManager.getRepository(repoId);
+  if (!repo) {
+    throw new Error(`Repository not found: ${repoId || repoManager.defaultRepoId}`);
+  }
+  return repo;
+}
+
+/**
+ * Run git in the prompt's repository, reporting repositories without git instead of failing
+ */
+async function gitOutput(args: PromptArguments, gitArgs: string[]): Promise<string> {
+  try {
+    return limitLines(await runGit(gitArgs, getRepository(args).path)) || '(none)';
+  } catch (error) {
+    return `(git unavailable: ${(error as Error).message.split('\n')[0]})`;
+  }
+}
+
+/**
+ * Find test files in a directory tree, those mentioning a name first; ignored files are skipped
+ */
+async function findTestFiles(rootDir: string, repoRoot: string, stem: string): Promise<string[]> {
+  const found: string[] = [];
+  for await (const entry of new FileWalker(repoRoot).walk(rootDir)) {
+    if (TEST_FILE_PATTERNS.some(pattern => pattern.test(entry.name))) {
+      found.push(entry.relativePath);
+    }
+  }
+
+  const related = found.filter(file => path.basename(file).includes(stem));
+  return [...related, ...found.filter(file => !related.includes(file))].slice(0, MAX_TEST_FILES);
+}
+
+// Context available to prompt templates, keyed by name
+const CONTEXT_PROVIDERS: Record<string, ContextProvider> = {
+  // Every registered repository
+  repositories: async () =>
+    repoManager
+      .getAllRepositories()
+      .map(repo => `- ${repo.id}: ${repo.displayName}`)
+      .join('\n'),
+
+  // The modules of the prompt's repository
+  modules: async args => {
+    const repo = getRepository(args);
+    return formatModuleList({ [repo.id]: moduleManager.getModulesForRepo(repo.id) });
+  },
+
+  // The module named by moduleName, or the one containing path
+  module: async args => {
+    const repo = getRepository(args);
+    let module;
+    if (args.moduleName) {
+      module = moduleManager.findModule(args.moduleName, repo.id);
+    } else if (args.path) {
+      module = moduleManager.getModuleForPath(repo.id, parsePathFormat(args.path).relativePath);
+    }
+    if (!module) {
+      return `(no module found${args.moduleName ? ` named '${args.moduleName}'` : ''} in ${repo.id})`;
+    }
+    return formatModuleDescription(await describeModule(module));
+  },
+
+  gitStatus: async args => gitOutput(args, ['status', '--short', '--branch']),
+
+  gitDiff: async args => gitOutput(args, ['diff', 'HEAD']),
+
+  gitDiffStat: async args => gitOutput(args, ['diff', 'HEAD', '--stat']),
+
+  recentCommits: async args => gitOutput(args, ['log', '--oneline', '-n', '15']),
+
+  // The file named by the path argument, fenced
+  file: async args => {
+    if (!args.path) {
+      return '(no path given)';
+    }
+    const absolutePath = resolveToAbsolutePath(args.path);
+    const sniffed = sniffFileContent(await fs.readFile(absolutePath), absolutePath);
+    if (sniffed.kind !== 'text') {
+      return `(${args.path} is not a text file)`;
+    }
+    return fenceFileContent(absolutePath, limitLines(sniffed.text));
+  },
+
+  // Existing test files near the path argument, to show the project's conventions
+  relatedTests: async args => {
+    if (!args.path) {
+      return '(no path given)';
+    }
+    const repo = getRepository(args);
+    const { relativePath } = parsePathFormat(args.path);
+    const module = moduleManager.getModuleForPath(repo.id, relativePath);
+    const searchRoot = resolveToAbsolutePath(`/${repo.id}/${module?.path ?? ''}`);
+    const stem = path.basename(relativePath).replace(/\.[^.]+$/, '');
+
+    const testFiles = await findTestFiles(searchRoot, repo.path, stem);
+    return testFiles.length > 0
+      ? testFiles.map(file => `- /${repo.id}/${file}`).join('\n')
+      : '(no test files found)';
+  },
+};
+
+/**
+ * Check whether a context name is known
+ * @param name Context name, without the "context." prefix
+ * @returns True if a provider exists for it
+ */
+export function isContextName(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CONTEXT_PROVIDERS, name);
+}
+
+/**
+ * Produce a named piece of context
+ * Failures are reported inline so one missing piece does not break the whole prompt.
+ *
+ * @param name Context name, without the "context." prefix
+ * @param args Arguments the prompt was called with
+ * @returns Context text
+ */
+export async function renderContext(name: string, args: PromptArguments): Promise<string> {
+  if (!isContextName(name)) {
+    return `(unknown context: ${name})`;
+  }
+  try {
+    return await CONTEXT_PROVIDERS[name](args);
+  } catch (error) {
+    return `(${name} unavailable: ${(error as Error).message})`;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Prompt Library tests
+ */
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { loadPromptDirectory, parsePromptFile } from './promptLibrary.js';
+
+describe('parsePromptFile', () => {
+  it('reads the front matter as YAML', () => {
+    const definition = parsePromptFile(
+      [
+        '---',
+        'description: "Explain: a module"',
+        'arguments:',
+        '  - { name: repoId, required: true }',
+        '  - name: moduleName',
+        '    description: >-',
+        '      Module to',
+        '      explain',
+        '---',
+        'Explain {{moduleName}}.',
+      ].join('\n'),
+      '/prompts/explain.md'
+    );
+    assert.equal(definition.name, 'explain');
+    assert.equal(definition.description, 'Explain: a module');
+    assert.deepEqual(definition.arguments, [
+      { name: 'repoId', required: true },
+      { name: 'moduleName', description: 'Module to explain', required: false },
+    ]);
+    assert.equal(definition.template, 'Explain {{moduleName}}.');
+  });
+
+  it('rejects invalid front matter', () => {
+    assert.throws(() => parsePromptFile('no header', '/p.md'), /missing front matter/);
+    assert.throws(() => parsePromptFile('---\nname: [a\n---\nx', '/p.md'), /cannot parse/);
+    assert.throws(
+      () => parsePromptFile('---\narguments:\n  - name: a b\n---\nx', '/p.md'),
+      /arguments\.0\.name/
+    );
+    assert.throws(
+      () => parsePromptFile('---\narguments:\n  - name: a\n    kind: text\n---\nx', '/p.md'),
+      /kind/
+    );
+  });
+
+  it('loads every built-in prompt', () => {
+    const definitions = loadPromptDirectory(path.resolve(__dirname, '..', '..', 'prompts'));
+    assert.deepEqual(
+      definitions.map(definition => definition.name),
+      [
+        'explain-module',
+        'fix-failing-build',
+        'implement-feature',
+        'review-changes',
+        'write-tests-for',
+      ]
+    );
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Prompt Library
+ * Loads prompt definitions from markdown files and registers them with the MCP server
+ *
+ * A prompt file is markdown with a front matter header:
+ *
+ *   ---
+ *   name: explain-module
+ *   description: Explain how a module works
+ *   arguments:
+ *     - name: moduleName
+ *       description: Module to explain
+ *       required: true
+ *   ---
+ *   Explain {{moduleName}}.
+ *
+ *   {{context.module}}
+ *
+ * {{argument}} is replaced by an argument's value and {{context.name}} by live context
+ * (see promptContext.ts). Files in PROMPTS_DIR override built-in prompts of the same name.
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+import { moduleManager } from '../utils/moduleManager.js';
+import { repoManager } from '../utils/repoManager.js';
+import { isContextName, PromptArguments, renderContext } from './promptContext.js';
+
+/**
+ * Argument accepted by a prompt
+ */
+export interface PromptArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+/**
+ * Prompt loaded from a markdown file
+ */
+export interface PromptDefinition {
+  name: string;
+  description?: string;
+  arguments: PromptArgument[];
+  template: string;
+  source: string; // File the prompt was loaded from
+}
+
+// Built-in prompts shipped next to the build output
+const BUILT_IN_PROMPTS_DIR = path.resolve(__dirname, '..', '..', 'prompts');
+
+// Placeholders in prompt templates: {{name}} or {{context.name}}
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][\w.]*)\s*\}\}/g;
+
+// Front matter of a prompt file; other top-level keys are ignored
+const frontMatterSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().optional(),
+  arguments: z
+    .array(
+      z
+        .object({
+          name: z
+            .string()
+            .regex(/^[A-Za-z]\w*$/, 'Use letters, digits and "_", starting with a letter'),
+          description: z.string().optional(),
+          required: z.boolean().default(false),
+        })
+        .strict()
+    )
+    .default([]),
+});
+
+/**
+ * Parse a prompt file
+ * The front matter is YAML, read the same way as the config file.
+ *
+ * @param text File content
+ * @param source File path, used for the default name and in errors
+ * @returns Prompt definition
+ */
+export function parsePromptFile(text: string, source: string): PromptDefinition {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new Error(`${source}: missing front matter (--- ... ---)`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = parseYaml(match[1]);
+  } catch (error) {
+    throw new Error(`${source}: cannot parse front matter: ${(error as Error).message}`);
+  }
+
+  const result = frontMatterSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+    throw new Error(`${source}: invalid front matter: ${problems.join('; ')}`);
+  }
+
+  return {
+    name: result.data.name ?? path.basename(source, path.extname(source)),
+    description: result.data.description,
+    arguments: result.data.arguments,
+    template: match[2].trim(),
+    source,
+  };
+}
+
+/**
+ * Load every prompt file in a directory
+ * Files that fail to parse are reported and skipped.
+ *
+ * @param directory Directory containing .md prompt files
+ * @returns Prompt definitions, in file name order
+ */
+export function loadPromptDirectory(directory: string): PromptDefinition[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+
+  const definitions: PromptDefinition[] = [];
+  for (const file of readdirSync(directory).sort()) {
+    if (!file.endsWith('.md')) {
+      continue;
+    }
+    try {
+      const source = path.join(directory, file);
+      definitions.push(parsePromptFile(readFileSync(source, 'utf8'), source));
+    } catch (error) {
+      process.stderr.write(`Skipping prompt ${file}: ${(error as Error).message}\n`);
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Fill in a prompt template with argument values and live context
+ * @param definition Prompt definition
+ * @param args Arguments the prompt was called with
+ * @returns Prompt text
+ */
+export async function renderPrompt(
+  definition: PromptDefinition,
+  args: PromptArguments
+): Promise<string> {
+  // Work out each piece of context once, even if it is used several times
+  const contextNames = new Set<string>();
+  for (const [, name] of definition.template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (name.startsWith('context.')) {
+      contextNames.add(name.slice('context.'.length));
+    }
+  }
+  const context = new Map<string, string>();
+  for (const name of contextNames) {
+    context.set(name, await renderContext(name, args));
+  }
+
+  return definition.template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (name.startsWith('context.')) {
+      return context.get(name.slice('context.'.length)) ?? placeholder;
+    }
+    return args[name] ?? '';
+  });
+}
+
+/**
+ * Build the argument schema for a prompt, with completions for repositories and modules
+ */
+function buildArgumentSchema(definition: PromptDefinition): Record<string, z.ZodTypeAny> {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const argument of definition.arguments) {
+    let schema: z.ZodTypeAny = argument.required ? z.string() : z.string().optional();
+    if (argument.description) {
+      schema = schema.describe(argument.description);
+    }
+
+    if (argument.name === 'repoId') {
+      schema = completable(schema, value =>
+        repoManager
+          .getAllRepositories()
+          .map(repo => repo.id)
+          .filter(repoId => repoId.startsWith(value || ''))
+      );
+    } else if (argument.name === 'moduleName') {
+      schema = completable(schema, (value, context) =>
+        moduleManager
+          .getModulesForRepo(context?.arguments?.repoId || repoManager.defaultRepoId)
+          .map(module => module.id)
+          .filter(moduleId => moduleId.startsWith(value || ''))
+      );
+    }
+    shape[argument.name] = schema;
+  }
+  return shape;
+}
+
+/**
+ * Load the built-in prompts and those in PROMPTS_DIR, later ones replacing earlier ones by name
+ * @returns Prompt definitions
+ */
+export function loadPromptLibrary(): PromptDefinition[] {
+  const directories = [BUILT_IN_PROMPTS_DIR];
+  if (process.env.PROMPTS_DIR) {
+    directories.push(path.resolve(process.env.PROMPTS_DIR));
+  }
+
+  const byName = new Map<string, PromptDefinition>();
+  for (const directory of directories) {
+    for (const definition of loadPromptDirectory(directory)) {
+      byName.set(definition.name, definition);
+    }
+  }
+  return Array.from(byName.values());
+}
+
+/**
+ * Register the prompt library with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerPromptLibrary(server: McpServer): void {
+  for (const definition of loadPromptLibrary()) {
+    for (const [, name] of definition.template.matchAll(PLACEHOLDER_PATTERN)) {
+      if (name.startsWith('context.') && !isContextName(name.slice('context.'.length))) {
+        process.stderr.write(`Prompt ${definition.name} uses unknown context '${name}'\n`);
+      }
+    }
+
+    server.prompt(
+      definition.name, // Prompt name
+      definition.description || `Prompt from ${path.basename(definition.source)}`, // Description
+      buildArgumentSchema(definition),
+      async (args: PromptArguments) => ({
+        messages: [
+          {
+            role: 'user' as const,
+            content: {
+              type: 'text' as const,
+              text: await renderPrompt(definition, args),
+            },
+          },
+        ],
+      })
+    );
+  }
+}
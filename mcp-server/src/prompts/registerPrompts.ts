@@ -6,13 +6,17 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
 // Import all prompt registrations
 import { registerBasicPrompt } from './basicPrompt.js';
+import { registerPromptLibrary } from './promptLibrary.js';
 
 /**
  * Register all prompts with the MCP server
  * @param server The MCP server instance
  */
 export function registerAllPrompts(server: McpServer): void {
-  const promptRegistrations = [{ register: registerBasicPrompt, name: 'Basic' }];
+  const promptRegistrations = [
+    { register: registerBasicPrompt, name: 'Basic' },
+    { register: registerPromptLibrary, name: 'Library' },
+  ];
 
   // Register each prompt with error handling
   for (const { register, name } of promptRegistrations) {
@@ -0,0 +1,102 @@
+/**
+ * Module Resources
+ * Exposes the detected modules as MCP resources
+ */
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+
+import {
+  describeModule,
+  formatModuleDescription,
+  formatModuleList,
+} from '../utils/moduleDescriber.js';
+import { moduleManager } from '../utils/moduleManager.js';
+import { repoManager } from '../utils/repoManager.js';
+
+/**
+ * Get a single URI template variable, decoded
+ */
+function getVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent((Array.isArray(value) ? value[0] : value) || '');
+}
+
+/**
+ * Register the module resources with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerModuleResources(server: McpServer): void {
+  // The module list of each repository
+  server.resource(
+    'repository-modules', // Resource name
+    new ResourceTemplate('modules://{repoId}', {
+      list: () => ({
+        resources: repoManager.getAllRepositories().map(repo => ({
+          uri: `modules://${encodeURIComponent(repo.id)}`,
+          name: `${repo.displayName} modules`,
+          description: `Modules detected in repository ${repo.id}`,
+          mimeType: 'text/plain',
+        })),
+      }),
+    }),
+    {
+      description: 'Lists the modules detected in a repository',
+      mimeType: 'text/plain',
+    },
+    (uri, variables) => {
+      const repoId = getVariable(variables, 'repoId');
+      if (!repoManager.getRepository(repoId)) {
+        throw new Error(`Repository not found: ${repoId}`);
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'text/plain',
+            text: formatModuleList({ [repoId]: moduleManager.getModulesForRepo(repoId) }),
+          },
+        ],
+      };
+    }
+  );
+
+  // The description of each module
+  server.resource(
+    'module', // Resource name
+    new ResourceTemplate('module://{repoId}/{moduleId}', {
+      list: () => ({
+        resources: Object.entries(moduleManager.getAllModulesByRepo()).flatMap(
+          ([repoId, modules]) =>
+            modules.map(module => ({
+              uri: `module://${encodeURIComponent(repoId)}/${encodeURIComponent(module.id)}`,
+              name: `${module.name} (${repoId})`,
+              description: `${module.type} module in ${module.language} at /${repoId}/${module.path}`,
+              mimeType: 'text/plain',
+            }))
+        ),
+      }),
+    }),
+    {
+      description: "A module's manifest, README excerpt, file count and size",
+      mimeType: 'text/plain',
+    },
+    async (uri, variables) => {
+      const repoId = getVariable(variables, 'repoId');
+      const moduleId = getVariable(variables, 'moduleId');
+      const module = moduleManager.getModule(moduleId, repoId);
+      if (!module) {
+        throw new Error(`Module not found: ${moduleId} in repository ${repoId}`);
+      }
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'text/plain',
+            text: formatModuleDescription(await describeModule(module)),
+          },
+        ],
+      };
+    }
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * Resource Registration Module
+ * Centralizes registration of all resources with the MCP server
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+// Import all resource registrations
+import { registerModuleResources } from './moduleResources.js';
+import { registerRepoResources } from './repoResources.js';
+import { registerResourceSubscriptions } from './resourceSubscriptions.js';
+
+/**
+ * Register all resources with the MCP server
+ * @param server The MCP server instance
+ */
+export function registerAllResources(server: McpServer): void {
+  const resourceRegistrations = [
+    { register: registerRepoResources, name: 'Repository' },
+    { register: registerModuleResources, name: 'Module' },
+    { register: registerResourceSubscriptions, name: 'Subscription' },
+  ];
+
+  // Register each resource with error handling
+  for (const { register, name } of resourceRegistrations) {
+    try {
+      register(server);
+      console.error(`${name} resources registered successfully`);
+    } catch (error) {
+      console.error(`Error registering ${name} resources:`, error);
+    }
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Repository Resources
+ * Exposes repository files and directories as MCP resources at repo://repoId/path/to/file
+ */
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+
+import { getMimeType, sniffFileContent } from '../utils/fileContent.js';
+import { resolveToAbsolutePath } from '../utils/path-handler.js';
+import { repoManager } from '../utils/repoManager.js';
+import { formatSizeLimit, getServerConfig } from '../utils/serverConfig.js';
+import { toResourceUri } from './resourceSubscriptions.js';
+
+// Most completions offered for a path
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Get a single URI template variable
+ */
+function getVariable(value: string | string[] | undefined): string {
+  return (Array.isArray(value) ? value[0] : value) || '';
+}
+
+/**
+ * Read a repository path as a resource
+ * Files are returned as text or base64 blobs with their MIME type, directories as a listing
+ *
+ * @param repoId Repository ID
+ * @param relativePath Path relative to the repository root
+ * @returns Resource contents
+ */
+async function readRepoResource(repoId: string, relativePath: string): Promise<ReadResourceResult> {
+  if (!repoManager.getRepository(repoId)) {
+    throw new Error(`Repository not found: ${repoId}`);
+  }
+
+  const uri = toResourceUri(repoId, relativePath);
+  const absolutePath = resolveToAbsolutePath(`/${repoId}/${relativePath}`);
+  const stats = await fs.stat(absolutePath).catch(error => {
+    throw (error as NodeJS.ErrnoException).code === 'ENOENT'
+      ? new Error(`Path not found: '${uri}'`)
+      : error;
+  });
+
+  if (stats.isDirectory()) {
+    // Directories first, each marked with a trailing slash
+    const entries = await fs.readdir(absolutePath, { withFileTypes: true });
+    const names = entries
+      .sort(
+        (a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name)
+      )
+      .map(entry => (entry.isDirectory() ? `${entry.name}/` : entry.name));
+
+    return {
+      contents: [{ uri, mimeType: 'text/plain', text: names.join('\n') }],
+    };
+  }
+
+  // Same limit as read-file
+  const { maxFileSize } = getServerConfig().limits;
+  if (stats.size > maxFileSize) {
+    throw new Error(
+      `File is too large (${(stats.size / (1024 * 1024)).toFixed(2)}MB). Maximum size is ${formatSizeLimit(maxFileSize)}.`
+    );
+  }
+
+  const content = await fs.readFile(absolutePath);
+  const sniffed = sniffFileContent(content, absolutePath);
+  const mimeType = getMimeType(sniffed, absolutePath);
+
+  if (sniffed.kind === 'text') {
+    return { contents: [{ uri, mimeType, text: sniffed.text }] };
+  }
+  return { contents: [{ uri, mimeType, blob: content.toString('base64') }] };
+}
+
+/**
+ * Complete a path variable from the entries of the directory typed so far
+ * @param repoId Repository ID
+ * @param value Partial path
+ * @returns Matching paths, directories with a trailing slash
+ */
+async function completePath(repoId: string, value: string): Promise<string[]> {
+  if (!repoManager.getRepository(repoId)) {
+    return [];
+  }
+
+  const slash = value.lastIndexOf('/');
+  const directory = value.slice(0, slash + 1);
+  const prefix = value.slice(slash + 1);
+
+  try {
+    const absoluteDir = resolveToAbsolutePath(`/${repoId}/${directory}`);
+    const entries = await fs.readdir(absoluteDir, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.name.startsWith(prefix))
+      .map(entry => `${directory}${entry.name}${entry.isDirectory() ? '/' : ''}`)
+      .sort()
+      .slice(0, MAX_COMPLETIONS);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Complete a repository ID
+ */
+function completeRepoId(value: string): string[] {
+  return repoManager
+    .getAllRepositories()
+    .map(repo => repo.id)
+    .filter(repoId => repoId.startsWith(value));
+}
+
+/**
+ * Register the repository resources with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerRepoResources(server: McpServer): void {
+  // Repository roots; these are what resources/list returns
+  server.resource(
+    'repository-root', // Resource name
+    new ResourceTemplate('repo://{repoId}/', {
+      list: () => ({
+        resources: repoManager.getAllRepositories().map(repo => ({
+          uri: toResourceUri(repo.id, ''),
+          name: repo.displayName,
+          description: `Root directory of repository ${repo.id}`,
+          mimeType: 'text/plain',
+        })),
+      }),
+      complete: { repoId: completeRepoId },
+    }),
+    {
+      description: 'Lists the top-level files and directories of a repository',
+      mimeType: 'text/plain',
+    },
+    (_uri, variables) => readRepoResource(getVariable(variables.repoId), '')
+  );
+
+  // Any file or directory below a repository root
+  server.resource(
+    'repository-path', // Resource name
+    new ResourceTemplate('repo://{repoId}/{+path}', {
+      list: undefined,
+      complete: {
+        repoId: completeRepoId,
+        path: (value, context) =>
+          completePath(context?.arguments?.repoId || repoManager.defaultRepoId, value),
+      },
+    }),
+    {
+      description:
+        'A file in a repository, returned with its MIME type (binary files as base64), or a directory listing',
+    },
+    (_uri, variables) =>
+      readRepoResource(
+        getVariable(variables.repoId),
+        decodeURIComponent(getVariable(variables.path)).replace(/\/+$/, '')
+      )
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Resource Subscriptions
+ * Tracks client subscriptions to repository resources and notifies clients when files change
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { RepoChange, repoWatcher } from '../utils/repoWatcher.js';
+
+// Subscribed resource URIs
+const subscriptions = new Set<string>();
+
+/**
+ * Build the resource URI for a repository path
+ * @param repoId Repository ID
+ * @param relativePath Path relative to the repository root
+ * @returns URI in format repo://repoId/path/to/file
+ */
+export function toResourceUri(repoId: string, relativePath: string): string {
+  const encodedPath = relativePath.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+  return `repo://${repoId}/${encodedPath}`;
+}
+
+/**
+ * Split a resource URI into its repository and path
+ * @param uri URI in format repo://repoId/path/to/file
+ * @returns Repository ID and relative path, or undefined if the URI is not a repository URI
+ */
+export function parseResourceUri(
+  uri: string
+): { repoId: string; relativePath: string } | undefined {
+  const match = uri.match(/^repo:\/\/([^/]+)\/?(.*)$/);
+  if (!match) {
+    return undefined;
+  }
+  try {
+    return { repoId: match[1], relativePath: decodeURIComponent(match[2]).replace(/\/+$/, '') };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a change batch touches a subscribed path
+ * A subscription to a directory covers everything below it
+ */
+function affectsSubscription(change: RepoChange, uri: string): boolean {
+  const subscribed = parseResourceUri(uri);
+  if (!subscribed || subscribed.repoId !== change.repoId) {
+    return false;
+  }
+  const { relativePath } = subscribed;
+  return change.paths.some(
+    changedPath =>
+      relativePath === '' ||
+      changedPath === relativePath ||
+      changedPath.startsWith(`${relativePath}/`)
+  );
+}
+
+/**
+ * Register resource subscription handling and change notifications with the MCP server
+ * Must be called before the server connects to its transport.
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerResourceSubscriptions(server: McpServer): void {
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  repoWatcher.onChange(async change => {
+    if (!server.isConnected()) {
+      return;
+    }
+
+    // Created, deleted and renamed files change the list of resources
+    if (change.structural) {
+      server.sendResourceListChanged();
+    }
+
+    for (const uri of subscriptions) {
+      if (affectsSubscription(change, uri)) {
+        await server.server.sendResourceUpdated({ uri });
+      }
+    }
+  });
+}
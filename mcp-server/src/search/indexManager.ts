@@ -0,0 +1,450 @@
+/**
+ * Index Manager
+ * Builds a trigram index for each repository, keeps it current and saves it in the cache directory
+ *
+ * Indexes are built in the background at startup, or loaded from the cache directory. Before
+ * a search uses an index, files whose modification time or size changed are read again: only
+ * the paths reported by the repository watcher when it covers everything, otherwise every file
+ * (which costs a stat per file rather than a read). A full rescan also runs every few minutes to
+ * catch changes the watcher cannot see. Nothing leaves the machine.
+ */
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+import { decodeText, detectTextEncoding, isBinaryContent } from '../utils/fileContent.js';
+import { FileWalker } from '../utils/fileWalker.js';
+import { repoManager } from '../utils/repoManager.js';
+import { RepoChange, repoWatcher } from '../utils/repoWatcher.js';
+import { getServerConfig } from '../utils/serverConfig.js';
+import { SearchRequest } from './searchTypes.js';
+import { TrigramIndex } from './trigramIndex.js';
+import { extractTrigrams, queryTrigrams } from './trigrams.js';
+
+/**
+ * Lifecycle of a repository's index
+ */
+export type IndexState =
+  | 'missing' // Not built yet
+  | 'building' // First build in progress; searches read every file meanwhile
+  | 'ready' // Built and used by searches
+  | 'failed'; // The last build failed
+
+/**
+ * Coverage and staleness of a repository's index, for reporting
+ */
+export interface IndexStatus {
+  repoId: string;
+  state: IndexState;
+  files: number; // Files known to the index
+  indexed: number; // Files whose trigrams are recorded; the rest are binary or too large
+  trigrams: number; // Trigrams recorded across all files
+  pendingChanges: number; // Paths reported by the watcher and not yet re-read
+  lastFullScan?: Date;
+  lastRefresh?: Date;
+  savedAt?: Date;
+  cacheFile: string;
+  watched: boolean; // Whether the watcher reports every change
+  error?: string;
+}
+
+/**
+ * Everything tracked for one repository's index
+ */
+interface RepoIndex {
+  repoId: string;
+  repoPath: string;
+  index?: TrigramIndex;
+  state: IndexState;
+  scan?: Promise<boolean>; // Build or refresh in progress; resolves to false if it was stopped
+  changedPaths: Set<string>; // Reported by the watcher since the last refresh
+  lastFullScan?: number;
+  lastRefresh?: number;
+  savedAt?: number;
+  unsaved: boolean;
+  saveTimer?: NodeJS.Timeout;
+  error?: string;
+}
+
+// Rescan every file at least this often, for changes the watcher does not report
+const FULL_RESCAN_INTERVAL_MS = 5 * 60 * 1000;
+
+// Wait this long after a change before saving, so a burst of edits is saved once
+const SAVE_DELAY_MS = 30 * 1000;
+
+/**
+ * Index Manager class
+ * Holds the index of every repository, created on first use
+ */
+export class IndexManager {
+  private repos: Map<string, RepoIndex> = new Map();
+
+  /**
+   * Check whether indexing is turned on
+   */
+  public isEnabled(): boolean {
+    return getServerConfig().index.enabled;
+  }
+
+  /**
+   * Get the directory indexes are saved in
+   * SWIFT_CODER_CACHE_DIR wins over index.cacheDir in the config file
+   */
+  public getCacheDir(): string {
+    return (
+      process.env.SWIFT_CODER_CACHE_DIR ||
+      getServerConfig().index.cacheDir ||
+      path.join(os.homedir(), '.cache', 'swift-coder')
+    );
+  }
+
+  /**
+   * Load or build the index of every repository in the background
+   */
+  public start(): void {
+    if (!this.isEnabled()) {
+      process.stderr.write('Search indexing disabled by the config file\n');
+      return;
+    }
+
+    void (async () => {
+      for (const repo of repoManager.getAllRepositories()) {
+        const repoIndex = this.getRepoIndex(repo.id);
+        if (repoIndex) {
+          await this.runScan(repoIndex, () => this.build(repoIndex));
+        }
+      }
+    })();
+  }
+
+  /**
+   * Note changed paths reported by the repository watcher; they are re-read before the next search
+   * @param change Batch of changes in one repository
+   */
+  public handleChange(change: RepoChange): void {
+    const repoIndex = this.repos.get(change.repoId);
+    change.paths.forEach(changedPath => repoIndex?.changedPaths.add(changedPath));
+  }
+
+  /**
+   * Find the files that can contain a match for a search
+   * Never waits for a first build: until the index is ready, searches read every file.
+   *
+   * @param request Search request
+   * @param signal Signal that stops the search
+   * @returns Absolute paths of candidate files, or undefined if the index cannot narrow the search
+   */
+  public async findCandidates(
+    request: SearchRequest,
+    signal: AbortSignal
+  ): Promise<string[] | undefined> {
+    if (!this.isEnabled()) {
+      return undefined;
+    }
+    const required = queryTrigrams(request.query);
+    const repoIndex = this.getRepoIndex(request.repoId);
+    if (
+      required.length === 0 ||
+      !repoIndex ||
+      repoIndex.repoPath !== path.resolve(request.repoRoot)
+    ) {
+      return undefined;
+    }
+
+    if (repoIndex.state !== 'ready') {
+      if (!repoIndex.scan) {
+        void this.runScan(repoIndex, () => this.build(repoIndex));
+      }
+      return undefined;
+    }
+    if (!(await this.runScan(repoIndex, () => this.refresh(repoIndex, signal)))) {
+      return undefined;
+    }
+
+    const relativeDir = path
+      .relative(repoIndex.repoPath, request.searchDir)
+      .split(path.sep)
+      .join('/');
+    return repoIndex
+      .index!.findCandidates(relativeDir, required)
+      .map(relativePath => path.join(repoIndex.repoPath, relativePath));
+  }
+
+  /**
+   * Report on the index of one repository or all of them
+   * @param repoId Repository ID; all repositories if omitted
+   * @returns Status of each index
+   */
+  public getStatus(repoId?: string): IndexStatus[] {
+    const repoIds = repoId ? [repoId] : repoManager.getAllRepositories().map(repo => repo.id);
+    const statuses: IndexStatus[] = [];
+
+    for (const id of repoIds) {
+      const repoIndex = this.getRepoIndex(id);
+      if (!repoIndex) {
+        continue;
+      }
+      const counts = repoIndex.index?.count() ?? { files: 0, indexed: 0, trigrams: 0 };
+      const toDate = (time?: number): Date | undefined =>
+        time === undefined ? undefined : new Date(time);
+      statuses.push({
+        repoId: id,
+        state: repoIndex.state,
+        ...counts,
+        pendingChanges: repoIndex.changedPaths.size,
+        lastFullScan: toDate(repoIndex.lastFullScan),
+        lastRefresh: toDate(repoIndex.lastRefresh),
+        savedAt: toDate(repoIndex.savedAt),
+        cacheFile: this.getCacheFile(repoIndex),
+        watched: repoWatcher.isWatchingEverything(),
+        error: repoIndex.error,
+      });
+    }
+    return statuses;
+  }
+
+  /**
+   * Get the tracking entry of a repository, creating it on first use
+   * @returns The entry, or undefined for an unknown repository
+   */
+  private getRepoIndex(repoId: string): RepoIndex | undefined {
+    let repoIndex = this.repos.get(repoId);
+    if (!repoIndex) {
+      const repo = repoManager.getRepository(repoId);
+      if (!repo) {
+        return undefined;
+      }
+      repoIndex = {
+        repoId,
+        repoPath: path.resolve(repo.path),
+        state: 'missing',
+        changedPaths: new Set(),
+        unsaved: false,
+      };
+      this.repos.set(repoId, repoIndex);
+    }
+    return repoIndex;
+  }
+
+  /**
+   * Get the file a repository's index is saved in
+   * The name includes a hash of the repository path, so remounting elsewhere starts afresh.
+   */
+  private getCacheFile(repoIndex: RepoIndex): string {
+    const pathHash = createHash('sha1').update(repoIndex.repoPath).digest('hex').slice(0, 8);
+    return path.join(this.getCacheDir(), `${repoIndex.repoId}-${pathHash}.trigrams`);
+  }
+
+  /**
+   * Run a build or refresh, unless one is already running for the repository
+   * @returns Whether the scan that ran (or was already running) finished
+   */
+  private runScan(repoIndex: RepoIndex, scan: () => Promise<boolean>): Promise<boolean> {
+    if (!repoIndex.scan) {
+      repoIndex.scan = scan()
+        .catch(error => {
+          repoIndex.error = (error as Error).message;
+          process.stderr.write(`Error indexing ${repoIndex.repoId}: ${repoIndex.error}\n`);
+          return false;
+        })
+        .finally(() => {
+          repoIndex.scan = undefined;
+        });
+    }
+    return repoIndex.scan;
+  }
+
+  /**
+   * Load a repository's saved index, or build it from scratch, then bring it up to date
+   */
+  private async build(repoIndex: RepoIndex): Promise<boolean> {
+    repoIndex.state = 'building';
+    repoIndex.error = undefined;
+    const { maxFileSize } = getServerConfig().limits;
+
+    const saved = await fs.readFile(this.getCacheFile(repoIndex)).catch(() => undefined);
+    repoIndex.index =
+      (saved && TrigramIndex.deserialize(saved, repoIndex.repoPath, maxFileSize)) ||
+      new TrigramIndex(repoIndex.repoPath, maxFileSize);
+
+    repoIndex.changedPaths.clear();
+    if (!(await this.scanDirectory(repoIndex, repoIndex.repoPath))) {
+      repoIndex.state = 'failed';
+      return false;
+    }
+    repoIndex.lastFullScan = repoIndex.lastRefresh = Date.now();
+    repoIndex.state = 'ready';
+    await this.save(repoIndex);
+    return true;
+  }
+
+  /**
+   * Bring a ready index up to date before a search
+   * @returns False if the search was stopped before the index was current
+   */
+  private async refresh(repoIndex: RepoIndex, signal: AbortSignal): Promise<boolean> {
+    const now = Date.now();
+    const fullScan =
+      !repoWatcher.isWatchingEverything() ||
+      now - (repoIndex.lastFullScan ?? 0) > FULL_RESCAN_INTERVAL_MS;
+    const changedPaths = fullScan ? [] : Array.from(repoIndex.changedPaths);
+    repoIndex.changedPaths.clear();
+
+    let finished: boolean;
+    if (fullScan) {
+      finished = await this.scanDirectory(repoIndex, repoIndex.repoPath, signal);
+      if (finished) {
+        repoIndex.lastFullScan = now;
+      }
+    } else {
+      finished = await this.refreshPaths(repoIndex, changedPaths, signal);
+    }
+
+    if (!finished) {
+      // Make sure the next search looks at everything again
+      repoIndex.lastFullScan = undefined;
+      return false;
+    }
+    repoIndex.lastRefresh = now;
+    this.scheduleSave(repoIndex);
+    return true;
+  }
+
+  /**
+   * Re-read the paths reported by the watcher
+   * @returns False if stopped by the signal
+   */
+  private async refreshPaths(
+    repoIndex: RepoIndex,
+    changedPaths: string[],
+    signal: AbortSignal
+  ): Promise<boolean> {
+    const walker = new FileWalker(repoIndex.repoPath);
+
+    for (const relativePath of changedPaths) {
+      if (signal.aborted) {
+        return false;
+      }
+      const absolutePath = path.join(repoIndex.repoPath, relativePath);
+      const stats = await fs.lstat(absolutePath).catch(() => undefined);
+
+      if (
+        !stats ||
+        !(stats.isFile() || stats.isDirectory()) ||
+        (await walker.isIgnoredBelow(repoIndex.repoPath, absolutePath, stats.isDirectory()))
+      ) {
+        repoIndex.unsaved = repoIndex.index!.remove(relativePath) > 0 || repoIndex.unsaved;
+      } else if (stats.isDirectory()) {
+        if (!(await this.scanDirectory(repoIndex, absolutePath, signal))) {
+          return false;
+        }
+      } else {
+        await this.indexFile(repoIndex, relativePath, absolutePath);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Index every file below a directory, re-reading only those that changed, and drop
+   * entries for files that are gone
+   * @returns False if stopped by the signal
+   */
+  private async scanDirectory(
+    repoIndex: RepoIndex,
+    absoluteDir: string,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const index = repoIndex.index!;
+    const seen = new Set<string>();
+
+    for await (const entry of new FileWalker(repoIndex.repoPath).walk(absoluteDir)) {
+      if (signal?.aborted) {
+        return false;
+      }
+      seen.add(entry.relativePath);
+      await this.indexFile(repoIndex, entry.relativePath, entry.absolutePath);
+    }
+
+    const relativeDir = path.relative(repoIndex.repoPath, absoluteDir).split(path.sep).join('/');
+    const prefix = relativeDir ? `${relativeDir}/` : '';
+    for (const filePath of index.paths()) {
+      if (filePath.startsWith(prefix) && !seen.has(filePath)) {
+        index.remove(filePath);
+        repoIndex.unsaved = true;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Record a file's trigrams, unless its modification time and size are unchanged
+   */
+  private async indexFile(
+    repoIndex: RepoIndex,
+    relativePath: string,
+    absolutePath: string
+  ): Promise<void> {
+    const index = repoIndex.index!;
+    try {
+      const stats = await fs.stat(absolutePath);
+      const known = index.get(relativePath);
+      if (known && known.mtimeMs === stats.mtimeMs && known.size === stats.size) {
+        return;
+      }
+
+      let trigrams: Uint32Array | null = null;
+      if (stats.size <= index.maxFileSize) {
+        const raw = await fs.readFile(absolutePath);
+        if (!isBinaryContent(raw)) {
+          trigrams = extractTrigrams(decodeText(raw, detectTextEncoding(raw)));
+        }
+      }
+      index.set(relativePath, { mtimeMs: stats.mtimeMs, size: stats.size, trigrams });
+    } catch {
+      // Gone or unreadable; searches would skip it too
+      index.remove(relativePath);
+    }
+    repoIndex.unsaved = true;
+  }
+
+  /**
+   * Save an index a while after its last change
+   */
+  private scheduleSave(repoIndex: RepoIndex): void {
+    if (!repoIndex.unsaved || repoIndex.saveTimer) {
+      return;
+    }
+    repoIndex.saveTimer = setTimeout(() => {
+      repoIndex.saveTimer = undefined;
+      void this.save(repoIndex);
+    }, SAVE_DELAY_MS);
+    repoIndex.saveTimer.unref();
+  }
+
+  /**
+   * Save an index to the cache directory, replacing the previous file in one step
+   */
+  private async save(repoIndex: RepoIndex): Promise<void> {
+    if (!repoIndex.index || !repoIndex.unsaved) {
+      return;
+    }
+    const cacheFile = this.getCacheFile(repoIndex);
+    const tempFile = `${cacheFile}.${process.pid}.tmp`;
+    try {
+      repoIndex.unsaved = false;
+      await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+      await fs.writeFile(tempFile, repoIndex.index.serialize());
+      await fs.rename(tempFile, cacheFile);
+      repoIndex.savedAt = Date.now();
+    } catch (error) {
+      repoIndex.unsaved = true;
+      process.stderr.write(`Could not save the index of ${repoIndex.repoId}: ${error}\n`);
+      await fs.rm(tempFile, { force: true }).catch(() => undefined);
+    }
+  }
+}
+
+// Create singleton instance
+export const indexManager = new IndexManager();
@@ -0,0 +1,79 @@
+/**
+ * Search Backends tests
+ */
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { compareWalkOrder } from '../utils/fileWalker.js';
+import { javascriptBackend, ripgrepBackend } from './searchBackends.js';
+import { SearchBackend, SearchRequest } from './searchTypes.js';
+import { buildSearchRegExp, SearchQuery } from './textMatcher.js';
+
+// Names whose bytewise order differs from walk order
+const FILES = ['B.ts', 'a.ts', 'a/z.ts', 'Z/y.ts', 'b-c.ts', 'b/x.ts', 'b.ts', 'dist/out.ts'];
+
+describe('search backends', () => {
+  let repoPath: string;
+  let request: SearchRequest;
+
+  before(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'search-backends-'));
+    for (const file of FILES) {
+      fs.mkdirSync(path.dirname(path.join(repoPath, file)), { recursive: true });
+      fs.writeFileSync(path.join(repoPath, file), 'export const needle = 1;\n');
+    }
+
+    const query: SearchQuery = {
+      pattern: 'needle',
+      literal: true,
+      wholeWord: false,
+      ignoreCase: false,
+      multiline: false,
+      contextBefore: 0,
+      contextAfter: 0,
+    };
+    request = {
+      searchDir: repoPath,
+      repoRoot: repoPath,
+      repoId: 'search',
+      query,
+      regex: buildSearchRegExp(query),
+      maxFileSize: 1024 * 1024,
+    };
+  });
+
+  after(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  /**
+   * Run a search to the end and list the files it found, in the order they came
+   */
+  async function searchPaths(backend: SearchBackend, searchRequest: SearchRequest) {
+    const paths: string[] = [];
+    for await (const result of backend.search(searchRequest, new AbortController().signal)) {
+      paths.push(result.toolPath.replace('/search/', ''));
+    }
+    return paths;
+  }
+
+  // Build output is ignored; everything else comes in walk order
+  const expected = FILES.filter(file => !file.startsWith('dist/')).sort(compareWalkOrder);
+
+  it('walks in walk order with the JavaScript backend', async () => {
+    assert.deepEqual(await searchPaths(javascriptBackend, request), expected);
+  });
+
+  it('walks in walk order with ripgrep, as the index lists candidates', async t => {
+    if (!(await ripgrepBackend.isAvailable())) {
+      t.skip('rg is not installed');
+      return;
+    }
+    assert.deepEqual(await searchPaths(ripgrepBackend, request), expected);
+    const files = expected.map(file => path.join(repoPath, file));
+    assert.deepEqual(await searchPaths(ripgrepBackend, { ...request, files }), expected);
+  });
+});
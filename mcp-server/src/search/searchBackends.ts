@@ -0,0 +1,337 @@
+/**
+ * Search Backends
+ * ripgrep and a JavaScript fallback, both honouring the server's ignore rules
+ */
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import readline from 'readline';
+
+import { findExecutable } from '../linting/linters.js';
+import { decodeText, detectTextEncoding, isBinaryContent } from '../utils/fileContent.js';
+import { FileWalker } from '../utils/fileWalker.js';
+import { FileMatches, SearchBackend, SearchBackendError, SearchRequest } from './searchTypes.js';
+import { addHit, matchText } from './textMatcher.js';
+
+// Files read and matched at the same time by the JavaScript backend
+const JS_SEARCH_CONCURRENCY = 8;
+
+// Files passed to one rg run, well below command line limits
+const RIPGREP_FILES_PER_RUN = 500;
+
+// Most of ripgrep's error output kept for reporting
+const MAX_STDERR_LENGTH = 4000;
+
+/**
+ * Text in ripgrep's JSON output: UTF-8 text, or base64 bytes when it is not valid UTF-8
+ */
+interface RipgrepText {
+  text?: string;
+  bytes?: string;
+}
+
+/**
+ * One line of `rg --json` output
+ */
+interface RipgrepMessage {
+  type: 'begin' | 'match' | 'context' | 'end' | 'summary';
+  data: {
+    path?: RipgrepText;
+    lines?: RipgrepText;
+    line_number?: number;
+  };
+}
+
+/**
+ * Check whether a file has one of the extensions being searched
+ */
+function hasSearchedExtension(filePath: string, fileExtensions?: string[]): boolean {
+  return (
+    !fileExtensions ||
+    fileExtensions.length === 0 ||
+    fileExtensions.includes(path.extname(filePath))
+  );
+}
+
+/**
+ * Build the tool path of a file found by a search
+ */
+function toToolPath(request: SearchRequest, absolutePath: string): string {
+  const relativePath = path.relative(request.repoRoot, absolutePath).split(path.sep).join('/');
+  return `/${request.repoId}/${relativePath}`;
+}
+
+/**
+ * List the files a request searches: its file list, or the files below its directory
+ */
+async function* listSearchedFiles(request: SearchRequest): AsyncGenerator<string> {
+  if (request.files) {
+    yield* request.files;
+    return;
+  }
+  for await (const entry of new FileWalker(request.repoRoot).walk(request.searchDir)) {
+    yield entry.absolutePath;
+  }
+}
+
+/**
+ * Search one file with the JavaScript matcher
+ * @returns The file's matches, or undefined if it has none or cannot be searched
+ */
+async function searchFile(
+  absolutePath: string,
+  request: SearchRequest
+): Promise<FileMatches | undefined> {
+  try {
+    const stats = await fs.stat(absolutePath);
+    if (stats.size > request.maxFileSize) {
+      return undefined;
+    }
+    const raw = await fs.readFile(absolutePath);
+
+    // Skip binary files, detected from their content rather than their extension
+    if (isBinaryContent(raw)) {
+      return undefined;
+    }
+
+    const text = decodeText(raw, detectTextEncoding(raw));
+    const matches = matchText(text, request.regex, request.query);
+    return matches.hits.length > 0
+      ? { toolPath: toToolPath(request, absolutePath), ...matches }
+      : undefined;
+  } catch (error) {
+    // Skip files that can't be read as text
+    console.error(`Error reading file ${absolutePath}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * JavaScript backend
+ * Walks the tree with FileWalker, or takes the request's file list, and searches a few files
+ * at a time, so the event loop keeps serving other requests while it runs.
+ */
+export const javascriptBackend: SearchBackend = {
+  name: 'javascript',
+
+  isAvailable: async () => true,
+
+  async *search(request, signal) {
+    // Searches in walk order; results are yielded in that order as they complete
+    const pending: Promise<FileMatches | undefined>[] = [];
+
+    for await (const absolutePath of listSearchedFiles(request)) {
+      if (signal.aborted) {
+        return;
+      }
+      if (!hasSearchedExtension(absolutePath, request.fileExtensions)) {
+        continue;
+      }
+      pending.push(searchFile(absolutePath, request));
+      if (pending.length >= JS_SEARCH_CONCURRENCY) {
+        const result = await pending.shift();
+        if (result) {
+          yield result;
+        }
+      }
+    }
+
+    while (pending.length > 0 && !signal.aborted) {
+      const result = await pending.shift();
+      if (result) {
+        yield result;
+      }
+    }
+  },
+};
+
+let ripgrepPath: Promise<string | null> | undefined;
+
+/**
+ * Find the rg executable, once per process
+ */
+function findRipgrep(): Promise<string | null> {
+  if (!ripgrepPath) {
+    ripgrepPath = findExecutable('rg');
+  }
+  return ripgrepPath;
+}
+
+/**
+ * Decode text from ripgrep's JSON output
+ */
+function decodeRipgrepText(value?: RipgrepText): string | undefined {
+  if (value?.text !== undefined) {
+    return value.text;
+  }
+  return value?.bytes !== undefined
+    ? Buffer.from(value.bytes, 'base64').toString('utf8')
+    : undefined;
+}
+
+/**
+ * Build the rg arguments that describe what to match
+ * @param request Search request
+ * @returns Arguments for rg, to be followed by the paths to search
+ */
+function buildRipgrepArgs(request: SearchRequest): string[] {
+  const { query } = request;
+  const args = ['--json', '--no-config', '--max-filesize', String(request.maxFileSize)];
+
+  if (query.ignoreCase) args.push('--ignore-case');
+  if (query.literal) args.push('--fixed-strings');
+  if (query.wholeWord) args.push('--word-regexp');
+  if (query.multiline) args.push('--multiline');
+  if (query.contextBefore > 0) args.push('--before-context', String(query.contextBefore));
+  if (query.contextAfter > 0) args.push('--after-context', String(query.contextAfter));
+
+  args.push('--regexp', query.pattern);
+  return args;
+}
+
+/**
+ * Progress of a search made of several rg runs
+ */
+interface RipgrepProgress {
+  yielded: boolean; // Whether any run has yielded a result
+}
+
+/**
+ * Run rg once and yield the files it reports
+ * @param command Path to rg
+ * @param args Arguments for rg
+ * @param request Search request
+ * @param signal Signal that stops the search
+ * @param progress Shared by the runs of one search
+ */
+async function* runRipgrep(
+  command: string,
+  args: string[],
+  request: SearchRequest,
+  signal: AbortSignal,
+  progress: RipgrepProgress
+): AsyncGenerator<FileMatches> {
+  const child = spawn(command, args, {
+    cwd: request.repoRoot,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let stderr = '';
+  child.stderr.on('data', chunk => {
+    stderr = (stderr + chunk).slice(0, MAX_STDERR_LENGTH);
+  });
+  const exited = new Promise<void>(resolve => {
+    child.on('close', () => resolve());
+    child.on('error', error => {
+      stderr += error.message;
+      resolve();
+    });
+  });
+  const stop = (): void => {
+    child.kill();
+  };
+  signal.addEventListener('abort', stop, { once: true });
+
+  let current: { absolutePath: string; matches: FileMatches } | undefined;
+  let finished = false;
+
+  try {
+    for await (const line of readline.createInterface({ input: child.stdout })) {
+      const message = JSON.parse(line) as RipgrepMessage;
+
+      if (message.type === 'begin') {
+        const filePath = decodeRipgrepText(message.data.path);
+        current = filePath
+          ? {
+              absolutePath: filePath,
+              matches: { toolPath: toToolPath(request, filePath), hits: [], lines: new Map() },
+            }
+          : undefined;
+      } else if ((message.type === 'match' || message.type === 'context') && current) {
+        const startLine = message.data.line_number ?? 0;
+        const text = decodeRipgrepText(message.data.lines) ?? '';
+        const lines = text.replace(/\r?\n$/, '').split(/\r?\n/);
+        lines.forEach((lineText, index) => current!.matches.lines.set(startLine + index, lineText));
+        if (message.type === 'match') {
+          addHit(current.matches.hits, { startLine, endLine: startLine + lines.length - 1 });
+        }
+      } else if (message.type === 'end' && current) {
+        const { matches } = current;
+        current = undefined;
+        if (matches.hits.length > 0) {
+          progress.yielded = true;
+          yield matches;
+        }
+      } else if (message.type === 'summary') {
+        finished = true;
+      }
+    }
+    await exited;
+  } finally {
+    signal.removeEventListener('abort', stop);
+    if (child.exitCode === null) {
+      child.kill();
+    }
+  }
+
+  // rg ends every search it completes with a summary, even when some files were unreadable
+  if (!finished && !signal.aborted) {
+    const reason = stderr.trim() || 'rg exited without finishing the search';
+    if (!progress.yielded) {
+      throw new SearchBackendError(reason);
+    }
+    console.error(`ripgrep stopped early: ${reason}`);
+  }
+}
+
+/**
+ * ripgrep backend
+ * Runs `rg --json` on the files FileWalker finds, or on the request's file list, in batches and
+ * on one thread, so results come in the same order as from the JavaScript backend and every
+ * page of a search continues where the previous one stopped, whichever source lists the files.
+ * Patterns using JavaScript-only syntax, such as lookbehind, make rg fail and the search
+ * falls back to the JavaScript backend.
+ */
+export const ripgrepBackend: SearchBackend = {
+  name: 'ripgrep',
+
+  isAvailable: async () => (await findRipgrep()) !== null,
+
+  async *search(request, signal) {
+    const command = await findRipgrep();
+    if (!command) {
+      throw new SearchBackendError('rg is not installed');
+    }
+    const progress: RipgrepProgress = { yielded: false };
+    const runBatch = (files: string[]): AsyncGenerator<FileMatches> =>
+      runRipgrep(
+        command,
+        [...buildRipgrepArgs(request), '--threads', '1', '--', ...files],
+        request,
+        signal,
+        progress
+      );
+
+    let batch: string[] = [];
+    for await (const absolutePath of listSearchedFiles(request)) {
+      if (signal.aborted) {
+        return;
+      }
+      if (!hasSearchedExtension(absolutePath, request.fileExtensions)) {
+        continue;
+      }
+      batch.push(absolutePath);
+      if (batch.length >= RIPGREP_FILES_PER_RUN) {
+        yield* runBatch(batch);
+        batch = [];
+      }
+    }
+    if (batch.length > 0 && !signal.aborted) {
+      yield* runBatch(batch);
+    }
+  },
+};
+
+/**
+ * Built-in backends, most preferred first
+ */
+export const builtInSearchBackends: SearchBackend[] = [ripgrepBackend, javascriptBackend];
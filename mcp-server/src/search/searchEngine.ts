@@ -0,0 +1,88 @@
+/**
+ * Search Engine
+ * Runs content searches on the best available backend
+ */
+import { indexManager } from './indexManager.js';
+import { builtInSearchBackends } from './searchBackends.js';
+import { FileMatches, SearchBackend, SearchBackendError, SearchRequest } from './searchTypes.js';
+
+/**
+ * Search Engine class
+ * Holds the registered backends and falls back to the next one when a backend cannot run
+ */
+export class SearchEngine {
+  private backends: SearchBackend[] = [];
+  private availableBackends?: Promise<SearchBackend[]>;
+
+  /**
+   * Initialize the search engine with the built-in backends
+   */
+  constructor() {
+    builtInSearchBackends.forEach(backend => this.registerBackend(backend));
+  }
+
+  /**
+   * Register an additional backend
+   * Backends registered later are only used when earlier ones are unavailable or fail
+   * @param backend Backend definition
+   */
+  public registerBackend(backend: SearchBackend): void {
+    this.backends.push(backend);
+    this.availableBackends = undefined;
+  }
+
+  /**
+   * Get the backends that can run on this machine, checked once
+   * @returns Available backends, most preferred first
+   */
+  private getAvailableBackends(): Promise<SearchBackend[]> {
+    if (!this.availableBackends) {
+      this.availableBackends = (async () => {
+        const available: SearchBackend[] = [];
+        for (const backend of this.backends) {
+          if (await backend.isAvailable()) {
+            available.push(backend);
+          }
+        }
+        return available;
+      })();
+    }
+    return this.availableBackends;
+  }
+
+  /**
+   * Search a directory tree
+   * When the signal is aborted the search stops and the files found so far are all it yields.
+   *
+   * @param request Search request
+   * @param signal Signal that stops the search, e.g. AbortSignal.timeout()
+   * @returns Each file with matches, in walk order (see compareWalkOrder) whichever backend runs
+   */
+  public async *search(request: SearchRequest, signal: AbortSignal): AsyncGenerator<FileMatches> {
+    // Let the trigram index rule out files that cannot match
+    const files = await indexManager.findCandidates(request, signal);
+    const narrowed = files ? { ...request, files } : request;
+
+    for (const backend of await this.getAvailableBackends()) {
+      let yielded = false;
+      try {
+        for await (const result of backend.search(narrowed, signal)) {
+          yielded = true;
+          yield result;
+        }
+        return;
+      } catch (error) {
+        if (!(error instanceof SearchBackendError) || yielded) {
+          throw error;
+        }
+        console.error(
+          `Search backend ${backend.name} failed, trying the next one: ${error.message}`
+        );
+      }
+    }
+    throw new Error('No search backend is available');
+  }
+}
+
+// Create singleton instance
+export const searchEngine = new SearchEngine();
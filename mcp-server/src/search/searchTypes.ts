@@ -0,0 +1,54 @@
+/**
+ * Search Types
+ * Shared types for the content search engine and its backends
+ */
+import { SearchQuery, TextMatches } from './textMatcher.js';
+
+/**
+ * Everything a backend needs to search one directory tree
+ */
+export interface SearchRequest {
+  searchDir: string; // Absolute path of the directory to search
+  repoRoot: string; // Absolute path of the repository containing it
+  repoId: string;
+  query: SearchQuery;
+  regex: RegExp; // Query compiled by buildSearchRegExp
+  fileExtensions?: string[]; // Only search files with these extensions, e.g. [".ts"]
+  maxFileSize: number; // Larger files are skipped
+  files?: string[]; // Search only these absolute paths, in this order, instead of walking searchDir
+}
+
+/**
+ * Matches found in one file
+ */
+export interface FileMatches extends TextMatches {
+  toolPath: string; // Path in format /repoId/path/to/file
+}
+
+/**
+ * Error raised by a backend that cannot run a search, so another backend should be used
+ */
+export class SearchBackendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchBackendError';
+  }
+}
+
+/**
+ * A pluggable search backend
+ */
+export interface SearchBackend {
+  name: string;
+  /**
+   * Check whether the backend can run on this machine
+   */
+  isAvailable(): Promise<boolean>;
+  /**
+   * Search a directory tree, yielding each file with matches in a stable order
+   * Stops early, without throwing, once the signal is aborted.
+   *
+   * @throws SearchBackendError if the search cannot run before any result is yielded
+   */
+  search(request: SearchRequest, signal: AbortSignal): AsyncGenerator<FileMatches>;
+}
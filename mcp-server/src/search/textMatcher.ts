@@ -0,0 +1,143 @@
+/**
+ * Text Matcher
+ * Finds the lines of a text that match a search query, with their surrounding context
+ */
+
+/**
+ * What to search for and how
+ */
+export interface SearchQuery {
+  pattern: string;
+  literal: boolean; // Match the pattern as plain text rather than a regular expression
+  wholeWord: boolean; // Only match where the pattern is not part of a longer word
+  ignoreCase: boolean;
+  multiline: boolean; // Let matches span lines; "\n" in the pattern matches a line break
+  contextBefore: number; // Lines to include before each match
+  contextAfter: number; // Lines to include after each match
+}
+
+/**
+ * A match, as the range of lines it covers
+ */
+export interface SearchHit {
+  startLine: number; // 1-based
+  endLine: number; // 1-based, inclusive; equal to startLine unless the query is multiline
+}
+
+/**
+ * Matches found in one file
+ */
+export interface TextMatches {
+  hits: SearchHit[];
+  lines: Map<number, string>; // Text of every matched and context line, by line number
+}
+
+/**
+ * Escape text for use as a literal in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&');
+}
+
+/**
+ * Build the regular expression for a query
+ * @param query Search query
+ * @returns Regular expression; global when the query is multiline
+ * @throws SyntaxError if the pattern is not a valid regular expression
+ */
+export function buildSearchRegExp(query: SearchQuery): RegExp {
+  let source = query.literal ? escapeRegExp(query.pattern) : query.pattern;
+  if (query.wholeWord) {
+    source = `(?<!\\w)(?:${source})(?!\\w)`;
+  }
+  const flags = `${query.ignoreCase ? 'i' : ''}${query.multiline ? 'gm' : ''}`;
+  return new RegExp(source, flags);
+}
+
+/**
+ * Add a hit to a file's hits, merging it into the last one when they overlap
+ * @param hits Hits in line order
+ * @param hit Hit starting at or after the last one
+ */
+export function addHit(hits: SearchHit[], hit: SearchHit): void {
+  const last = hits[hits.length - 1];
+  if (last && hit.startLine <= last.endLine) {
+    last.endLine = Math.max(last.endLine, hit.endLine);
+  } else {
+    hits.push(hit);
+  }
+}
+
+/**
+ * Find the line a character offset is on
+ * @param lineStarts Offset of the first character of each line
+ * @param offset Character offset
+ * @returns 1-based line number
+ */
+function lineAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low + 1;
+}
+
+/**
+ * Find the matches of a query in a text
+ * Overlapping or touching multiline matches are merged into one hit.
+ *
+ * @param text Text to search
+ * @param regex Regular expression from buildSearchRegExp
+ * @param query Search query, for the multiline and context settings
+ * @returns Hits in line order and the lines needed to show them with their context
+ */
+export function matchText(text: string, regex: RegExp, query: SearchQuery): TextMatches {
+  const lines = text.split(/\r?\n/);
+  // A final line break ends the last line rather than starting a new one
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  const hits: SearchHit[] = [];
+
+  if (query.multiline) {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') lineStarts.push(i + 1);
+    }
+
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      addHit(hits, {
+        startLine: lineAt(lineStarts, match.index),
+        endLine: lineAt(lineStarts, match.index + Math.max(match[0].length - 1, 0)),
+      });
+      // Avoid looping forever on empty matches
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+      }
+    }
+  } else {
+    lines.forEach((line, index) => {
+      if (regex.test(line)) {
+        hits.push({ startLine: index + 1, endLine: index + 1 });
+      }
+    });
+  }
+
+  const shownLines = new Map<number, string>();
+  for (const hit of hits) {
+    const first = Math.max(1, hit.startLine - query.contextBefore);
+    const last = Math.min(lines.length, hit.endLine + query.contextAfter);
+    for (let lineNumber = first; lineNumber <= last; lineNumber++) {
+      shownLines.set(lineNumber, lines[lineNumber - 1]);
+    }
+  }
+  return { hits, lines: shownLines };
+}
@@ -0,0 +1,208 @@
+/**
+ * Trigram Index
+ * Records the trigrams of every searchable file in a repository, so a search only reads
+ * the files that can match
+ *
+ * Saved as a 4-byte header length, a JSON header listing the files, padding to a multiple
+ * of 4 bytes, then every file's trigrams as 32-bit integers in the machine's byte order.
+ */
+import { compareWalkOrder } from '../utils/fileWalker.js';
+import { containsAllTrigrams } from './trigrams.js';
+
+/**
+ * What the index knows about one file
+ */
+export interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  trigrams: Uint32Array | null; // Sorted; null for binary and oversized files, which are not searched
+}
+
+/**
+ * JSON header of a saved index
+ */
+interface IndexHeader {
+  version: number;
+  repoPath: string;
+  maxFileSize: number;
+  files: [string, number, number, number][]; // Path, mtime, size, trigram count (-1 for null)
+}
+
+// Bumped whenever the saved format or the trigram extraction changes
+const INDEX_FORMAT_VERSION = 1;
+
+/**
+ * Trigram Index class
+ * Holds one repository's files by path relative to the repository root
+ */
+export class TrigramIndex {
+  public readonly repoPath: string;
+  public readonly maxFileSize: number;
+  private files: Map<string, IndexedFile> = new Map();
+
+  /**
+   * @param repoPath Absolute path to the repository root
+   * @param maxFileSize Size limit the index was built with; files above it are not indexed
+   */
+  constructor(repoPath: string, maxFileSize: number) {
+    this.repoPath = repoPath;
+    this.maxFileSize = maxFileSize;
+  }
+
+  /**
+   * Get a file's entry
+   * @param relativePath Path relative to the repository root
+   */
+  public get(relativePath: string): IndexedFile | undefined {
+    return this.files.get(relativePath);
+  }
+
+  /**
+   * Add or replace a file's entry
+   * @param relativePath Path relative to the repository root
+   * @param file File entry
+   */
+  public set(relativePath: string, file: IndexedFile): void {
+    this.files.set(relativePath, file);
+  }
+
+  /**
+   * Remove a file, or every file below a directory
+   * @param relativePath Path relative to the repository root
+   * @returns Number of entries removed
+   */
+  public remove(relativePath: string): number {
+    let removed = this.files.delete(relativePath) ? 1 : 0;
+    const prefix = `${relativePath}/`;
+    for (const filePath of this.files.keys()) {
+      if (filePath.startsWith(prefix)) {
+        this.files.delete(filePath);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Get the paths of every file in the index
+   */
+  public paths(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  /**
+   * Count the files in the index
+   * @returns Total files and those whose trigrams are recorded
+   */
+  public count(): { files: number; indexed: number; trigrams: number } {
+    let indexed = 0;
+    let trigrams = 0;
+    for (const file of this.files.values()) {
+      if (file.trigrams) {
+        indexed++;
+        trigrams += file.trigrams.length;
+      }
+    }
+    return { files: this.files.size, indexed, trigrams };
+  }
+
+  /**
+   * Find the files that can contain a match
+   * @param relativeDir Directory to search, relative to the repository root ('' for the root)
+   * @param required Trigrams every match contains, sorted ascending
+   * @returns Relative paths of candidate files, in FileWalker order
+   */
+  public findCandidates(relativeDir: string, required: number[]): string[] {
+    const prefix = relativeDir ? `${relativeDir}/` : '';
+    const candidates: string[] = [];
+    for (const [filePath, file] of this.files) {
+      if (
+        filePath.startsWith(prefix) &&
+        file.trigrams &&
+        containsAllTrigrams(file.trigrams, required)
+      ) {
+        candidates.push(filePath);
+      }
+    }
+    return candidates.sort(compareWalkOrder);
+  }
+
+  /**
+   * Serialize the index for saving
+   */
+  public serialize(): Buffer {
+    const header: IndexHeader = {
+      version: INDEX_FORMAT_VERSION,
+      repoPath: this.repoPath,
+      maxFileSize: this.maxFileSize,
+      files: [],
+    };
+    let total = 0;
+    for (const [filePath, file] of this.files) {
+      header.files.push([filePath, file.mtimeMs, file.size, file.trigrams?.length ?? -1]);
+      total += file.trigrams?.length ?? 0;
+    }
+
+    const trigrams = new Uint32Array(total);
+    let offset = 0;
+    for (const file of this.files.values()) {
+      if (file.trigrams) {
+        trigrams.set(file.trigrams, offset);
+        offset += file.trigrams.length;
+      }
+    }
+
+    const json = Buffer.from(JSON.stringify(header));
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(json.length);
+    const padding = Buffer.alloc((4 - (json.length % 4)) % 4);
+    return Buffer.concat([length, json, padding, Buffer.from(trigrams.buffer)]);
+  }
+
+  /**
+   * Load a saved index
+   * @param data Saved index
+   * @param repoPath Repository the index must belong to
+   * @param maxFileSize Size limit the index must have been built with
+   * @returns The index, or undefined if it is unreadable, outdated or for other settings
+   */
+  public static deserialize(
+    data: Buffer,
+    repoPath: string,
+    maxFileSize: number
+  ): TrigramIndex | undefined {
+    try {
+      const jsonLength = data.readUInt32LE(0);
+      const header = JSON.parse(data.subarray(4, 4 + jsonLength).toString('utf8')) as IndexHeader;
+      if (
+        header.version !== INDEX_FORMAT_VERSION ||
+        header.repoPath !== repoPath ||
+        header.maxFileSize !== maxFileSize
+      ) {
+        return undefined;
+      }
+
+      // Copy into a fresh, aligned buffer that the per-file arrays can share
+      const start = 4 + jsonLength + ((4 - (jsonLength % 4)) % 4);
+      const trigrams = new Uint32Array((data.length - start) / 4);
+      Buffer.from(trigrams.buffer).set(data.subarray(start));
+
+      const index = new TrigramIndex(repoPath, maxFileSize);
+      let offset = 0;
+      for (const [filePath, mtimeMs, size, count] of header.files) {
+        if (count > trigrams.length - offset) {
+          return undefined;
+        }
+        index.set(filePath, {
+          mtimeMs,
+          size,
+          trigrams: count < 0 ? null : trigrams.subarray(offset, offset + count),
+        });
+        offset += Math.max(count, 0);
+      }
+      return index;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Trigrams
+ * Extracts the three-byte sequences used by the trigram index, from file text and from queries
+ *
+ * A trigram packs three bytes of UTF-8 text into a 24-bit number. ASCII letters are
+ * lowercased first, so one index serves case-sensitive and case-insensitive searches.
+ */
+import { SearchQuery } from './textMatcher.js';
+
+// Characters with a special meaning in regular expressions
+const REGEXP_SPECIAL_CHARS = '\\^$.*+?()[]{}|/';
+
+// Escapes that stand for the character itself rather than a class or an assertion
+const LITERAL_ESCAPES = /^[^A-Za-z0-9]$/;
+
+/**
+ * Lowercase the ASCII letters of a UTF-8 byte
+ */
+function foldByte(byte: number): number {
+  return byte >= 0x41 && byte <= 0x5a ? byte + 0x20 : byte;
+}
+
+/**
+ * Get the distinct trigrams of a text
+ * @param text Decoded file content
+ * @returns Trigrams, sorted ascending
+ */
+export function extractTrigrams(text: string): Uint32Array {
+  const bytes = Buffer.from(text, 'utf8');
+  if (bytes.length < 3) {
+    return new Uint32Array(0);
+  }
+
+  const all = new Uint32Array(bytes.length - 2);
+  let trigram = (foldByte(bytes[0]) << 8) | foldByte(bytes[1]);
+  for (let i = 2; i < bytes.length; i++) {
+    trigram = ((trigram << 8) | foldByte(bytes[i])) & 0xffffff;
+    all[i - 2] = trigram;
+  }
+  all.sort();
+
+  let count = 0;
+  for (let i = 0; i < all.length; i++) {
+    if (i === 0 || all[i] !== all[i - 1]) {
+      all[count++] = all[i];
+    }
+  }
+  // Copy so the array for the whole text can be released
+  return all.slice(0, count);
+}
+
+/**
+ * Find the end of a character class starting at an index
+ * @returns Index just past the closing bracket, or the pattern length if it is unclosed
+ */
+function skipClass(pattern: string, start: number): number {
+  for (let i = start + 1; i < pattern.length; i++) {
+    if (pattern[i] === '\\') {
+      i++;
+    } else if (pattern[i] === ']') {
+      return i + 1;
+    }
+  }
+  return pattern.length;
+}
+
+/**
+ * Find the end of a group starting at an index
+ * @returns Index just past the closing parenthesis, or the pattern length if it is unclosed
+ */
+function skipGroup(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === '\\') {
+      i++;
+    } else if (pattern[i] === '[') {
+      i = skipClass(pattern, i) - 1;
+    } else if (pattern[i] === '(') {
+      depth++;
+    } else if (pattern[i] === ')' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return pattern.length;
+}
+
+/**
+ * Find the end of an escape sequence starting at an index, e.g. \d, \x41, \u{1F600} or \k<name>
+ * @returns Index just past the escape
+ */
+function skipEscape(pattern: string, start: number): number {
+  const rest = pattern.slice(start);
+  const match = rest.match(
+    /^\\(x[0-9A-Fa-f]{2}|u\{[0-9A-Fa-f]+\}|u[0-9A-Fa-f]{4}|c[A-Za-z]|[pP]\{[^}]*\}|k<[^>]*>|\d+)/
+  );
+  return start + (match ? match[0].length : Math.min(2, rest.length));
+}
+
+/**
+ * Find the literal strings every match of a regular expression must contain
+ * Conservative: groups, classes and optional characters end a literal, and a top-level
+ * alternation means nothing is required.
+ *
+ * @param pattern Regular expression source
+ * @returns Required literals
+ */
+function requiredLiterals(pattern: string): string[] {
+  const literals: string[] = [];
+  let current = '';
+  const finish = (): void => {
+    if (current) {
+      literals.push(current);
+    }
+    current = '';
+  };
+
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '|') {
+      return [];
+    }
+    if (char === '(' || char === '[') {
+      finish();
+      i = char === '(' ? skipGroup(pattern, i) : skipClass(pattern, i);
+      continue;
+    }
+    if (char === '?' || char === '*' || char === '{') {
+      // The previous character may be absent
+      current = current.slice(0, -1);
+      finish();
+      i++;
+      if (char === '{') {
+        while (i < pattern.length && pattern[i - 1] !== '}') i++;
+      }
+      continue;
+    }
+    if (char === '+') {
+      finish();
+      i++;
+      continue;
+    }
+    if (char === '\\') {
+      const escaped = pattern[i + 1] ?? '';
+      if (LITERAL_ESCAPES.test(escaped)) {
+        current += escaped;
+        i += 2;
+      } else {
+        finish();
+        i = skipEscape(pattern, i);
+      }
+      continue;
+    }
+    if (REGEXP_SPECIAL_CHARS.includes(char)) {
+      finish();
+    } else {
+      current += char;
+    }
+    i++;
+  }
+  finish();
+  return literals;
+}
+
+/**
+ * Get the trigrams a file must contain to match a query
+ * Trigrams with non-ASCII bytes are left out, since case folding differs outside ASCII.
+ *
+ * @param query Search query
+ * @returns Required trigrams, sorted ascending; empty if the index cannot narrow the search
+ */
+export function queryTrigrams(query: SearchQuery): number[] {
+  const literals = query.literal ? [query.pattern] : requiredLiterals(query.pattern);
+  const trigrams = new Set<number>();
+
+  for (const literal of literals) {
+    for (const trigram of extractTrigrams(literal)) {
+      if ((trigram & 0x808080) === 0) {
+        trigrams.add(trigram);
+      }
+    }
+  }
+  return Array.from(trigrams).sort((a, b) => a - b);
+}
+
+/**
+ * Check whether a file's trigrams include all the required ones
+ * @param fileTrigrams File trigrams, sorted ascending
+ * @param required Required trigrams, sorted ascending
+ */
+export function containsAllTrigrams(fileTrigrams: Uint32Array, required: number[]): boolean {
+  let low = 0;
+  for (const trigram of required) {
+    let high = fileTrigrams.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (fileTrigrams[middle] < trigram) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    if (low >= fileTrigrams.length || fileTrigrams[low] !== trigram) {
+      return false;
+    }
+  }
+  return true;
+}
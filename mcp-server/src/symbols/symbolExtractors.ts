@@ -0,0 +1,660 @@
+/**
+ * Symbol Extractors
+ * Line-based grammars for Python, Go, Rust and Swift, and the registry of all extractors
+ *
+ * These are deliberately lightweight: they recognise declarations by their leading keywords
+ * and find where they end by indentation (Python) or by matching braces once strings and
+ * comments are blanked out. Unusual formatting can hide a declaration, but never breaks a file.
+ */
+import path from 'path';
+
+import { CodeSymbol, SymbolExtractor, SymbolKind } from './symbolTypes.js';
+import { typescriptExtractor } from './typescriptSymbols.js';
+
+/**
+ * Python extractor
+ * Reports top-level functions and classes, methods and nested classes of reported classes,
+ * and UPPER_CASE module constants. Decorators are included in a declaration's range.
+ */
+export const pythonExtractor: SymbolExtractor = {
+  name: 'python',
+  extensions: ['.py', '.pyi'],
+
+  async extract(text) {
+    const lines = text.split(/\r?\n/);
+    const symbols: CodeSymbol[] = [];
+    // Open blocks, innermost last; symbol is unset for blocks that are not reported
+    const blocks: { indent: number; kind: 'class' | 'def' | 'constant'; symbol?: CodeSymbol }[] =
+      [];
+    let lastCodeLine = 0;
+    let decoratorLine: number | undefined;
+    let openString: string | undefined;
+
+    const closeBlocks = (indent: number) => {
+      while (blocks.length > 0 && blocks[blocks.length - 1].indent >= indent) {
+        const block = blocks.pop()!;
+        if (block.symbol) {
+          block.symbol.endLine = Math.max(block.symbol.startLine, lastCodeLine);
+        }
+      }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const lineNumber = i + 1;
+      if (openString) {
+        // Inside a triple-quoted string, whose lines say nothing about indentation
+        if (findOpenString(line, openString) === undefined) {
+          openString = undefined;
+        }
+        lastCodeLine = lineNumber;
+        continue;
+      }
+
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) {
+        continue;
+      }
+      const indent = line.length - line.trimStart().length;
+      // A line starting with a closing bracket continues the statement above it
+      if (!/^[)\]}]/.test(trimmed)) {
+        closeBlocks(indent);
+      }
+
+      const declaration = /^(?:async\s+)?(def|class)\s+(\w+)/.exec(trimmed);
+      const constant = indent === 0 && /^(_*[A-Z][A-Z0-9_]*)\s*(?::[^=]*)?=(?!=)/.exec(trimmed);
+      if (trimmed.startsWith('@')) {
+        decoratorLine = decoratorLine ?? lineNumber;
+      } else if (declaration) {
+        const parent = blocks[blocks.length - 1];
+        const isDef = declaration[1] === 'def';
+        let symbol: CodeSymbol | undefined;
+        if (!parent || (parent.kind === 'class' && parent.symbol)) {
+          symbol = {
+            name: declaration[2],
+            kind: isDef ? (parent ? 'method' : 'function') : 'class',
+            container: parent?.symbol?.name,
+            startLine: decoratorLine ?? lineNumber,
+            endLine: lineNumber,
+          };
+          symbols.push(symbol);
+        }
+        blocks.push({ indent, kind: isDef ? 'def' : 'class', symbol });
+        decoratorLine = undefined;
+      } else if (constant) {
+        const symbol: CodeSymbol = {
+          name: constant[1],
+          kind: 'constant',
+          startLine: lineNumber,
+          endLine: lineNumber,
+        };
+        symbols.push(symbol);
+        blocks.push({ indent, kind: 'constant', symbol });
+        decoratorLine = undefined;
+      } else {
+        decoratorLine = undefined;
+      }
+
+      lastCodeLine = lineNumber;
+      openString = findOpenString(line);
+    }
+
+    closeBlocks(-1);
+    return symbols;
+  },
+};
+
+/**
+ * Find a triple-quoted string left open at the end of a line
+ * @param line Line of Python source
+ * @param openQuote Quote of a string already open at the start of the line
+ * @returns The quote of the string still open, or undefined
+ */
+function findOpenString(line: string, openQuote?: string): string | undefined {
+  let quote = openQuote;
+  let position = 0;
+  for (;;) {
+    if (quote) {
+      const end = line.indexOf(quote, position);
+      if (end === -1) {
+        return quote;
+      }
+      position = end + 3;
+      quote = undefined;
+    } else {
+      const start = line.slice(position).search(/"""|'''/);
+      if (start === -1) {
+        return undefined;
+      }
+      quote = line.substr(position + start, 3);
+      position += start + 3;
+    }
+  }
+}
+
+/**
+ * How strings and comments are written in a brace language
+ */
+interface LiteralSyntax {
+  charLiterals?: boolean; // 'x' is a character (Go, Rust); a Rust lifetime 'a is not
+  backtickStrings?: boolean; // Go raw strings
+  rawStrings?: boolean; // Rust r"..." and r#"..."#
+  tripleQuotes?: boolean; // Swift multi-line strings
+  nestedComments?: boolean; // /* /* */ */ (Rust, Swift)
+}
+
+/**
+ * A declaration form in a brace language
+ */
+interface DeclarationRule {
+  // Tested against one line with literals blanked; captures "name", and "receiver" for Go methods
+  pattern: RegExp;
+  kind?: SymbolKind; // Omitted for blocks that are not reported, such as impl and extension
+  // Report declarations in the body as members of this one, as plain declarations within it
+  // (a namespace), or skip them
+  body: 'members' | 'namespace' | 'opaque';
+  topLevelOnly?: boolean;
+  group?: string; // Go: only tried inside a "const (" or "type (" block of this keyword
+  containerName?: (match: RegExpExecArray) => string | undefined; // Defaults to the "name" capture
+}
+
+/**
+ * Grammar of a brace language
+ */
+interface BraceLanguage {
+  name: string;
+  extensions: string[];
+  literals: LiteralSyntax;
+  endsAtNewline: boolean; // A declaration without a body ends with its line, not at ";"
+  rules: DeclarationRule[];
+}
+
+const CHAR_LITERAL =
+  /'(?:\\(?:x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|[0-7]{3}|[^\n])|[^'\\\n])'/uy;
+const RAW_STRING_START = /r(#*)"/y;
+
+/**
+ * Replace the contents of strings, characters and comments with spaces, keeping line breaks,
+ * so braces and keywords inside them are not mistaken for code
+ */
+function blankLiterals(text: string, syntax: LiteralSyntax): string {
+  const chunks: string[] = [];
+  let copied = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+    let end = -1;
+
+    if (char === '/' && next === '/') {
+      end = text.indexOf('\n', i);
+      end = end === -1 ? text.length : end;
+    } else if (char === '/' && next === '*') {
+      end = skipBlockComment(text, i, !!syntax.nestedComments);
+    } else if (char === '"') {
+      end =
+        syntax.tripleQuotes && text.startsWith('"""', i)
+          ? skipString(text, i + 3, '"""')
+          : skipString(text, i + 1, '"');
+    } else if (char === '`' && syntax.backtickStrings) {
+      end = text.indexOf('`', i + 1);
+      end = end === -1 ? text.length : end + 1;
+    } else if (char === "'" && syntax.charLiterals) {
+      CHAR_LITERAL.lastIndex = i;
+      if (CHAR_LITERAL.exec(text)) {
+        end = CHAR_LITERAL.lastIndex;
+      }
+    } else if (char === 'r' && syntax.rawStrings && !/\w/.test(text[i - 1] ?? '')) {
+      RAW_STRING_START.lastIndex = i;
+      const match = RAW_STRING_START.exec(text);
+      if (match) {
+        const close = text.indexOf(`"${match[1]}`, RAW_STRING_START.lastIndex);
+        end = close === -1 ? text.length : close + 1 + match[1].length;
+      }
+    }
+
+    if (end === -1) {
+      i++;
+      continue;
+    }
+    chunks.push(text.slice(copied, i), text.slice(i, end).replace(/[^\n]/g, ' '));
+    copied = i = end;
+  }
+
+  chunks.push(text.slice(copied));
+  return chunks.join('');
+}
+
+/**
+ * Find the end of a string whose opening quote ends just before a position
+ * @returns Offset just after the closing quote, or the end of the text
+ */
+function skipString(text: string, start: number, quote: string): number {
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(quote, i)) {
+      return i + quote.length;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Find the end of a block comment starting at a position
+ * @returns Offset just after the comment, or the end of the text
+ */
+function skipBlockComment(text: string, start: number, nested: boolean): number {
+  let depth = 0;
+  for (let i = start; i < text.length - 1; i++) {
+    if (text[i] === '/' && text[i + 1] === '*' && (nested || depth === 0)) {
+      depth++;
+      i++;
+    } else if (text[i] === '*' && text[i + 1] === '/') {
+      depth--;
+      i++;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Pair each opening brace with its closing brace
+ * @returns Offset of the closing brace for the offset of each opening brace that has one
+ */
+function matchBraces(text: string): Map<number, number> {
+  const pairs = new Map<number, number>();
+  const open: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{') {
+      open.push(i);
+    } else if (text[i] === '}' && open.length > 0) {
+      pairs.set(open.pop()!, i);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Find where a declaration ends, starting after its keyword and name
+ * @returns Offset of its last character, and of its opening brace if it has a body
+ */
+function findDeclarationEnd(
+  text: string,
+  start: number,
+  braces: Map<number, number>,
+  endsAtNewline: boolean
+): { end: number; bodyStart?: number } {
+  let depth = 0;
+  let previous = '';
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '(' || char === '[') {
+      depth++;
+    } else if ((char === ')' || char === ']') && depth > 0) {
+      depth--;
+    } else if (depth === 0) {
+      if (char === '{') {
+        return { end: braces.get(i) ?? text.length - 1, bodyStart: i };
+      }
+      if (char === ';') {
+        return { end: i };
+      }
+      // A line ending in "," or ":" continues, as in a list of conformances
+      if ((char === '\n' && endsAtNewline && !/[,:&=]/.test(previous)) || char === '}') {
+        return { end: i - 1 };
+      }
+    }
+    if (!/\s/.test(char)) {
+      previous = char;
+    }
+  }
+  return { end: text.length - 1 };
+}
+
+/**
+ * Create an extractor from a brace language grammar
+ * Declarations inside function bodies are skipped; functions inside types become methods.
+ */
+function createBraceExtractor(language: BraceLanguage): SymbolExtractor {
+  return {
+    name: language.name,
+    extensions: language.extensions,
+
+    async extract(text) {
+      const code = blankLiterals(text, language.literals);
+      const braces = matchBraces(code);
+      const lines = code.split('\n');
+      const lineStarts: number[] = [];
+      let offset = 0;
+      for (const line of lines) {
+        lineStarts.push(offset);
+        offset += line.length + 1;
+      }
+      const lineOf = (position: number): number => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+          const middle = Math.ceil((low + high) / 2);
+          if (lineStarts[middle] <= position) {
+            low = middle;
+          } else {
+            high = middle - 1;
+          }
+        }
+        return low + 1;
+      };
+
+      const symbols: CodeSymbol[] = [];
+      // Bodies the current line is inside, innermost last
+      const scopes: { end: number; body: DeclarationRule['body']; name?: string }[] = [];
+      let group: string | undefined;
+
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const lineStart = lineStarts[i];
+        while (scopes.length > 0 && scopes[scopes.length - 1].end < lineStart) {
+          scopes.pop();
+        }
+        const scope = scopes[scopes.length - 1];
+        if (scope?.body === 'opaque') {
+          continue;
+        }
+
+        if (group !== undefined) {
+          if (/^\s*\)/.test(line)) {
+            group = undefined;
+            continue;
+          }
+        } else if (!scope) {
+          const groupStart = /^(const|type|var)\s*\(\s*$/.exec(line);
+          if (groupStart) {
+            group = groupStart[1];
+            continue;
+          }
+        }
+
+        for (const rule of language.rules) {
+          if (rule.group !== group || (rule.topLevelOnly && scope)) {
+            continue;
+          }
+          const match = rule.pattern.exec(line);
+          if (!match) {
+            continue;
+          }
+
+          const { end, bodyStart } = findDeclarationEnd(
+            code,
+            lineStart + match.index + match[0].length,
+            braces,
+            language.endsAtNewline
+          );
+          const name = match.groups?.name;
+          const receiver = match.groups?.receiver;
+          const container = receiver ?? scope?.name;
+          if (rule.kind && name) {
+            symbols.push({
+              name,
+              kind:
+                rule.kind === 'function' && (receiver || scope?.body === 'members')
+                  ? 'method'
+                  : rule.kind,
+              container,
+              startLine: i + 1,
+              endLine: lineOf(end),
+            });
+          }
+          if (bodyStart !== undefined) {
+            scopes.push({
+              end,
+              body: rule.body,
+              name: rule.containerName ? rule.containerName(match) : name,
+            });
+          }
+          break;
+        }
+      }
+
+      return symbols;
+    },
+  };
+}
+
+/**
+ * Find the type a Rust impl block is for, e.g. Wrapper in "impl<T> fmt::Display for Wrapper<T>"
+ */
+function rustImplTarget(match: RegExpExecArray): string | undefined {
+  let rest = (match.groups?.rest ?? '').trim();
+  if (rest.startsWith('<')) {
+    // Skip the impl's own generic parameters, ignoring the ">" of "->"
+    let depth = 0;
+    for (let i = 0; i < rest.length; i++) {
+      if (rest[i] === '<') {
+        depth++;
+      } else if (rest[i] === '>' && rest[i - 1] !== '-' && --depth === 0) {
+        rest = rest.slice(i + 1).trim();
+        break;
+      }
+    }
+  }
+  const forIndex = rest.search(/\sfor\s/);
+  if (forIndex !== -1) {
+    rest = rest.slice(forIndex + 5).trim();
+  }
+  const type = /^(?:&\s*)?(?:mut\s+)?(?:dyn\s+)?([\w:]+)/.exec(rest);
+  return type?.[1].split('::').pop();
+}
+
+const RUST_VISIBILITY = String.raw`(?:pub(?:\s*\([^)]*\))?\s+)?`;
+const SWIFT_MODIFIER_WORDS = [
+  'public',
+  'private',
+  'fileprivate',
+  'internal',
+  'package',
+  'open',
+  'final',
+  'static',
+  'class',
+  'override',
+  'mutating',
+  'nonmutating',
+  'convenience',
+  'required',
+  'indirect',
+  'lazy',
+  'dynamic',
+  'nonisolated',
+  'distributed',
+];
+// Attributes and modifiers, e.g. "@MainActor public private(set) static"
+const SWIFT_MODIFIERS = String.raw`(?:@\w+(?:\([^)]*\))?\s+)*(?:(?:${SWIFT_MODIFIER_WORDS.join('|')})(?:\([^)]*\))?\s+)*`;
+
+/**
+ * Go grammar
+ * Methods take their container from the receiver type.
+ */
+const goLanguage: BraceLanguage = {
+  name: 'go',
+  extensions: ['.go'],
+  literals: { charLiterals: true, backtickStrings: true },
+  endsAtNewline: true,
+  rules: [
+    {
+      pattern: /^func\s+(?:\(\s*(?:\w+\s+)?\*?\s*(?<receiver>\w+)[^)]*\)\s*)?(?<name>\w+)/,
+      kind: 'function',
+      body: 'opaque',
+    },
+    { pattern: /^type\s+(?<name>\w+)(?:\[[^\]]*\])?\s+struct\b/, kind: 'struct', body: 'opaque' },
+    {
+      pattern: /^type\s+(?<name>\w+)(?:\[[^\]]*\])?\s+interface\b/,
+      kind: 'interface',
+      body: 'opaque',
+    },
+    { pattern: /^type\s+(?<name>\w+)/, kind: 'type', body: 'opaque' },
+    { pattern: /^const\s+(?<name>\w+)/, kind: 'constant', body: 'opaque' },
+    {
+      pattern: /^\s+(?<name>\w+)(?:\[[^\]]*\])?\s+struct\b/,
+      kind: 'struct',
+      body: 'opaque',
+      group: 'type',
+    },
+    {
+      pattern: /^\s+(?<name>\w+)(?:\[[^\]]*\])?\s+interface\b/,
+      kind: 'interface',
+      body: 'opaque',
+      group: 'type',
+    },
+    { pattern: /^\s+(?<name>\w+)/, kind: 'type', body: 'opaque', group: 'type' },
+    { pattern: /^\s+(?<name>[A-Za-z_]\w*)/, kind: 'constant', body: 'opaque', group: 'const' },
+  ],
+};
+
+/**
+ * Rust grammar
+ * Functions in impl and trait blocks are methods of the implementing type or the trait.
+ */
+const rustLanguage: BraceLanguage = {
+  name: 'rust',
+  extensions: ['.rs'],
+  literals: { charLiterals: true, rawStrings: true, nestedComments: true },
+  endsAtNewline: false,
+  rules: [
+    {
+      pattern: new RegExp(
+        String.raw`^\s*${RUST_VISIBILITY}(?:(?:default|const|async|unsafe|extern)\s+)*fn\s+(?<name>\w+)`
+      ),
+      kind: 'function',
+      body: 'opaque',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${RUST_VISIBILITY}struct\s+(?<name>\w+)`),
+      kind: 'struct',
+      body: 'opaque',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${RUST_VISIBILITY}enum\s+(?<name>\w+)`),
+      kind: 'enum',
+      body: 'opaque',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${RUST_VISIBILITY}(?:unsafe\s+)?trait\s+(?<name>\w+)`),
+      kind: 'trait',
+      body: 'members',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${RUST_VISIBILITY}type\s+(?<name>\w+)`),
+      kind: 'type',
+      body: 'opaque',
+    },
+    {
+      pattern: new RegExp(
+        String.raw`^\s*${RUST_VISIBILITY}(?:const|static)\s+(?:mut\s+)?(?<name>\w+)\s*:`
+      ),
+      kind: 'constant',
+      body: 'opaque',
+    },
+    {
+      pattern: /^\s*(?:unsafe\s+)?impl\b(?<rest>[^{;]*)/,
+      body: 'members',
+      containerName: rustImplTarget,
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${RUST_VISIBILITY}mod\s+(?<name>\w+)`),
+      body: 'namespace',
+    },
+    { pattern: /^\s*macro_rules!\s*(?<name>\w+)/, body: 'opaque' },
+  ],
+};
+
+/**
+ * Swift grammar
+ * Functions in types and extensions are methods of the type; top-level and static lets are
+ * constants.
+ */
+const swiftLanguage: BraceLanguage = {
+  name: 'swift',
+  extensions: ['.swift'],
+  literals: { tripleQuotes: true, nestedComments: true },
+  endsAtNewline: true,
+  rules: [
+    {
+      pattern: new RegExp(String.raw`^\s*${SWIFT_MODIFIERS}func\s+(?<name>[^\s(<]+)`),
+      kind: 'function',
+      body: 'opaque',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${SWIFT_MODIFIERS}(?<name>init|deinit)\b`),
+      kind: 'function',
+      body: 'opaque',
+    },
+    {
+      pattern: new RegExp(
+        String.raw`^\s*${SWIFT_MODIFIERS}(?:class|actor)\s+(?!(?:func|var|let|subscript|init)\b)(?<name>\w+)`
+      ),
+      kind: 'class',
+      body: 'members',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${SWIFT_MODIFIERS}struct\s+(?<name>\w+)`),
+      kind: 'struct',
+      body: 'members',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${SWIFT_MODIFIERS}enum\s+(?<name>\w+)`),
+      kind: 'enum',
+      body: 'members',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${SWIFT_MODIFIERS}protocol\s+(?<name>\w+)`),
+      kind: 'protocol',
+      body: 'members',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${SWIFT_MODIFIERS}typealias\s+(?<name>\w+)`),
+      kind: 'type',
+      body: 'opaque',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${SWIFT_MODIFIERS}extension\s+(?<name>[\w.]+)`),
+      body: 'members',
+    },
+    {
+      pattern:
+        /^\s*(?:(?:public|private|fileprivate|internal|package|nonisolated)\s+)*static\s+let\s+(?<name>\w+)/,
+      kind: 'constant',
+      body: 'opaque',
+    },
+    {
+      pattern: new RegExp(String.raw`^\s*${SWIFT_MODIFIERS}let\s+(?<name>\w+)`),
+      kind: 'constant',
+      body: 'opaque',
+      topLevelOnly: true,
+    },
+  ],
+};
+
+/**
+ * Every built-in extractor
+ */
+export const builtInSymbolExtractors: SymbolExtractor[] = [
+  typescriptExtractor,
+  pythonExtractor,
+  createBraceExtractor(goLanguage),
+  createBraceExtractor(rustLanguage),
+  createBraceExtractor(swiftLanguage),
+];
+
+/**
+ * Find the extractor for a file
+ * @param filePath File path or name
+ * @returns The extractor, or undefined if the file's language has none
+ */
+export function getSymbolExtractor(filePath: string): SymbolExtractor | undefined {
+  const extension = path.extname(filePath).toLowerCase();
+  return builtInSymbolExtractors.find(extractor => extractor.extensions.includes(extension));
+}
@@ -0,0 +1,472 @@
+/**
+ * Symbol Index
+ * Extracts the declarations in each module's files and keeps them current
+ *
+ * Symbols are held in memory per module, plus one set per repository for files outside every
+ * module; files of a nested module belong to the innermost one. A module is scanned when it is
+ * first queried. After that only the paths reported by the repository watcher are read again,
+ * or every file's modification time is checked when the watcher does not cover everything.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+
+import { decodeText, detectTextEncoding, isBinaryContent } from '../utils/fileContent.js';
+import { compareWalkOrder, FileWalker } from '../utils/fileWalker.js';
+import { ModuleInfo, moduleManager } from '../utils/moduleManager.js';
+import { repoManager } from '../utils/repoManager.js';
+import { RepoChange, repoWatcher } from '../utils/repoWatcher.js';
+import { getSymbolExtractor } from './symbolExtractors.js';
+import { CodeSymbol, SymbolExtractor, SymbolKind } from './symbolTypes.js';
+
+/**
+ * A symbol found by a query
+ */
+export interface SymbolMatch extends CodeSymbol {
+  repoId: string;
+  filePath: string; // Relative to the repository root
+  score: number; // How well the name matches the query, higher is better
+}
+
+/**
+ * Symbols of the files below a path
+ */
+export interface FileSymbolList {
+  repoId: string;
+  filePath: string; // Relative to the repository root
+  symbols: CodeSymbol[];
+}
+
+/**
+ * Symbols recorded for one file
+ */
+interface FileSymbols {
+  mtimeMs: number;
+  size: number;
+  symbols: CodeSymbol[];
+}
+
+/**
+ * Everything tracked for one module
+ */
+interface ModuleSymbols {
+  repoId: string;
+  repoPath: string;
+  modulePath: string; // Relative to the repository root, '' for the repository root
+  files: Map<string, FileSymbols>; // By path relative to the repository root
+  changedPaths: Set<string>; // Reported by the watcher since the last refresh
+  nestedModules: string[]; // Module paths inside this one at the last full scan; not scanned
+  lastFullScan?: number;
+  scan?: Promise<boolean>; // Refresh in progress; resolves to false if it was stopped
+}
+
+// Larger files are usually generated or bundled, and slow to parse
+const MAX_SYMBOL_FILE_SIZE = 1024 * 1024;
+
+// Rescan every file at least this often, for changes the watcher does not report
+const FULL_RESCAN_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Score how well a name matches a fuzzy query
+ * Exact beats case-insensitive, then prefix, camelCase or snake_case initials ("os" for
+ * OrderService), substring, and finally the query's letters appearing in order.
+ *
+ * @returns The score, or 0 if the name does not match
+ */
+function scoreName(name: string, query: string): number {
+  if (name === query) {
+    return 100;
+  }
+  const lowerName = name.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  if (lowerName === lowerQuery) {
+    return 90;
+  }
+  if (lowerName.startsWith(lowerQuery)) {
+    return 80;
+  }
+  const initials = (name.match(/^[A-Za-z]|[A-Z]|(?<=_)[A-Za-z]/g) ?? []).join('').toLowerCase();
+  if (lowerQuery.length > 1 && initials.startsWith(lowerQuery)) {
+    return 70;
+  }
+  if (lowerName.includes(lowerQuery)) {
+    return 60;
+  }
+
+  let position = 0;
+  for (const char of lowerQuery) {
+    position = lowerName.indexOf(char, position) + 1;
+    if (position === 0) {
+      return 0;
+    }
+  }
+  return 40;
+}
+
+/**
+ * Score how well a symbol matches a query, which may name its container as in "Class.method"
+ * @returns The score, or 0 if the symbol does not match
+ */
+function scoreSymbol(symbol: CodeSymbol, query: string): number {
+  const dot = query.lastIndexOf('.');
+  if (dot > 0 && dot < query.length - 1) {
+    const containerScore = symbol.container ? scoreName(symbol.container, query.slice(0, dot)) : 0;
+    return containerScore > 0 ? scoreName(symbol.name, query.slice(dot + 1)) : 0;
+  }
+  return scoreName(symbol.name, query);
+}
+
+/**
+ * Order matches best first, then shorter names, then by location
+ */
+function compareMatches(a: SymbolMatch, b: SymbolMatch): number {
+  return (
+    b.score - a.score ||
+    a.name.length - b.name.length ||
+    a.repoId.localeCompare(b.repoId) ||
+    compareWalkOrder(a.filePath, b.filePath) ||
+    a.startLine - b.startLine
+  );
+}
+
+/**
+ * Check whether a path is a directory path or below it
+ */
+function isWithin(relativePath: string, relativeDir: string): boolean {
+  return (
+    relativeDir === '' || relativePath === relativeDir || relativePath.startsWith(`${relativeDir}/`)
+  );
+}
+
+/**
+ * Symbol Index class
+ * Holds the symbols of every module, scanned on first use
+ */
+export class SymbolIndex {
+  private modules: Map<string, ModuleSymbols> = new Map();
+
+  /**
+   * Note changed paths reported by the repository watcher; they are re-read before the next query
+   * @param change Batch of changes in one repository
+   */
+  public handleChange(change: RepoChange): void {
+    for (const moduleSymbols of this.modules.values()) {
+      if (moduleSymbols.repoId !== change.repoId) {
+        continue;
+      }
+      for (const changedPath of change.paths) {
+        const owner = moduleManager.getModuleForPath(change.repoId, changedPath)?.path ?? '';
+        // A changed directory can hold files of the modules inside it as well as its own
+        if (owner === moduleSymbols.modulePath || isWithin(moduleSymbols.modulePath, changedPath)) {
+          moduleSymbols.changedPaths.add(changedPath);
+        }
+      }
+    }
+  }
+
+  /**
+   * Find symbols whose names fuzzily match a query
+   * @param query Name, part of a name, initials, or "Container.name"
+   * @param options Restrict the query to a repository or module, or to one kind of symbol
+   * @param signal Signal that stops scanning; symbols already known are still searched
+   * @returns Matches, best first, and whether every module was current
+   */
+  public async findSymbols(
+    query: string,
+    options: { repoId?: string; module?: ModuleInfo; kind?: SymbolKind },
+    signal: AbortSignal
+  ): Promise<{ matches: SymbolMatch[]; complete: boolean }> {
+    const { module, kind } = options;
+    const repoIds = module?.repoId
+      ? [module.repoId]
+      : options.repoId
+        ? [options.repoId]
+        : repoManager.getAllRepositories().map(repo => repo.id);
+    const matches: SymbolMatch[] = [];
+    let complete = true;
+
+    for (const repoId of repoIds) {
+      // A module's query covers the modules nested inside it too
+      const modulePaths = this.getModulePaths(repoId).filter(
+        modulePath => !module || isWithin(modulePath, module.path)
+      );
+      for (const modulePath of modulePaths) {
+        const moduleSymbols = this.getModuleSymbols(repoId, modulePath);
+        if (!moduleSymbols) {
+          continue;
+        }
+        complete = (await this.refresh(moduleSymbols, signal)) && complete;
+
+        for (const [filePath, file] of moduleSymbols.files) {
+          for (const symbol of file.symbols) {
+            const score = kind && symbol.kind !== kind ? 0 : scoreSymbol(symbol, query);
+            if (score > 0) {
+              matches.push({ ...symbol, repoId, filePath, score });
+            }
+          }
+        }
+      }
+    }
+
+    return { matches: matches.sort(compareMatches), complete };
+  }
+
+  /**
+   * List the symbols of a file, or of every file below a directory
+   * @param repoId Repository ID
+   * @param relativePath File or directory relative to the repository root, '' for the root
+   * @param signal Signal that stops scanning; files already known are still listed
+   * @returns Files with their symbols in walk order, and whether every file was current
+   */
+  public async listSymbols(
+    repoId: string,
+    relativePath: string,
+    signal: AbortSignal
+  ): Promise<{ files: FileSymbolList[]; complete: boolean }> {
+    const repo = repoManager.getRepository(repoId);
+    if (!repo) {
+      return { files: [], complete: true };
+    }
+    const absolutePath = path.join(repo.path, relativePath);
+    const stats = await fs.stat(absolutePath);
+
+    if (!stats.isDirectory()) {
+      // Read a single file directly rather than scanning its module
+      const extractor = getSymbolExtractor(relativePath);
+      const owner = moduleManager.getModuleForPath(repoId, relativePath)?.path ?? '';
+      const known = this.modules.get(`${repoId}:${owner}`)?.files.get(relativePath);
+      const symbols =
+        known && known.mtimeMs === stats.mtimeMs && known.size === stats.size
+          ? known.symbols
+          : extractor
+            ? await this.readSymbols(extractor, absolutePath, stats.size)
+            : [];
+      return { files: [{ repoId, filePath: relativePath, symbols }], complete: true };
+    }
+
+    // The directory's own module and any inside it
+    const owner = moduleManager.getModuleForPath(repoId, relativePath)?.path ?? '';
+    const files: FileSymbolList[] = [];
+    let complete = true;
+    for (const modulePath of this.getModulePaths(repoId)) {
+      if (modulePath !== owner && !isWithin(modulePath, relativePath)) {
+        continue;
+      }
+      const moduleSymbols = this.getModuleSymbols(repoId, modulePath)!;
+      complete = (await this.refresh(moduleSymbols, signal)) && complete;
+      for (const [filePath, file] of moduleSymbols.files) {
+        if (isWithin(filePath, relativePath) && file.symbols.length > 0) {
+          files.push({ repoId, filePath, symbols: file.symbols });
+        }
+      }
+    }
+
+    files.sort((a, b) => compareWalkOrder(a.filePath, b.filePath));
+    return { files, complete };
+  }
+
+  /**
+   * Get the paths of the modules that together cover a repository
+   * @returns Module paths, including '' for files outside every module
+   */
+  private getModulePaths(repoId: string): string[] {
+    const modulePaths = moduleManager.getModulesForRepo(repoId).map(module => module.path);
+    return modulePaths.includes('') ? modulePaths : ['', ...modulePaths];
+  }
+
+  /**
+   * Get the tracking entry of a module, creating it on first use
+   * @returns The entry, or undefined for an unknown repository
+   */
+  private getModuleSymbols(repoId: string, modulePath: string): ModuleSymbols | undefined {
+    const key = `${repoId}:${modulePath}`;
+    let moduleSymbols = this.modules.get(key);
+    if (!moduleSymbols) {
+      const repo = repoManager.getRepository(repoId);
+      if (!repo) {
+        return undefined;
+      }
+      moduleSymbols = {
+        repoId,
+        repoPath: path.resolve(repo.path),
+        modulePath,
+        files: new Map(),
+        changedPaths: new Set(),
+        nestedModules: [],
+      };
+      this.modules.set(key, moduleSymbols);
+    }
+    return moduleSymbols;
+  }
+
+  /**
+   * Bring a module's symbols up to date, unless a refresh is already running
+   * @returns Whether the refresh that ran (or was already running) finished
+   */
+  private refresh(moduleSymbols: ModuleSymbols, signal: AbortSignal): Promise<boolean> {
+    if (!moduleSymbols.scan) {
+      moduleSymbols.scan = this.scan(moduleSymbols, signal)
+        .catch(error => {
+          const where = `${moduleSymbols.repoId}/${moduleSymbols.modulePath}`;
+          process.stderr.write(`Error indexing symbols in ${where}: ${(error as Error).message}\n`);
+          return false;
+        })
+        .finally(() => {
+          moduleSymbols.scan = undefined;
+        });
+    }
+    return moduleSymbols.scan;
+  }
+
+  /**
+   * Re-read the changed files of a module, or check every file when changes may have been missed
+   * @returns False if stopped by the signal
+   */
+  private async scan(moduleSymbols: ModuleSymbols, signal: AbortSignal): Promise<boolean> {
+    const now = Date.now();
+    const { repoId, repoPath, modulePath } = moduleSymbols;
+    const nestedModules = this.getModulePaths(repoId).filter(
+      other => other !== modulePath && isWithin(other, modulePath)
+    );
+    const fullScan =
+      moduleSymbols.lastFullScan === undefined ||
+      !repoWatcher.isWatchingEverything() ||
+      now - moduleSymbols.lastFullScan > FULL_RESCAN_INTERVAL_MS ||
+      nestedModules.join('\n') !== moduleSymbols.nestedModules.join('\n');
+    const changedPaths = fullScan ? [] : Array.from(moduleSymbols.changedPaths);
+    moduleSymbols.changedPaths.clear();
+    moduleSymbols.nestedModules = nestedModules;
+
+    if (fullScan) {
+      const finished = await this.scanDirectory(
+        moduleSymbols,
+        path.join(repoPath, modulePath),
+        signal
+      );
+      moduleSymbols.lastFullScan = finished ? now : undefined;
+      return finished;
+    }
+
+    const walker = new FileWalker(repoPath);
+    for (const relativePath of changedPaths) {
+      if (signal.aborted) {
+        // Make sure the next query looks at everything again
+        moduleSymbols.lastFullScan = undefined;
+        return false;
+      }
+      if (nestedModules.some(nested => isWithin(relativePath, nested))) {
+        continue;
+      }
+      const absolutePath = path.join(repoPath, relativePath);
+      const stats = await fs.lstat(absolutePath).catch(() => undefined);
+
+      if (
+        !stats ||
+        !(stats.isFile() || stats.isDirectory()) ||
+        (await walker.isIgnoredBelow(repoPath, absolutePath, stats.isDirectory()))
+      ) {
+        for (const filePath of moduleSymbols.files.keys()) {
+          if (isWithin(filePath, relativePath)) {
+            moduleSymbols.files.delete(filePath);
+          }
+        }
+      } else if (stats.isDirectory()) {
+        if (!(await this.scanDirectory(moduleSymbols, absolutePath, signal))) {
+          moduleSymbols.lastFullScan = undefined;
+          return false;
+        }
+      } else {
+        await this.indexFile(moduleSymbols, relativePath, absolutePath);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Index every source file below a directory, skipping nested modules and re-reading only
+   * files that changed, and drop entries for files that are gone
+   * @returns False if stopped by the signal
+   */
+  private async scanDirectory(
+    moduleSymbols: ModuleSymbols,
+    absoluteDir: string,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    const { repoPath, nestedModules, files } = moduleSymbols;
+    const seen = new Set<string>();
+    const entries = new FileWalker(repoPath).walk(absoluteDir, {
+      filterDirectory: entry => !nestedModules.includes(entry.relativePath),
+    });
+
+    for await (const entry of entries) {
+      if (signal.aborted) {
+        return false;
+      }
+      if (getSymbolExtractor(entry.name)) {
+        seen.add(entry.relativePath);
+        await this.indexFile(moduleSymbols, entry.relativePath, entry.absolutePath);
+      }
+    }
+
+    const relativeDir = path.relative(repoPath, absoluteDir).split(path.sep).join('/');
+    for (const filePath of files.keys()) {
+      if (isWithin(filePath, relativeDir) && !seen.has(filePath)) {
+        files.delete(filePath);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Record a file's symbols, unless its modification time and size are unchanged
+   */
+  private async indexFile(
+    moduleSymbols: ModuleSymbols,
+    relativePath: string,
+    absolutePath: string
+  ): Promise<void> {
+    const { files } = moduleSymbols;
+    const extractor = getSymbolExtractor(relativePath);
+    if (!extractor) {
+      files.delete(relativePath);
+      return;
+    }
+
+    try {
+      const stats = await fs.stat(absolutePath);
+      const known = files.get(relativePath);
+      if (known && known.mtimeMs === stats.mtimeMs && known.size === stats.size) {
+        return;
+      }
+      files.set(relativePath, {
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        symbols: await this.readSymbols(extractor, absolutePath, stats.size),
+      });
+    } catch {
+      // Gone or unreadable
+      files.delete(relativePath);
+    }
+  }
+
+  /**
+   * Read a file and extract its symbols
+   * @returns Symbols, or none for binary files and files too large to parse
+   */
+  private async readSymbols(
+    extractor: SymbolExtractor,
+    absolutePath: string,
+    size: number
+  ): Promise<CodeSymbol[]> {
+    if (size > MAX_SYMBOL_FILE_SIZE) {
+      return [];
+    }
+    const raw = await fs.readFile(absolutePath);
+    if (isBinaryContent(raw)) {
+      return [];
+    }
+    return extractor.extract(decodeText(raw, detectTextEncoding(raw)), absolutePath);
+  }
+}
+
+// Create singleton instance
+export const symbolIndex = new SymbolIndex();
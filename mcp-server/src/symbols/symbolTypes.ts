@@ -0,0 +1,59 @@
+/**
+ * Symbol Types
+ * Shared types for the symbol index and the per-language symbol extractors
+ */
+
+/**
+ * Kind of a declaration
+ */
+export type SymbolKind =
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'struct'
+  | 'trait'
+  | 'protocol'
+  | 'function'
+  | 'method'
+  | 'constant';
+
+// Every symbol kind, for tool parameters
+export const SYMBOL_KINDS: [SymbolKind, ...SymbolKind[]] = [
+  'class',
+  'interface',
+  'type',
+  'enum',
+  'struct',
+  'trait',
+  'protocol',
+  'function',
+  'method',
+  'constant',
+];
+
+/**
+ * A declaration found in a source file
+ */
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  container?: string; // Enclosing class, struct, impl or namespace, e.g. "OrderService"
+  startLine: number; // 1-based
+  endLine: number; // 1-based, inclusive
+}
+
+/**
+ * A pluggable symbol extractor for one language
+ */
+export interface SymbolExtractor {
+  name: string;
+  extensions: string[]; // File extensions this extractor reads
+  /**
+   * Find the declarations in a file's text
+   * @param text File content
+   * @param filePath Path of the file, used to pick a dialect (e.g. TSX)
+   * @returns Symbols in source order
+   */
+  extract(text: string, filePath: string): Promise<CodeSymbol[]>;
+}
@@ -0,0 +1,156 @@
+/**
+ * TypeScript Symbols
+ * Extracts declarations from TypeScript and JavaScript files with the TypeScript compiler API
+ */
+import path from 'path';
+import type * as TypeScript from 'typescript';
+
+import { CodeSymbol, SymbolExtractor, SymbolKind } from './symbolTypes.js';
+
+let typescriptModule: Promise<typeof TypeScript> | undefined;
+
+/**
+ * Load the TypeScript compiler on first use; it is large and only needed for symbols
+ */
+function loadTypeScript(): Promise<typeof TypeScript> {
+  if (!typescriptModule) {
+    typescriptModule = import('typescript').then(module => module.default ?? module);
+  }
+  return typescriptModule;
+}
+
+/**
+ * Pick how the compiler parses a file from its extension
+ */
+function getScriptKind(ts: typeof TypeScript, filePath: string): TypeScript.ScriptKind {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * TypeScript and JavaScript extractor
+ * Reports top-level declarations, class members and the contents of namespaces; functions
+ * declared inside other functions are left out.
+ */
+export const typescriptExtractor: SymbolExtractor = {
+  name: 'typescript',
+  extensions: ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'],
+
+  async extract(text, filePath) {
+    const ts = await loadTypeScript();
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      text,
+      ts.ScriptTarget.Latest,
+      false,
+      getScriptKind(ts, filePath)
+    );
+    const symbols: CodeSymbol[] = [];
+
+    const lineOf = (position: number): number =>
+      sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+    const nameOf = (name: TypeScript.Node | undefined): string | undefined => {
+      if (!name) return undefined;
+      if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name)) {
+        return name.text;
+      }
+      return name.getText(sourceFile);
+    };
+    const add = (node: TypeScript.Node, name: string, kind: SymbolKind, container?: string) => {
+      symbols.push({
+        name,
+        kind,
+        container,
+        startLine: lineOf(node.getStart(sourceFile)),
+        endLine: lineOf(node.getEnd()),
+      });
+    };
+    const isFunctionValue = (node: TypeScript.Node | undefined): boolean =>
+      !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+
+    const visitClass = (
+      node: TypeScript.ClassDeclaration | TypeScript.ClassExpression,
+      name: string,
+      container?: string
+    ) => {
+      add(node, name, 'class', container);
+      for (const member of node.members) {
+        if (ts.isConstructorDeclaration(member)) {
+          add(member, 'constructor', 'method', name);
+        } else if (
+          ts.isMethodDeclaration(member) ||
+          ts.isGetAccessorDeclaration(member) ||
+          ts.isSetAccessorDeclaration(member) ||
+          (ts.isPropertyDeclaration(member) && isFunctionValue(member.initializer))
+        ) {
+          const memberName = nameOf(member.name);
+          if (memberName) {
+            add(member, memberName, 'method', name);
+          }
+        }
+      }
+    };
+
+    const visitStatements = (
+      statements: TypeScript.NodeArray<TypeScript.Statement>,
+      container?: string
+    ) => {
+      for (const statement of statements) {
+        if (ts.isFunctionDeclaration(statement)) {
+          add(statement, nameOf(statement.name) ?? 'default', 'function', container);
+        } else if (ts.isClassDeclaration(statement)) {
+          visitClass(statement, nameOf(statement.name) ?? 'default', container);
+        } else if (ts.isInterfaceDeclaration(statement)) {
+          add(statement, statement.name.text, 'interface', container);
+        } else if (ts.isTypeAliasDeclaration(statement)) {
+          add(statement, statement.name.text, 'type', container);
+        } else if (ts.isEnumDeclaration(statement)) {
+          add(statement, statement.name.text, 'enum', container);
+        } else if (ts.isModuleDeclaration(statement)) {
+          // Namespaces, possibly dotted (namespace A.B {}), contain their own declarations
+          let body = statement.body;
+          let name = nameOf(statement.name) ?? '';
+          while (body && ts.isModuleDeclaration(body)) {
+            name = `${name}.${nameOf(body.name)}`;
+            body = body.body;
+          }
+          if (body && ts.isModuleBlock(body)) {
+            visitStatements(body.statements, container ? `${container}.${name}` : name);
+          }
+        } else if (ts.isVariableStatement(statement)) {
+          const isConst = (statement.declarationList.flags & ts.NodeFlags.Const) !== 0;
+          for (const declaration of statement.declarationList.declarations) {
+            const name = nameOf(declaration.name);
+            if (!name || !ts.isIdentifier(declaration.name)) {
+              continue;
+            }
+            const { initializer } = declaration;
+            // Report the whole statement so the range includes "export const"
+            const node =
+              statement.declarationList.declarations.length === 1 ? statement : declaration;
+            if (isFunctionValue(initializer)) {
+              add(node, name, 'function', container);
+            } else if (initializer && ts.isClassExpression(initializer)) {
+              visitClass(initializer, name, container);
+            } else if (isConst) {
+              add(node, name, 'constant', container);
+            }
+          }
+        }
+      }
+    };
+
+    visitStatements(sourceFile.statements);
+    return symbols;
+  },
+};
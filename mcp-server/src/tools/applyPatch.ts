@@ -0,0 +1,419 @@
+/**
+ * Apply Patch Tool
+ * Applies a multi-file unified diff to a repository, writing nothing unless every hunk applies
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import { z } from 'zod';
+
+import { changeJournal, JournalChange } from '../utils/changeJournal.js';
+import {
+  deleteFileTracked,
+  reportFileChanges,
+  writeFileAtomic,
+  writeFileTracked,
+} from '../utils/fileWriter.js';
+import { joinLines, LineDocument, parseLines } from '../utils/lineEditor.js';
+import {
+  parsePathFormat,
+  resolveToAbsolutePath,
+  validatePathForTool,
+} from '../utils/path-handler.js';
+import { applyHunks, FilePatch, HunkResult, parseUnifiedDiff } from '../utils/unifiedDiff.js';
+import { validateWriteAccess } from '../utils/writePolicy.js';
+
+/**
+ * Interface for apply patch parameters
+ */
+export interface ApplyPatchParams {
+  patch: string;
+  repoId?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * The planned effect of one file patch
+ */
+interface PlannedChange {
+  kind: 'create' | 'modify' | 'delete' | 'rename';
+  displayPath: string; // Path shown to the caller
+  sourcePath: string | null; // Absolute path read from (null for created files)
+  targetPath: string | null; // Absolute path written to (null for deleted files)
+  sourceToolPath: string | null; // Source path in format /repoId/path/to/file
+  targetToolPath: string | null; // Target path in format /repoId/path/to/file
+  content: string | null; // New content (null for deleted files)
+  hunkResults: HunkResult[];
+  error?: string;
+}
+
+/**
+ * Error raised when a write fails and rolling back the earlier writes fails too
+ */
+class PatchRollbackError extends Error {
+  constructor(
+    message: string,
+    public readonly unrestored: string[] // Tool paths left as the patch wrote them
+  ) {
+    super(message);
+    this.name = 'PatchRollbackError';
+  }
+}
+
+/**
+ * Convert a path from the patch into the /repoId/path format
+ * @param patchPath Path as written in the diff
+ * @param repoId Repository the patch targets, used for repository-relative paths
+ * @returns Absolute tool path
+ */
+function toToolPath(patchPath: string, repoId: string | undefined): string {
+  if (patchPath.startsWith('/')) {
+    return patchPath;
+  }
+  if (!repoId) {
+    throw new Error(
+      `Path '${patchPath}' is relative; use /repoId/path paths in the patch or provide repoId`
+    );
+  }
+  return `/${repoId}/${patchPath.replace(/^\.\//, '')}`;
+}
+
+/**
+ * Resolve and validate a patch path, ensuring it targets the expected repository
+ */
+function resolvePatchPath(
+  patchPath: string,
+  repoId: string | undefined,
+  targetRepo: { id?: string }
+): { toolPath: string; absolutePath: string } {
+  const toolPath = toToolPath(patchPath, repoId);
+
+  const validation = validatePathForTool(toolPath, 'apply-patch');
+  if (!validation.isValid) {
+    throw new Error(validation.errorMessage || `Invalid path: ${toolPath}`);
+  }
+
+  // All files in a single patch must belong to the same repository
+  const { repoId: pathRepoId } = parsePathFormat(toolPath);
+  if (targetRepo.id && targetRepo.id !== pathRepoId) {
+    throw new Error(
+      `Patch spans multiple repositories ('${targetRepo.id}' and '${pathRepoId}'); apply one patch per repository`
+    );
+  }
+  targetRepo.id = pathRepoId;
+
+  // Every file the patch touches (including rename and delete sources) must be writable
+  const writeAccess = validateWriteAccess(toolPath);
+  if (!writeAccess.isAllowed) {
+    throw new Error(writeAccess.errorMessage || `Write not allowed: ${toolPath}`);
+  }
+
+  return { toolPath, absolutePath: resolveToAbsolutePath(toolPath) };
+}
+
+/**
+ * Work out the new content for a single file patch without touching the disk
+ * @param filePatch Parsed file patch
+ * @param repoId Repository for relative paths
+ * @param targetRepo Repository shared by all files in the patch
+ * @param pending Content already planned by earlier file patches, keyed by absolute path
+ * @returns Planned change
+ */
+async function planFilePatch(
+  filePatch: FilePatch,
+  repoId: string | undefined,
+  targetRepo: { id?: string },
+  pending: Map<string, string | null>
+): Promise<PlannedChange> {
+  const { oldPath, newPath } = filePatch;
+  const source = oldPath ? resolvePatchPath(oldPath, repoId, targetRepo) : null;
+  const target = newPath ? resolvePatchPath(newPath, repoId, targetRepo) : null;
+
+  let kind: PlannedChange['kind'] = 'modify';
+  if (!source) {
+    kind = 'create';
+  } else if (!target) {
+    kind = 'delete';
+  } else if (source.absolutePath !== target.absolutePath) {
+    kind = 'rename';
+  }
+
+  const displayPath =
+    kind === 'rename' ? `${source!.toolPath} -> ${target!.toolPath}` : (target || source)!.toolPath;
+
+  const change: PlannedChange = {
+    kind,
+    displayPath,
+    sourcePath: source ? source.absolutePath : null,
+    targetPath: target ? target.absolutePath : null,
+    sourceToolPath: source ? source.toolPath : null,
+    targetToolPath: target ? target.toolPath : null,
+    content: null,
+    hunkResults: [],
+  };
+
+  if (filePatch.isBinary) {
+    change.error = 'binary patches are not supported';
+    return change;
+  }
+
+  // Current content, taking earlier file patches in the same diff into account
+  const readCurrent = async (absolutePath: string): Promise<string | null> => {
+    if (pending.has(absolutePath)) {
+      return pending.get(absolutePath)!;
+    }
+    return existsSync(absolutePath) ? fs.readFile(absolutePath, 'utf-8') : null;
+  };
+
+  let doc: LineDocument = { lines: [], eol: '\n', trailingNewline: true };
+  if (change.sourcePath) {
+    const original = await readCurrent(change.sourcePath);
+    if (original === null) {
+      change.error = 'file does not exist';
+      return change;
+    }
+    doc = parseLines(original);
+  } else if ((await readCurrent(change.targetPath!)) !== null) {
+    change.error = 'file already exists';
+    return change;
+  }
+
+  if (kind === 'rename' && (await readCurrent(change.targetPath!)) !== null) {
+    change.error = 'rename target already exists';
+    return change;
+  }
+
+  const { lines, results } = applyHunks(doc.lines, filePatch.hunks);
+  change.hunkResults = results;
+  if (results.some(result => !result.applied)) {
+    change.error = 'one or more hunks failed';
+    return change;
+  }
+
+  if (kind === 'delete') {
+    if (lines.length > 0) {
+      change.error = 'deletion patch does not remove the entire file content';
+    }
+    return change;
+  }
+
+  // The final newline only changes when the patch says so
+  if (filePatch.newMissingFinalNewline) {
+    doc.trailingNewline = false;
+  } else if (filePatch.oldMissingFinalNewline) {
+    doc.trailingNewline = true;
+  }
+  change.content = joinLines({ ...doc, lines });
+  return change;
+}
+
+/**
+ * Write all planned changes, restoring every touched file if any write fails
+ * @param changes Planned changes, all of which applied cleanly
+ * @returns Changes made, for the change journal
+ */
+async function commitChanges(changes: PlannedChange[]): Promise<JournalChange[]> {
+  const applied: JournalChange[] = [];
+
+  try {
+    for (const change of changes) {
+      if (change.targetPath && change.content !== null) {
+        applied.push(
+          ...(await writeFileTracked(change.targetToolPath!, change.targetPath, change.content))
+        );
+      }
+      if (change.sourcePath && change.sourcePath !== change.targetPath) {
+        applied.push(...(await deleteFileTracked(change.sourceToolPath!, change.sourcePath)));
+      }
+    }
+  } catch (error) {
+    // Roll back in reverse order using the recorded before-images
+    const unrestored: string[] = [];
+    for (const journalChange of [...applied].reverse()) {
+      try {
+        // Renames are written as a create plus a delete, so there are no move changes here
+        if (journalChange.type === 'directory') {
+          await fs.rmdir(journalChange.absolutePath);
+        } else if (journalChange.type === 'file') {
+          if (journalChange.before === null) {
+            await fs.rm(journalChange.absolutePath, { force: true });
+          } else {
+            await writeFileAtomic(journalChange.absolutePath, journalChange.before);
+          }
+        }
+      } catch (restoreError) {
+        console.error(
+          `Error restoring ${journalChange.absolutePath} after failed patch:`,
+          restoreError
+        );
+        unrestored.unshift(journalChange.toolPath);
+      }
+    }
+    reportFileChanges(applied);
+    if (unrestored.length > 0) {
+      throw new PatchRollbackError((error as Error).message, unrestored);
+    }
+    throw error;
+  }
+
+  return applied;
+}
+
+/**
+ * Format a human-readable report of the planned changes
+ */
+function formatReport(changes: PlannedChange[]): string {
+  const kindLabels: Record<PlannedChange['kind'], string> = {
+    create: 'A',
+    modify: 'M',
+    delete: 'D',
+    rename: 'R',
+  };
+
+  return changes
+    .map(change => {
+      const lines = [`${kindLabels[change.kind]} ${change.displayPath}`];
+      for (const result of change.hunkResults) {
+        if (result.applied) {
+          const details = [`at line ${result.line}`];
+          if (result.offset) details.push(`offset ${result.offset > 0 ? '+' : ''}${result.offset}`);
+          if (result.fuzzy) details.push('ignoring trailing whitespace');
+          lines.push(`  hunk ${result.index} ${result.header}: ok (${details.join(', ')})`);
+        } else {
+          lines.push(`  hunk ${result.index} ${result.header}: FAILED (${result.message})`);
+        }
+      }
+      if (change.error) {
+        lines.push(`  error: ${change.error}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Implementation of the apply patch tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function applyPatchImpl(params: ApplyPatchParams): Promise<CallToolResult> {
+  const { patch, repoId, dryRun = false } = params;
+
+  try {
+    const filePatches = parseUnifiedDiff(patch);
+    if (filePatches.length === 0) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: 'No file changes found in patch. Provide a unified diff with ---/+++ headers and @@ hunks.',
+          },
+        ],
+      };
+    }
+
+    // Plan every file before writing anything
+    const targetRepo: { id?: string } = {};
+    const pending = new Map<string, string | null>();
+    const changes: PlannedChange[] = [];
+    for (const filePatch of filePatches) {
+      const change = await planFilePatch(filePatch, repoId, targetRepo, pending);
+      changes.push(change);
+      if (!change.error) {
+        if (change.sourcePath) pending.set(change.sourcePath, null);
+        if (change.targetPath) pending.set(change.targetPath, change.content);
+      }
+    }
+
+    const report = formatReport(changes);
+    const failed = changes.filter(change => change.error);
+
+    if (failed.length > 0) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Patch does not apply: ${failed.length} of ${changes.length} file(s) failed. No files were modified.\n${report}`,
+          },
+        ],
+      };
+    }
+
+    if (dryRun) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `Dry run: patch applies cleanly to ${changes.length} file(s) in repository '${targetRepo.id}'.\n${report}`,
+          },
+        ],
+      };
+    }
+
+    const journalChanges = await commitChanges(changes);
+    changeJournal.record('apply-patch', journalChanges);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Patch applied to ${changes.length} file(s) in repository '${targetRepo.id}'.\n${report}`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in applyPatch tool:', error);
+    const outcome =
+      error instanceof PatchRollbackError
+        ? `Rolling back failed, so these paths are left changed:\n${error.unrestored.map(toolPath => `  ${toolPath}`).join('\n')}`
+        : 'No files were modified.';
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error applying patch: ${(error as Error).message}. ${outcome}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedApplyPatchWrapper = (
+  params: ApplyPatchParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return applyPatchImpl(params);
+};
+
+/**
+ * Register the apply patch tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerApplyPatchTool(server: McpServer): void {
+  server.tool(
+    'apply-patch', // Tool name
+    'Applies a unified diff (git diff format supported) to one or more files in a single repository. Paths in the diff are either /repoId/path/to/file or relative to repoId. Supports file creation, deletion and rename, and tolerates shifted hunks. Nothing is written unless every hunk applies. Use dryRun to check a patch first.', // Description
+    {
+      patch: z.string().describe('REQUIRED: Unified diff text with ---/+++ headers and @@ hunks'),
+      repoId: z
+        .string()
+        .optional()
+        .describe('Repository ID for relative paths in the diff (e.g. a/src/index.ts)'),
+      dryRun: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Report whether each hunk applies without writing any files'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedApplyPatchWrapper
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * Copy Path Tool
+ * Copies a file or directory tree within or between repositories
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+import { changeJournal, JournalChange } from '../utils/changeJournal.js';
+import { copyPathTracked } from '../utils/fileWriter.js';
+import {
+  isRepositoryRoot,
+  parsePathFormat,
+  resolveToAbsolutePath,
+  validatePathForTool,
+} from '../utils/path-handler.js';
+import { isInTrash, moveToTrashTracked, TRASH_DIRECTORY } from '../utils/trash.js';
+import { validateTreeWriteAccess } from '../utils/writePolicy.js';
+
+/**
+ * Interface for copy path parameters
+ */
+export interface CopyPathParams {
+  source: string;
+  destination: string;
+  overwrite?: boolean;
+}
+
+/**
+ * Create an error result
+ */
+function errorResult(text: string): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text' as const,
+        text,
+      },
+    ],
+  };
+}
+
+/**
+ * Implementation of the copy path tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function copyPathImpl(params: CopyPathParams): Promise<CallToolResult> {
+  const { source, destination, overwrite = false } = params;
+
+  try {
+    // Validate both path formats
+    for (const toolPath of [source, destination]) {
+      const pathValidation = validatePathForTool(toolPath, 'copy-path');
+      if (!pathValidation.isValid) {
+        return errorResult(pathValidation.errorMessage || 'Invalid path format');
+      }
+    }
+    if (isRepositoryRoot(destination)) {
+      return errorResult(`Cannot copy to '${destination}': it is the repository root.`);
+    }
+    if (isInTrash(parsePathFormat(destination).relativePath)) {
+      return errorResult(`Cannot copy into ${TRASH_DIRECTORY}.`);
+    }
+
+    const sourcePath = resolveToAbsolutePath(source);
+    const destinationPath = resolveToAbsolutePath(destination);
+    const sourceStats = await fs.lstat(sourcePath);
+
+    // Copying a directory into itself would never finish
+    const relative = path.relative(sourcePath, destinationPath);
+    if (relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))) {
+      return errorResult(
+        `Cannot copy '${source}' to '${destination}': the destination is the source or inside it.`
+      );
+    }
+
+    // Every file the copy creates must be writable under the destination's policy
+    const accessChecks = [validateTreeWriteAccess(destination, sourcePath)];
+    const destinationExists = existsSync(destinationPath);
+    if (destinationExists) {
+      if (!overwrite) {
+        return errorResult(
+          `Destination '${destination}' already exists. Set overwrite to true to replace it (the existing item is moved to the trash).`
+        );
+      }
+      accessChecks.push(validateTreeWriteAccess(destination, destinationPath));
+    }
+    for (const writeAccess of await Promise.all(accessChecks)) {
+      if (!writeAccess.isAllowed) {
+        return errorResult(writeAccess.errorMessage || 'Write not allowed by repository policy');
+      }
+    }
+
+    // Record whatever was done, even if a later step fails
+    const changes: JournalChange[] = [];
+    let skipped: string[] = [];
+    let replacedTrashPath: string | undefined;
+    try {
+      if (destinationExists) {
+        const trashed = await moveToTrashTracked(destination, destinationPath);
+        changes.push(...trashed.changes);
+        replacedTrashPath = trashed.trashPath;
+      }
+      skipped = await copyPathTracked(sourcePath, destination, destinationPath, changes);
+    } finally {
+      changeJournal.record('copy-path', changes);
+    }
+
+    const fileCount = changes.filter(change => change.type === 'file').length;
+    const lines = [
+      sourceStats.isDirectory()
+        ? `Copied directory '${source}' to '${destination}' (${fileCount} file(s)).`
+        : `Copied file '${source}' to '${destination}'.`,
+    ];
+    if (replacedTrashPath) {
+      lines.push(`The previous '${destination}' was moved to trash: '${replacedTrashPath}'.`);
+    }
+    if (skipped.length > 0) {
+      lines.push(`Skipped ${skipped.length} symbolic link(s):`, ...skipped.map(p => `  ${p}`));
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in copyPath tool:', error);
+
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return errorResult(`Path not found: '${source}'. Please check the path and try again.`);
+    }
+    return errorResult(`Error copying path: ${(error as Error).message}`);
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedCopyPathWrapper = (params: CopyPathParams, _extra: unknown): Promise<CallToolResult> => {
+  return copyPathImpl(params);
+};
+
+/**
+ * Register the copy path tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerCopyPathTool(server: McpServer): void {
+  server.tool(
+    'copy-path', // Tool name
+    'Copies a file or directory (recursively) to a new location, which may be in another repository. REQUIRES absolute path format: /repoId/path/to/file for both paths. Symbolic links are skipped. Can be undone with undo-change.', // Description
+    {
+      source: z
+        .string()
+        .describe('REQUIRED: File or directory to copy in format: /repoId/path/to/file'),
+      destination: z
+        .string()
+        .describe('REQUIRED: Location of the copy in format: /repoId/path/to/file'),
+      overwrite: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Replace an existing destination, moving it to the trash first'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedCopyPathWrapper
+  );
+}
@@ -5,11 +5,15 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { existsSync } from 'fs';
-import fs from 'fs/promises';
-import path from 'path';
 import { z } from 'zod';
 
+import { formatLintResult, lintRunner } from '../linting/lintRunner.js';
+import { changeJournal } from '../utils/changeJournal.js';
+import { applyTextFormat, LineEndingMode, resolveTextFormat } from '../utils/fileContent.js';
+import { checkExpectedHash, computeContentHash } from '../utils/fileHash.js';
+import { captureFileState, writeFileTracked } from '../utils/fileWriter.js';
 import { resolveToAbsolutePath, validatePathForTool } from '../utils/path-handler.js';
+import { validateWriteAccess } from '../utils/writePolicy.js';
 
 /**
  * Interface for create file parameters
@@ -18,6 +22,10 @@ export interface CreateFileParams {
   path: string;
   content: string;
   overwriteIfExists?: boolean;
+  expectedHash?: string;
+  lineEnding?: LineEndingMode;
+  bom?: boolean;
+  skipLinting?: boolean;
   repoId?: string;
   moduleName?: string;
 }
@@ -30,7 +38,15 @@ export interface CreateFileParams {
  * @returns Tool result
  */
 export async function createFileImpl(params: CreateFileParams): Promise<CallToolResult> {
-  const { path: filePath, content, overwriteIfExists = false } = params;
+  const {
+    path: filePath,
+    content,
+    overwriteIfExists = false,
+    expectedHash,
+    lineEnding = 'preserve',
+    bom,
+    skipLinting = false,
+  } = params;
 
   try {
     // Validate the path format
@@ -47,6 +63,20 @@ export async function createFileImpl(params: CreateFileParams): Promise<CallTool
       };
     }
 
+    // Enforce the repository's write policy
+    const writeAccess = validateWriteAccess(filePath);
+    if (!writeAccess.isAllowed) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: writeAccess.errorMessage || 'Write not allowed by repository policy',
+          },
+        ],
+      };
+    }
+
     // Use the new path resolution system
     const absoluteFilePath = resolveToAbsolutePath(filePath);
 
@@ -63,18 +93,44 @@ export async function createFileImpl(params: CreateFileParams): Promise<CallTool
       };
     }
 
-    // Create parent directories if they don't exist
-    const dirPath = path.dirname(absoluteFilePath);
-    await fs.mkdir(dirPath, { recursive: true });
+    // When overwriting, refuse to clobber changes made since the caller read the file
+    const hashError = await checkExpectedHash(absoluteFilePath, expectedHash, filePath);
+    if (hashError) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: hashError,
+          },
+        ],
+      };
+    }
 
-    // Write the file
-    await fs.writeFile(absoluteFilePath, content);
+    // Keep the existing file's line endings and byte order mark unless told otherwise
+    const formatted = applyTextFormat(
+      content,
+      resolveTextFormat(content, await captureFileState(absoluteFilePath), lineEnding, bom)
+    );
+
+    // Write the file, creating parent directories if they don't exist
+    const changes = await writeFileTracked(filePath, absoluteFilePath, formatted);
+    changeJournal.record('create-file', changes);
+
+    // Lint the written file unless the caller opted out
+    const lintResult = skipLinting
+      ? { status: 'skipped' as const, diagnostics: [] }
+      : await lintRunner.lintFile(filePath);
 
     // Build response
     const response = [
       {
         type: 'text' as const,
-        text: `File created successfully: '${filePath}'`,
+        text: `File created successfully: '${filePath}' (hash: ${computeContentHash(formatted)})`,
+      },
+      {
+        type: 'text' as const,
+        text: formatLintResult(lintResult),
       },
     ];
 
@@ -111,7 +167,7 @@ const typedCreateFileWrapper = (
 export function registerCreateFileTool(server: McpServer): void {
   server.tool(
     'create-file', // Tool name
-    'Creates a new file with the provided content. REQUIRES absolute path format: /repoId/path/to/file. Creates parent directories automatically. Runs linting by default. Returns success message with lint results.', // Description
+    'Creates a new file with the provided content. REQUIRES absolute path format: /repoId/path/to/file. Creates parent directories automatically. Writes are atomic and keep the permissions, line endings and byte order mark of an existing file unless lineEnding or bom is given. Runs linting by default. Returns success message with lint results.', // Description
     {
       path: z.string().describe('REQUIRED: Target file path in format: /repoId/path/to/file'),
       content: z.string().describe('REQUIRED: File content to write'),
@@ -120,6 +176,23 @@ export function registerCreateFileTool(server: McpServer): void {
         .optional()
         .default(false)
         .describe('Overwrite the file if it already exists'),
+      expectedHash: z
+        .string()
+        .optional()
+        .describe(
+          'Content hash from read-file; with overwriteIfExists, the write is refused if the file has changed since'
+        ),
+      lineEnding: z
+        .enum(['preserve', 'lf', 'crlf'])
+        .optional()
+        .default('preserve')
+        .describe(
+          "Line endings to write; preserve keeps the existing file's convention (new files are written as given)"
+        ),
+      bom: z
+        .boolean()
+        .optional()
+        .describe('Write a UTF-8 byte order mark - matches the existing file if not provided'),
       skipLinting: z
         .boolean()
         .optional()
@@ -0,0 +1,143 @@
+/**
+ * Delete Lines Tool
+ * Deletes an inclusive range of lines from an existing file
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { changeJournal } from '../utils/changeJournal.js';
+import { writeFileTracked } from '../utils/fileWriter.js';
+import {
+  formatNumberedExcerpt,
+  joinLines,
+  readLineDocument,
+  validateLineRange,
+} from '../utils/lineEditor.js';
+import { resolveToAbsolutePath, validatePathForTool } from '../utils/path-handler.js';
+import { validateWriteAccess } from '../utils/writePolicy.js';
+
+/**
+ * Interface for delete lines parameters
+ */
+export interface DeleteLinesParams {
+  path: string;
+  startLine: number;
+  endLine: number;
+  repoId?: string;
+}
+
+/**
+ * Implementation of the delete lines tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function deleteLinesImpl(params: DeleteLinesParams): Promise<CallToolResult> {
+  const { path: filePath, startLine, endLine } = params;
+
+  try {
+    // Validate the path format
+    const pathValidation = validatePathForTool(filePath, 'delete-lines');
+    if (!pathValidation.isValid) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: pathValidation.errorMessage || 'Invalid path format',
+          },
+        ],
+      };
+    }
+
+    // Enforce the repository's write policy
+    const writeAccess = validateWriteAccess(filePath);
+    if (!writeAccess.isAllowed) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: writeAccess.errorMessage || 'Write not allowed by repository policy',
+          },
+        ],
+      };
+    }
+
+    const absoluteFilePath = resolveToAbsolutePath(filePath);
+    const doc = await readLineDocument(absoluteFilePath);
+
+    const rangeError = validateLineRange(startLine, endLine, doc.lines.length);
+    if (rangeError) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Invalid line range for '${filePath}': ${rangeError}`,
+          },
+        ],
+      };
+    }
+
+    const deletedCount = endLine - startLine + 1;
+    doc.lines.splice(startLine - 1, deletedCount);
+
+    const changes = await writeFileTracked(filePath, absoluteFilePath, joinLines(doc));
+    changeJournal.record('delete-lines', changes);
+
+    // Show the lines that now surround the removed range
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Deleted lines ${startLine}-${endLine} (${deletedCount} line(s)) from '${filePath}':\n${formatNumberedExcerpt(doc.lines, startLine, startLine - 1)}`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in deleteLines tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error deleting lines: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedDeleteLinesWrapper = (
+  params: DeleteLinesParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return deleteLinesImpl(params);
+};
+
+/**
+ * Register the delete lines tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerDeleteLinesTool(server: McpServer): void {
+  server.tool(
+    'delete-lines', // Tool name
+    'Deletes an inclusive range of lines from an existing file. REQUIRES absolute path format: /repoId/path/to/file. Line numbers are 1-based. Returns a numbered excerpt around the deleted range.', // Description
+    {
+      path: z.string().describe('REQUIRED: Target file path in format: /repoId/path/to/file'),
+      startLine: z.number().int().describe('REQUIRED: First line to delete (1-based)'),
+      endLine: z.number().int().describe('REQUIRED: Last line to delete (1-based, inclusive)'),
+      repoId: z
+        .string()
+        .optional()
+        .describe('Repository ID to target - derived from path if not provided'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedDeleteLinesWrapper
+  );
+}
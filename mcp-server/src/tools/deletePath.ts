@@ -0,0 +1,160 @@
+/**
+ * Delete Path Tool
+ * Deletes a file or directory by moving it into the repository's trash
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import { z } from 'zod';
+
+import { changeJournal } from '../utils/changeJournal.js';
+import {
+  isRepositoryRoot,
+  parsePathFormat,
+  resolveToAbsolutePath,
+  validatePathForTool,
+} from '../utils/path-handler.js';
+import {
+  isInTrash,
+  moveToTrashTracked,
+  TRASH_DIRECTORY,
+  TRASH_RETENTION_DAYS,
+} from '../utils/trash.js';
+import { validateTreeWriteAccess } from '../utils/writePolicy.js';
+
+/**
+ * Interface for delete path parameters
+ */
+export interface DeletePathParams {
+  path: string;
+  repoId?: string;
+}
+
+/**
+ * Implementation of the delete path tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function deletePathImpl(params: DeletePathParams): Promise<CallToolResult> {
+  const { path: targetPath } = params;
+
+  try {
+    // Validate the path format
+    const pathValidation = validatePathForTool(targetPath, 'delete-path');
+    if (!pathValidation.isValid) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: pathValidation.errorMessage || 'Invalid path format',
+          },
+        ],
+      };
+    }
+
+    if (isRepositoryRoot(targetPath)) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Cannot delete '${targetPath}': it is the repository root.`,
+          },
+        ],
+      };
+    }
+
+    if (isInTrash(parsePathFormat(targetPath).relativePath)) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `'${targetPath}' is already in the trash. Items in ${TRASH_DIRECTORY} must be removed outside the server.`,
+          },
+        ],
+      };
+    }
+
+    const absolutePath = resolveToAbsolutePath(targetPath);
+    const stats = await fs.lstat(absolutePath);
+
+    // Enforce the repository's write policy on the path and everything below it
+    const writeAccess = await validateTreeWriteAccess(targetPath, absolutePath);
+    if (!writeAccess.isAllowed) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: writeAccess.errorMessage || 'Write not allowed by repository policy',
+          },
+        ],
+      };
+    }
+
+    const { trashPath, changes } = await moveToTrashTracked(targetPath, absolutePath);
+    const entry = changeJournal.record('delete-path', changes);
+
+    const kind = stats.isDirectory() ? 'directory' : 'file';
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Deleted ${kind} '${targetPath}' (moved to trash: '${trashPath}'). Restore it with undo-change (change #${entry?.id}) or move-path; deleted paths are removed from the trash for good after ${TRASH_RETENTION_DAYS} days.`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in deletePath tool:', error);
+
+    let errorMessage = `Error deleting path: ${(error as Error).message}`;
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      errorMessage = `Path not found: '${targetPath}'. Please check the path and try again.`;
+    }
+
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: errorMessage,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedDeletePathWrapper = (
+  params: DeletePathParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return deletePathImpl(params);
+};
+
+/**
+ * Register the delete path tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerDeletePathTool(server: McpServer): void {
+  server.tool(
+    'delete-path', // Tool name
+    `Deletes a file or directory. REQUIRES absolute path format: /repoId/path/to/file. Deleted paths are moved into the repository's ${TRASH_DIRECTORY} directory so they can be restored with undo-change or move-path for ${TRASH_RETENTION_DAYS} days, after which they are removed for good.`, // Description
+    {
+      path: z
+        .string()
+        .describe('REQUIRED: File or directory to delete in format: /repoId/path/to/file'),
+      repoId: z
+        .string()
+        .optional()
+        .describe('Repository ID to target - derived from path if not provided'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedDeletePathWrapper
+  );
+}
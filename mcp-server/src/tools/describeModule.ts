@@ -0,0 +1,94 @@
+/**
+ * Describe Module Tool
+ * Summarizes a module from its manifest, README and files
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { describeModule, formatModuleDescription } from '../utils/moduleDescriber.js';
+import { moduleManager } from '../utils/moduleManager.js';
+
+/**
+ * Interface for describe module parameters
+ */
+export interface DescribeModuleParams {
+  moduleName: string;
+  repoId?: string;
+}
+
+/**
+ * Implementation of the describe module tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function describeModuleImpl(params: DescribeModuleParams): Promise<CallToolResult> {
+  const { moduleName, repoId } = params;
+
+  try {
+    const module = moduleManager.findModule(moduleName, repoId);
+    if (!module) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Module not found: '${moduleName}'${repoId ? ` in repository ${repoId}` : ''}. Use list-modules to see the detected modules.`,
+          },
+        ],
+      };
+    }
+
+    const description = await describeModule(module);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: formatModuleDescription(description),
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in describeModule tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error describing module: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedDescribeModuleWrapper = (
+  params: DescribeModuleParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return describeModuleImpl(params);
+};
+
+/**
+ * Register the describe module tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerDescribeModuleTool(server: McpServer): void {
+  server.tool(
+    'describe-module', // Tool name
+    'Describes a module: its manifest (name, version, scripts, entrypoints from package.json, pyproject.toml, Cargo.toml or go.mod), the start of its README, and its file count and size. Use list-modules to find module names.', // Description
+    {
+      moduleName: z.string().describe('REQUIRED: Module ID, name or path as shown by list-modules'),
+      repoId: z
+        .string()
+        .optional()
+        .describe('Repository ID to look in - searches all repositories if not provided'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedDescribeModuleWrapper
+  );
+}
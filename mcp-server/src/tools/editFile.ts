@@ -0,0 +1,221 @@
+/**
+ * Edit File Tool
+ * Replaces an exact, uniquely matching string in an existing file
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import { z } from 'zod';
+
+import { changeJournal } from '../utils/changeJournal.js';
+import { detectTextFormat } from '../utils/fileContent.js';
+import { writeFileTracked } from '../utils/fileWriter.js';
+import { formatNumberedExcerpt, parseLines } from '../utils/lineEditor.js';
+import { resolveToAbsolutePath, validatePathForTool } from '../utils/path-handler.js';
+import { validateWriteAccess } from '../utils/writePolicy.js';
+
+/**
+ * Interface for edit file parameters
+ */
+export interface EditFileParams {
+  path: string;
+  oldString: string;
+  newString: string;
+  replaceAll?: boolean;
+  repoId?: string;
+}
+
+/**
+ * Find every offset at which a string occurs in the content
+ * @param content Content to search
+ * @param search String to find
+ * @returns Array of character offsets
+ */
+function findOccurrences(content: string, search: string): number[] {
+  const offsets: number[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    offsets.push(index);
+    index = content.indexOf(search, index + search.length);
+  }
+  return offsets;
+}
+
+/**
+ * Convert a character offset into a 1-based line number
+ * @param content Content the offset points into
+ * @param offset Character offset
+ * @returns Line number containing the offset
+ */
+function lineNumberAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (content.charCodeAt(i) === 10) {
+      line++;
+    }
+  }
+  return line;
+}
+
+/**
+ * Implementation of the edit file tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function editFileImpl(params: EditFileParams): Promise<CallToolResult> {
+  const { path: filePath, oldString, newString, replaceAll = false } = params;
+
+  try {
+    // Validate the path format
+    const pathValidation = validatePathForTool(filePath, 'edit-file');
+    if (!pathValidation.isValid) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: pathValidation.errorMessage || 'Invalid path format',
+          },
+        ],
+      };
+    }
+
+    // Enforce the repository's write policy
+    const writeAccess = validateWriteAccess(filePath);
+    if (!writeAccess.isAllowed) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: writeAccess.errorMessage || 'Write not allowed by repository policy',
+          },
+        ],
+      };
+    }
+
+    if (oldString === '') {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: 'oldString must not be empty. Use insert-lines to add content without an anchor.',
+          },
+        ],
+      };
+    }
+
+    if (oldString === newString) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: 'oldString and newString are identical; nothing to change.',
+          },
+        ],
+      };
+    }
+
+    const absoluteFilePath = resolveToAbsolutePath(filePath);
+    const original = await fs.readFile(absoluteFilePath, 'utf-8');
+
+    // Match and write with the file's own line endings so CRLF files stay CRLF
+    const { eol } = detectTextFormat(original);
+    const search = eol === '\r\n' ? oldString.replace(/\r?\n/g, eol) : oldString;
+    const replacement = eol === '\r\n' ? newString.replace(/\r?\n/g, eol) : newString;
+
+    const offsets = findOccurrences(original, search);
+    if (offsets.length === 0) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `oldString not found in '${filePath}'. It must match the file exactly, including whitespace and indentation.`,
+          },
+        ],
+      };
+    }
+
+    const lineNumbers = offsets.map(offset => lineNumberAt(original, offset));
+    if (offsets.length > 1 && !replaceAll) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `oldString matches ${offsets.length} locations in '${filePath}' (lines ${lineNumbers.join(', ')}). Include more surrounding context to make it unique, or set replaceAll=true.`,
+          },
+        ],
+      };
+    }
+
+    const updated = original.split(search).join(replacement);
+    const changes = await writeFileTracked(filePath, absoluteFilePath, updated);
+    changeJournal.record('edit-file', changes);
+
+    // Show the first edited location in the updated file
+    const firstLine = lineNumberAt(updated, offsets[0]);
+    const lastLine = firstLine + newString.split('\n').length - 1;
+    const { lines } = parseLines(updated);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Replaced ${offsets.length} occurrence(s) in '${filePath}' (original lines ${lineNumbers.join(', ')}):\n${formatNumberedExcerpt(lines, firstLine, lastLine)}`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in editFile tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error editing file: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedEditFileWrapper = (params: EditFileParams, _extra: unknown): Promise<CallToolResult> => {
+  return editFileImpl(params);
+};
+
+/**
+ * Register the edit file tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerEditFileTool(server: McpServer): void {
+  server.tool(
+    'edit-file', // Tool name
+    'Replaces an exact string in an existing file. REQUIRES absolute path format: /repoId/path/to/file. oldString must match exactly once unless replaceAll is set; ambiguous matches are rejected with their line numbers. Prefer this over update-file for targeted changes.', // Description
+    {
+      path: z.string().describe('REQUIRED: Target file path in format: /repoId/path/to/file'),
+      oldString: z
+        .string()
+        .describe('REQUIRED: Exact text to replace, including whitespace and indentation'),
+      newString: z.string().describe('REQUIRED: Text to replace it with'),
+      replaceAll: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Replace every occurrence instead of requiring a unique match'),
+      repoId: z
+        .string()
+        .optional()
+        .describe('Repository ID to target - derived from path if not provided'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedEditFileWrapper
+  );
+}
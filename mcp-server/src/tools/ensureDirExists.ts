@@ -6,7 +6,10 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import fs from 'fs/promises';
 import { z } from 'zod';
 
+import { changeJournal } from '../utils/changeJournal.js';
+import { createDirectoryTracked } from '../utils/fileWriter.js';
 import { resolveToAbsolutePath, validatePathForTool } from '../utils/path-handler.js';
+import { validateWriteAccess } from '../utils/writePolicy.js';
 
 /**
  * Register the ensure directory exists tool with the MCP server
@@ -47,6 +50,20 @@ export function registerEnsureDirExistsTool(server: McpServer): void {
         // Get full path
         const fullPath = resolveToAbsolutePath(dirPath);
 
+        // Enforce the repository's write policy
+        const writeAccess = validateWriteAccess(dirPath);
+        if (!writeAccess.isAllowed) {
+          return {
+            isError: true,
+            content: [
+              {
+                type: 'text',
+                text: writeAccess.errorMessage || 'Write not allowed by repository policy',
+              },
+            ],
+          };
+        }
+
         // Check if directory already exists
         let dirExists = false;
         try {
@@ -84,7 +101,15 @@ export function registerEnsureDirExistsTool(server: McpServer): void {
         try {
           // Use the provided mode or default to 0o755 (rwxr-xr-x)
           const dirMode = mode !== undefined ? mode : 0o755;
-          await fs.mkdir(fullPath, { recursive, mode: dirMode });
+          if (recursive) {
+            const changes = await createDirectoryTracked(dirPath, fullPath, dirMode);
+            changeJournal.record('ensure-dir-exists', changes);
+          } else {
+            await fs.mkdir(fullPath, { mode: dirMode });
+            changeJournal.record('ensure-dir-exists', [
+              { type: 'directory', toolPath: dirPath, absolutePath: fullPath },
+            ]);
+          }
 
           return {
             content: [
@@ -0,0 +1,176 @@
+/**
+ * File Info Tool
+ * Describes a file or directory without returning its contents
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import { z } from 'zod';
+
+import { sniffFileContent } from '../utils/fileContent.js';
+import { getGitPathStatus, GitPathStatus } from '../utils/git.js';
+import { parseLines } from '../utils/lineEditor.js';
+import { moduleManager } from '../utils/moduleManager.js';
+import {
+  parsePathFormat,
+  resolveToAbsolutePath,
+  validatePathForTool,
+} from '../utils/path-handler.js';
+import { repoManager } from '../utils/repoManager.js';
+import { formatSizeLimit, getServerConfig } from '../utils/serverConfig.js';
+import { DEFAULT_PAGE_LINES } from './readFile.js';
+
+/**
+ * Interface for file info parameters
+ */
+export interface FileInfoParams {
+  path: string;
+  repoId?: string;
+}
+
+/**
+ * Describe the git state of a path
+ */
+function describeGitStatus(status: GitPathStatus | null): string {
+  if (!status) {
+    return 'not a git repository';
+  }
+  if (status.ignored) {
+    return 'ignored';
+  }
+  if (!status.tracked) {
+    return 'untracked';
+  }
+  return status.modified ? `tracked, modified (${status.status.trim()})` : 'tracked, unmodified';
+}
+
+/**
+ * Implementation of the file info tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function fileInfoImpl(params: FileInfoParams): Promise<CallToolResult> {
+  const { path: targetPath } = params;
+
+  try {
+    // Validate the path format
+    const pathValidation = validatePathForTool(targetPath, 'file-info');
+    if (!pathValidation.isValid) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: pathValidation.errorMessage || 'Invalid path format',
+          },
+        ],
+      };
+    }
+
+    const { repoId, relativePath } = parsePathFormat(targetPath);
+    const absolutePath = resolveToAbsolutePath(targetPath);
+    const stats = await fs.stat(absolutePath);
+    const repoPath = repoManager.getRepository(repoId)!.path;
+
+    const lines = [`path: ${targetPath}`];
+
+    if (stats.isDirectory()) {
+      const entries = await fs.readdir(absolutePath);
+      lines.push(`type: directory`, `entries: ${entries.length}`);
+    } else {
+      lines.push(`type: file`, `size: ${stats.size} bytes`);
+    }
+    lines.push(`mtime: ${stats.mtime.toISOString()}`);
+
+    if (stats.isFile()) {
+      lines.push(`language: ${moduleManager.getFileLanguage(absolutePath)}`);
+
+      // Files too large for read-file are described without reading them
+      const { maxFileSize } = getServerConfig().limits;
+      if (stats.size > maxFileSize) {
+        lines.push(
+          `content: not inspected (larger than ${formatSizeLimit(maxFileSize)}, too large for read-file)`
+        );
+      } else {
+        const sniffed = sniffFileContent(await fs.readFile(absolutePath), absolutePath);
+        if (sniffed.kind === 'image') {
+          lines.push(`content: image (${sniffed.mimeType}), read-file returns it as an image`);
+        } else if (sniffed.kind === 'binary') {
+          lines.push(`content: binary (${sniffed.description})`);
+        } else {
+          const lineCount = sniffed.text === '' ? 0 : parseLines(sniffed.text).lines.length;
+          const pages = Math.ceil(lineCount / DEFAULT_PAGE_LINES);
+          lines.push(`content: text (${sniffed.encoding})`, `lines: ${lineCount}`);
+          if (pages > 1) {
+            lines.push(`read-file pages: ${pages} (use startLine/endLine to read part of it)`);
+          }
+        }
+      }
+    }
+
+    lines.push(`git: ${describeGitStatus(await getGitPathStatus(repoPath, relativePath))}`);
+
+    const module = moduleManager.getModuleForPath(repoId, relativePath);
+    lines.push(
+      module
+        ? `module: ${module.name} (id: ${module.id}, path: /${repoId}/${module.path}, type: ${module.type}, language: ${module.language})`
+        : `module: none`
+    );
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in fileInfo tool:', error);
+
+    let errorMessage = `Error getting file info: ${(error as Error).message}`;
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      errorMessage = `Path not found: '${targetPath}'. Please check the path and try again.`;
+    }
+
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: errorMessage,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedFileInfoWrapper = (params: FileInfoParams, _extra: unknown): Promise<CallToolResult> => {
+  return fileInfoImpl(params);
+};
+
+/**
+ * Register the file info tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerFileInfoTool(server: McpServer): void {
+  server.tool(
+    'file-info', // Tool name
+    'Describes a file or directory without reading it out: size, mtime, language, whether it is text, binary or an image, line count, git state (tracked, modified, ignored) and the module it belongs to. REQUIRES absolute path format: /repoId/path/to/file. Use it to decide whether and how to read a file.', // Description
+    {
+      path: z
+        .string()
+        .describe('REQUIRED: File or directory to describe in format: /repoId/path/to/file'),
+      repoId: z
+        .string()
+        .optional()
+        .describe('Repository ID to target - derived from path if not provided'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedFileInfoWrapper
+  );
+}
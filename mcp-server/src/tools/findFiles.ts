@@ -0,0 +1,284 @@
+/**
+ * Find Files Tool
+ * Finds files by name or path pattern, in one directory tree or across all repositories
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import { z } from 'zod';
+
+import { FileWalker } from '../utils/fileWalker.js';
+import { matchesGlob } from '../utils/glob.js';
+import {
+  parsePathFormat,
+  resolveToAbsolutePath,
+  validatePathForTool,
+} from '../utils/path-handler.js';
+import { repoManager } from '../utils/repoManager.js';
+
+/**
+ * Interface for find files parameters
+ */
+export interface FindFilesParams {
+  patterns: string[];
+  directory?: string;
+  allRepositories?: boolean;
+  sortBy?: 'name' | 'mtime';
+  limit?: number;
+}
+
+/**
+ * A file matching the patterns
+ */
+interface FoundFile {
+  toolPath: string; // Path in format /repoId/path/to/file
+  size: number;
+  mtime: Date;
+}
+
+/**
+ * A directory tree to search
+ */
+interface SearchScope {
+  repoId: string;
+  repoRoot: string;
+  absoluteDir: string;
+  relativeDir: string; // Relative to the repository root, '' for the root
+}
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 2000;
+
+// Stop walking after looking at this many files
+const MAX_SCANNED_FILES = 100000;
+
+/**
+ * Get a path relative to a scope's directory, which is what the patterns are matched against
+ */
+function relativeToScope(scope: SearchScope, relativePath: string): string {
+  return scope.relativeDir ? relativePath.slice(scope.relativeDir.length + 1) : relativePath;
+}
+
+/**
+ * Implementation of the find files tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function findFilesImpl(params: FindFilesParams): Promise<CallToolResult> {
+  const { patterns, allRepositories = false, sortBy = 'name', limit = DEFAULT_LIMIT } = params;
+
+  try {
+    const includes = patterns.filter(pattern => !pattern.startsWith('!'));
+    const excludes = patterns
+      .filter(pattern => pattern.startsWith('!'))
+      .map(pattern => pattern.slice(1));
+    if (includes.length === 0) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: 'At least one pattern without "!" is required, e.g. ["**/*.ts", "!**/*.d.ts"]',
+          },
+        ],
+      };
+    }
+    if (allRepositories && params.directory) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Pass either directory or allRepositories, not both',
+          },
+        ],
+      };
+    }
+
+    // A bare /repoId means the repository root
+    let directory = params.directory || `/${repoManager.defaultRepoId}/`;
+    if (/^\/[^/]+$/.test(directory)) {
+      directory = `${directory}/`;
+    }
+
+    const scopes: SearchScope[] = [];
+    if (allRepositories) {
+      for (const repo of repoManager.getAllRepositories()) {
+        scopes.push({
+          repoId: repo.id,
+          repoRoot: repo.path,
+          absoluteDir: repo.path,
+          relativeDir: '',
+        });
+      }
+    } else {
+      const pathValidation = validatePathForTool(directory, 'find-files');
+      if (!pathValidation.isValid) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text' as const,
+              text: pathValidation.errorMessage || 'Invalid directory path format',
+            },
+          ],
+        };
+      }
+
+      const { repoId, relativePath } = parsePathFormat(directory);
+      const absoluteDir = resolveToAbsolutePath(directory);
+      const stats = await fs.stat(absoluteDir).catch(() => undefined);
+      if (!stats?.isDirectory()) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text' as const,
+              text: `Directory does not exist: ${directory}`,
+            },
+          ],
+        };
+      }
+      scopes.push({
+        repoId,
+        repoRoot: repoManager.getRepository(repoId)!.path,
+        absoluteDir,
+        relativeDir: relativePath.replace(/^\/+|\/+$/g, ''),
+      });
+    }
+
+    const found: FoundFile[] = [];
+    let scanned = 0;
+
+    for (const scope of scopes) {
+      const walker = new FileWalker(scope.repoRoot);
+      const isExcluded = (relativePath: string): boolean =>
+        excludes.some(pattern => matchesGlob(relativeToScope(scope, relativePath), pattern));
+
+      const entries = walker.walk(scope.absoluteDir, {
+        filterDirectory: entry => !isExcluded(entry.relativePath),
+      });
+      for await (const entry of entries) {
+        if (++scanned > MAX_SCANNED_FILES) {
+          break;
+        }
+        const scopedPath = relativeToScope(scope, entry.relativePath);
+        if (
+          !includes.some(pattern => matchesGlob(scopedPath, pattern)) ||
+          isExcluded(entry.relativePath)
+        ) {
+          continue;
+        }
+
+        const stats = await fs.stat(entry.absolutePath).catch(() => undefined);
+        if (stats) {
+          found.push({
+            toolPath: `/${scope.repoId}/${entry.relativePath}`,
+            size: stats.size,
+            mtime: stats.mtime,
+          });
+        }
+      }
+    }
+
+    found.sort((a, b) =>
+      sortBy === 'mtime'
+        ? b.mtime.getTime() - a.mtime.getTime()
+        : a.toolPath.localeCompare(b.toolPath)
+    );
+    const shown = found.slice(0, limit);
+
+    const where = allRepositories ? 'all repositories' : directory;
+    const order = sortBy === 'mtime' ? 'newest first' : 'sorted by path';
+    const lines = [
+      `${found.length} ${found.length === 1 ? 'file' : 'files'} matching ${patterns.join(' ')} in ${where}${found.length > 0 ? ` (${order})` : ''}`,
+      ...shown.map(file => `${file.toolPath}  ${file.size} bytes  ${file.mtime.toISOString()}`),
+    ];
+    if (found.length > shown.length) {
+      lines.push(
+        `Showing ${shown.length} of ${found.length}; narrow the patterns or raise limit to see more.`
+      );
+    }
+    if (scanned > MAX_SCANNED_FILES) {
+      lines.push(
+        `Stopped after looking at ${MAX_SCANNED_FILES} files; search a smaller directory for complete results.`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in findFiles tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error finding files: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedFindFilesWrapper = (
+  params: FindFilesParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return findFilesImpl(params);
+};
+
+/**
+ * Register the find files tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerFindFilesTool(server: McpServer): void {
+  server.tool(
+    'find-files', // Tool name
+    'Find files by name or path glob (e.g. "**/*.test.ts", "src/**/index.{ts,js}"), relative to a directory in format /repoId/path/to/dir or across all repositories. Patterns starting with "!" exclude matches (e.g. "!**/fixtures/**"). Returns paths with size and modification time, sorted by path or newest first. Files ignored by .gitignore, dependencies and build output are skipped. Use search-files to search file contents.', // Description
+    {
+      patterns: z
+        .array(z.string())
+        .min(1)
+        .describe(
+          'REQUIRED: Glob patterns relative to the directory; patterns without "/" match at any depth, "!" excludes'
+        ),
+      directory: z
+        .string()
+        .optional()
+        .describe(
+          'Directory to search in format /repoId/path/to/dir (default: root of the default repository)'
+        ),
+      allRepositories: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Search every repository from its root instead of one directory'),
+      sortBy: z
+        .enum(['name', 'mtime'])
+        .optional()
+        .default('name')
+        .describe('Sort by path ("name") or newest modification time first ("mtime")'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_LIMIT)
+        .optional()
+        .default(DEFAULT_LIMIT)
+        .describe(`Maximum number of files to return (default: ${DEFAULT_LIMIT})`),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedFindFilesWrapper
+  );
+}
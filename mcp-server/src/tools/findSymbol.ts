@@ -0,0 +1,163 @@
+/**
+ * Find Symbol Tool
+ * Finds functions, classes and other declarations by name across repositories or in one module
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { symbolIndex } from '../symbols/symbolIndex.js';
+import { SYMBOL_KINDS, SymbolKind } from '../symbols/symbolTypes.js';
+import { moduleManager } from '../utils/moduleManager.js';
+import { repoManager } from '../utils/repoManager.js';
+import { getServerConfig } from '../utils/serverConfig.js';
+
+/**
+ * Interface for find symbol parameters
+ */
+export interface FindSymbolParams {
+  query: string;
+  kind?: SymbolKind;
+  repoId?: string;
+  moduleName?: string;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * Implementation of the find symbol tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function findSymbolImpl(params: FindSymbolParams): Promise<CallToolResult> {
+  const { query, kind, repoId, moduleName, limit = DEFAULT_LIMIT } = params;
+
+  try {
+    if (repoId && !repoManager.getRepository(repoId)) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Repository not found: ${repoId}. Use get-repositories to list the available repositories.`,
+          },
+        ],
+      };
+    }
+    const module = moduleName ? moduleManager.findModule(moduleName, repoId) : undefined;
+    if (moduleName && !module) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Module not found: '${moduleName}'${repoId ? ` in repository ${repoId}` : ''}. Use list-modules to see the detected modules.`,
+          },
+        ],
+      };
+    }
+
+    // Stop scanning when the time is up and report what is known so far
+    const { searchTimeout } = getServerConfig().limits;
+    const signal = AbortSignal.timeout(searchTimeout * 1000);
+    const { matches, complete } = await symbolIndex.findSymbols(
+      query.trim(),
+      { repoId, module, kind },
+      signal
+    );
+
+    const where = module
+      ? `module ${module.name} (/${module.repoId}/${module.path})`
+      : repoId
+        ? `repository ${repoId}`
+        : 'all repositories';
+    const lines: string[] = [];
+    if (matches.length === 0) {
+      lines.push(`No ${kind ?? 'symbol'} matching "${query}" in ${where}`);
+    } else {
+      const shown = matches.slice(0, limit);
+      lines.push(
+        `${matches.length} ${matches.length === 1 ? 'symbol' : 'symbols'} matching "${query}" in ${where}${matches.length > shown.length ? ` (best ${shown.length} shown)` : ''}:`,
+        '',
+        ...shown.map(match => {
+          const name = match.container ? `${match.container}.${match.name}` : match.name;
+          return `${match.kind} ${name}  /${match.repoId}/${match.filePath}:${match.startLine}-${match.endLine}`;
+        }),
+        '',
+        'Use read-file with startLine and endLine to read a symbol.'
+      );
+    }
+    if (!complete) {
+      lines.push(
+        `Scanning for symbols timed out after ${searchTimeout}s, so these results are incomplete. Repeat the query to continue, or pass moduleName.`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in findSymbol tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error finding symbols: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedFindSymbolWrapper = (
+  params: FindSymbolParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return findSymbolImpl(params);
+};
+
+/**
+ * Register the find symbol tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerFindSymbolTool(server: McpServer): void {
+  server.tool(
+    'find-symbol', // Tool name
+    'Finds functions, classes, interfaces, types, methods and constants by name, with the file and line range of each declaration. Matching is fuzzy: exact names rank first, then prefixes, initials ("os" for OrderService) and substrings; "Class.method" finds a method of a class. Reads TypeScript, JavaScript, Python, Go, Rust and Swift. Much cheaper than searching and reading whole files when you know what you are looking for.', // Description
+    {
+      query: z
+        .string()
+        .min(1)
+        .describe(
+          'REQUIRED: Symbol name or part of it, e.g. "OrderService" or "OrderService.submit"'
+        ),
+      kind: z.enum(SYMBOL_KINDS).optional().describe('Only find symbols of this kind'),
+      repoId: z.string().optional().describe('Only search this repository'),
+      moduleName: z
+        .string()
+        .optional()
+        .describe('Only search this module (ID, name or path as shown by list-modules)'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_LIMIT)
+        .optional()
+        .describe(`Maximum number of symbols to return (default ${DEFAULT_LIMIT})`),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedFindSymbolWrapper
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Index Status Tool
+ * Reports how much of each repository the search index covers and how current it is
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import { z } from 'zod';
+
+import { indexManager, IndexStatus } from '../search/indexManager.js';
+import { repoManager } from '../utils/repoManager.js';
+import { formatSizeLimit, getServerConfig } from '../utils/serverConfig.js';
+
+/**
+ * Interface for index status parameters
+ */
+export interface IndexStatusParams {
+  repoId?: string;
+}
+
+/**
+ * Format a time with how long ago it was, e.g. 2026-01-05T10:00:00.000Z (3m ago)
+ */
+function formatTime(time: Date | undefined, now: number): string {
+  if (!time) {
+    return 'never';
+  }
+  const seconds = Math.max(0, Math.round((now - time.getTime()) / 1000));
+  const ago =
+    seconds < 60
+      ? `${seconds}s`
+      : seconds < 3600
+        ? `${Math.floor(seconds / 60)}m`
+        : `${Math.floor(seconds / 3600)}h`;
+  return `${time.toISOString()} (${ago} ago)`;
+}
+
+/**
+ * Format one repository's index status
+ */
+async function formatStatus(status: IndexStatus, now: number): Promise<string> {
+  const cacheSize = await fs
+    .stat(status.cacheFile)
+    .then(stats => formatSizeLimit(stats.size))
+    .catch(() => 'not saved yet');
+  const skipped = status.files - status.indexed;
+  const maxFileSize = formatSizeLimit(getServerConfig().limits.maxFileSize);
+
+  const lines = [
+    `${status.repoId}: ${status.state}`,
+    `  Files: ${status.files} (${status.indexed} indexed, ${skipped} binary or larger than ${maxFileSize})`,
+    `  Trigrams: ${status.trigrams}`,
+    `  Last full scan: ${formatTime(status.lastFullScan, now)}`,
+    `  Last refresh: ${formatTime(status.lastRefresh, now)}`,
+    status.watched
+      ? `  Pending changes: ${status.pendingChanges} (re-read before the next search)`
+      : '  Pending changes: unknown, as changes are not watched; every file is checked before each search',
+    `  Cache file: ${status.cacheFile} (${cacheSize})`,
+  ];
+  if (status.error) {
+    lines.push(`  Error: ${status.error}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Implementation of the index status tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function indexStatusImpl(params: IndexStatusParams): Promise<CallToolResult> {
+  const { repoId } = params;
+
+  try {
+    if (!indexManager.isEnabled()) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Search indexing is disabled (index.enabled is false in the config file); search-files reads every file.',
+          },
+        ],
+      };
+    }
+    if (repoId && !repoManager.getRepository(repoId)) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Repository not found: ${repoId}. Use get-repositories to list the available repositories.`,
+          },
+        ],
+      };
+    }
+
+    const now = Date.now();
+    const statuses = await Promise.all(
+      indexManager.getStatus(repoId).map(status => formatStatus(status, now))
+    );
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Search index (${indexManager.getCacheDir()}):\n\n${statuses.join('\n\n')}`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in indexStatus tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error reading index status: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedIndexStatusWrapper = (
+  params: IndexStatusParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return indexStatusImpl(params);
+};
+
+/**
+ * Register the index status tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerIndexStatusTool(server: McpServer): void {
+  server.tool(
+    'index-status', // Tool name
+    'Reports the search index of each repository: whether it is built, how many files it covers, when it was last refreshed and how many changes are waiting to be re-read. search-files uses the index to read only files that can match; while it is being built, searches read every file.', // Description
+    {
+      repoId: z.string().optional().describe('Only report this repository'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedIndexStatusWrapper
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Insert Lines Tool
+ * Inserts new lines into an existing file at a given line number
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { changeJournal } from '../utils/changeJournal.js';
+import { writeFileTracked } from '../utils/fileWriter.js';
+import {
+  formatNumberedExcerpt,
+  joinLines,
+  readLineDocument,
+  splitTextLines,
+} from '../utils/lineEditor.js';
+import { resolveToAbsolutePath, validatePathForTool } from '../utils/path-handler.js';
+import { validateWriteAccess } from '../utils/writePolicy.js';
+
+/**
+ * Interface for insert lines parameters
+ */
+export interface InsertLinesParams {
+  path: string;
+  line: number;
+  content: string;
+  repoId?: string;
+}
+
+/**
+ * Implementation of the insert lines tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function insertLinesImpl(params: InsertLinesParams): Promise<CallToolResult> {
+  const { path: filePath, line, content } = params;
+
+  try {
+    // Validate the path format
+    const pathValidation = validatePathForTool(filePath, 'insert-lines');
+    if (!pathValidation.isValid) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: pathValidation.errorMessage || 'Invalid path format',
+          },
+        ],
+      };
+    }
+
+    // Enforce the repository's write policy
+    const writeAccess = validateWriteAccess(filePath);
+    if (!writeAccess.isAllowed) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: writeAccess.errorMessage || 'Write not allowed by repository policy',
+          },
+        ],
+      };
+    }
+
+    const absoluteFilePath = resolveToAbsolutePath(filePath);
+    const doc = await readLineDocument(absoluteFilePath);
+
+    // Lines are inserted before the given line; totalLines + 1 appends to the end
+    if (!Number.isInteger(line) || line < 1 || line > doc.lines.length + 1) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Invalid line ${line}: must be between 1 and ${doc.lines.length + 1} for '${filePath}' (${doc.lines.length} lines)`,
+          },
+        ],
+      };
+    }
+
+    const newLines = splitTextLines(content);
+    if (newLines.length === 0) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Nothing to insert: content is empty',
+          },
+        ],
+      };
+    }
+
+    // Appending to a file that had no lines gives it a conventional trailing newline
+    if (doc.lines.length === 0) {
+      doc.trailingNewline = true;
+    }
+    doc.lines.splice(line - 1, 0, ...newLines);
+
+    const changes = await writeFileTracked(filePath, absoluteFilePath, joinLines(doc));
+    changeJournal.record('insert-lines', changes);
+
+    const lastInserted = line + newLines.length - 1;
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Inserted ${newLines.length} line(s) at line ${line} in '${filePath}':\n${formatNumberedExcerpt(doc.lines, line, lastInserted)}`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in insertLines tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error inserting lines: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedInsertLinesWrapper = (
+  params: InsertLinesParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return insertLinesImpl(params);
+};
+
+/**
+ * Register the insert lines tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerInsertLinesTool(server: McpServer): void {
+  server.tool(
+    'insert-lines', // Tool name
+    'Inserts lines into an existing file before the given line number. REQUIRES absolute path format: /repoId/path/to/file. Use line = total lines + 1 to append. Returns a numbered excerpt around the inserted lines.', // Description
+    {
+      path: z.string().describe('REQUIRED: Target file path in format: /repoId/path/to/file'),
+      line: z
+        .number()
+        .int()
+        .describe('REQUIRED: 1-based line number to insert before (total lines + 1 appends)'),
+      content: z.string().describe('REQUIRED: Lines to insert, separated by newlines'),
+      repoId: z
+        .string()
+        .optional()
+        .describe('Repository ID to target - derived from path if not provided'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedInsertLinesWrapper
+  );
+}
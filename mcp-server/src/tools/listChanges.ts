@@ -0,0 +1,189 @@
+/**
+ * List Changes Tool
+ * Shows the changes made by file tools during this session, with per-file diffs
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import {
+  changeJournal,
+  JournalChange,
+  JournalEntry,
+  MAX_JOURNAL_BYTES,
+} from '../utils/changeJournal.js';
+import { formatSizeLimit } from '../utils/serverConfig.js';
+import { createUnifiedDiff } from '../utils/unifiedDiff.js';
+
+/**
+ * Interface for list changes parameters
+ */
+export interface ListChangesParams {
+  limit?: number;
+  includeDiffs?: boolean;
+}
+
+// Diffs longer than this are truncated to keep responses small
+const MAX_DIFF_LINES = 200;
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200; // The journal keeps no more entries than this
+
+/**
+ * Format a single journal change, optionally with its diff
+ * @param change Journal change
+ * @param includeDiff Whether to include a unified diff for file changes
+ * @returns Formatted text
+ */
+function formatChange(change: JournalChange, includeDiff: boolean): string {
+  if (change.type === 'directory') {
+    return `  A ${change.toolPath}/ (directory)`;
+  }
+  if (change.type === 'move') {
+    return `  R ${change.toolPath} -> ${change.targetToolPath}`;
+  }
+
+  const status = change.before === null ? 'A' : change.after === null ? 'D' : 'M';
+  const header = `  ${status} ${change.toolPath}`;
+  if (!includeDiff) {
+    return header;
+  }
+
+  const before = change.before || Buffer.alloc(0);
+  const after = change.after || Buffer.alloc(0);
+  if (before.includes(0) || after.includes(0)) {
+    return `${header}\n  (binary content, ${before.length} -> ${after.length} bytes)`;
+  }
+
+  const diff = createUnifiedDiff(
+    before.toString('utf-8'),
+    after.toString('utf-8'),
+    change.before === null ? '/dev/null' : change.toolPath,
+    change.after === null ? '/dev/null' : change.toolPath
+  );
+  if (!diff) {
+    return `${header}\n  (no line changes)`;
+  }
+
+  const diffLines = diff.split('\n');
+  const shown = diffLines.slice(0, MAX_DIFF_LINES).join('\n');
+  const truncated =
+    diffLines.length > MAX_DIFF_LINES
+      ? `\n... ${diffLines.length - MAX_DIFF_LINES} more diff line(s) truncated`
+      : '';
+  return `${header}\n\`\`\`diff\n${shown}${truncated}\n\`\`\``;
+}
+
+/**
+ * Format a journal entry
+ * @param entry Journal entry
+ * @param includeDiffs Whether to include diffs
+ * @returns Formatted text
+ */
+export function formatJournalEntry(entry: JournalEntry, includeDiffs: boolean): string {
+  const status = entry.undone
+    ? ' [undone]'
+    : entry.released
+      ? ' [contents released, cannot be undone]'
+      : '';
+  const lines = [`Change #${entry.id}: ${entry.tool} at ${entry.timestamp}${status}`];
+  for (const change of entry.changes) {
+    lines.push(formatChange(change, includeDiffs && !entry.released));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Implementation of the list changes tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function listChangesImpl(params: ListChangesParams): Promise<CallToolResult> {
+  const { limit = DEFAULT_LIMIT, includeDiffs = true } = params;
+
+  try {
+    const entries = changeJournal.getEntries();
+    if (entries.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'No changes have been made in this session.',
+          },
+        ],
+      };
+    }
+
+    // Most recent first
+    const shown = entries.slice(-limit).reverse();
+    const text = shown.map(entry => formatJournalEntry(entry, includeDiffs)).join('\n\n');
+    const hidden = entries.length - shown.length;
+    const released = entries.filter(entry => entry.released).length;
+    const footer = [
+      hidden > 0 ? `(${hidden} older change(s) not shown)` : '',
+      `Undo history holds ${formatSizeLimit(changeJournal.getImageBytes())} of file contents (at most ${formatSizeLimit(MAX_JOURNAL_BYTES)}).` +
+        (released > 0
+          ? ` The contents of ${released} older change(s) were released to stay within it, so they cannot be undone.`
+          : ''),
+    ].filter(Boolean);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `${text}\n\n${footer.join('\n')}`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in listChanges tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error listing changes: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedListChangesWrapper = (
+  params: ListChangesParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return listChangesImpl(params);
+};
+
+/**
+ * Register the list changes tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerListChangesTool(server: McpServer): void {
+  server.tool(
+    'list-changes', // Tool name
+    'Lists the file changes made by tools in this session, most recent first, with unified diffs. Use the change numbers with undo-change.', // Description
+    {
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_LIMIT)
+        .optional()
+        .default(DEFAULT_LIMIT)
+        .describe(`Maximum number of changes to show (default ${DEFAULT_LIMIT})`),
+      includeDiffs: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe('Include a unified diff for each changed file'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedListChangesWrapper
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * List Modules Tool
+ * Lists the modules detected in the registered repositories
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { formatModuleList } from '../utils/moduleDescriber.js';
+import { ModuleInfo, moduleManager, ModuleType } from '../utils/moduleManager.js';
+import { repoManager } from '../utils/repoManager.js';
+
+/**
+ * Interface for list modules parameters
+ */
+export interface ListModulesParams {
+  repoId?: string;
+  type?: ModuleType;
+  language?: string;
+}
+
+// Module types accepted by the type filter
+const MODULE_TYPES: [ModuleType, ...ModuleType[]] = [
+  'api',
+  'service',
+  'web',
+  'library',
+  'static-site',
+  'utility',
+  'docs',
+  'config',
+  'unknown',
+];
+
+/**
+ * Implementation of the list modules tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function listModulesImpl(params: ListModulesParams): Promise<CallToolResult> {
+  const { repoId, type, language } = params;
+
+  try {
+    if (repoId && !repoManager.getRepository(repoId)) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Repository not found: ${repoId}. Use get-repositories to list the available repositories.`,
+          },
+        ],
+      };
+    }
+
+    const matches = (module: ModuleInfo): boolean =>
+      (!type || module.type === type) &&
+      (!language || module.language.toLowerCase() === language.toLowerCase());
+
+    const modulesByRepo: Record<string, ModuleInfo[]> = {};
+    for (const [moduleRepoId, modules] of Object.entries(moduleManager.getAllModulesByRepo())) {
+      if (!repoId || moduleRepoId === repoId) {
+        modulesByRepo[moduleRepoId] = modules.filter(matches);
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `${formatModuleList(modulesByRepo)}\n\nUse describe-module for details. A module's path (without the /repoId/ prefix) is its moduleName for repo-tree.`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in listModules tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error listing modules: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedListModulesWrapper = (
+  params: ListModulesParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return listModulesImpl(params);
+};
+
+/**
+ * Register the list modules tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerListModulesTool(server: McpServer): void {
+  server.tool(
+    'list-modules', // Tool name
+    'Lists the modules (packages, services, sites, utility directories) detected in the repositories, with their ID, name, type, language and path. Optionally filtered by repository, type or language.', // Description
+    {
+      repoId: z.string().optional().describe('Only list modules in this repository'),
+      type: z.enum(MODULE_TYPES).optional().describe('Only list modules of this type'),
+      language: z
+        .string()
+        .optional()
+        .describe('Only list modules in this language (e.g., "typescript", "python")'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedListModulesWrapper
+  );
+}
@@ -0,0 +1,242 @@
+/**
+ * List Symbols Tool
+ * Lists the declarations in a file, a directory or a module, as an outline with line ranges
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import { z } from 'zod';
+
+import { FileSymbolList, symbolIndex } from '../symbols/symbolIndex.js';
+import { SYMBOL_KINDS, SymbolKind } from '../symbols/symbolTypes.js';
+import { moduleManager } from '../utils/moduleManager.js';
+import {
+  parsePathFormat,
+  resolveToAbsolutePath,
+  validatePathForTool,
+} from '../utils/path-handler.js';
+import { getServerConfig } from '../utils/serverConfig.js';
+
+/**
+ * Interface for list symbols parameters
+ */
+export interface ListSymbolsParams {
+  path?: string;
+  moduleName?: string;
+  repoId?: string;
+  kind?: SymbolKind;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+
+/**
+ * Format one file's symbols as an outline
+ * Members are indented below their class, struct or trait when it is listed too.
+ *
+ * @param file File and its symbols
+ * @param symbolLimit Maximum number of symbols to format
+ * @returns Lines of the outline
+ */
+function formatFileSymbols(file: FileSymbolList, symbolLimit: number): string[] {
+  const lines = [`/${file.repoId}/${file.filePath}`];
+  const listed = new Set<string>();
+
+  for (const symbol of file.symbols.slice(0, symbolLimit)) {
+    const isMember = !!symbol.container && listed.has(symbol.container);
+    const name = symbol.container && !isMember ? `${symbol.container}.${symbol.name}` : symbol.name;
+    lines.push(
+      `${isMember ? '    ' : '  '}${symbol.kind} ${name}  ${symbol.startLine}-${symbol.endLine}`
+    );
+    listed.add(symbol.name);
+  }
+  return lines;
+}
+
+/**
+ * Implementation of the list symbols tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function listSymbolsImpl(params: ListSymbolsParams): Promise<CallToolResult> {
+  const { moduleName, repoId, kind, limit = DEFAULT_LIMIT } = params;
+
+  try {
+    if (!params.path === !moduleName) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: 'Pass either path (a file or directory) or moduleName',
+          },
+        ],
+      };
+    }
+
+    let target: { repoId: string; relativePath: string; label: string };
+    if (moduleName) {
+      const module = moduleManager.findModule(moduleName, repoId);
+      if (!module?.repoId) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text' as const,
+              text: `Module not found: '${moduleName}'${repoId ? ` in repository ${repoId}` : ''}. Use list-modules to see the detected modules.`,
+            },
+          ],
+        };
+      }
+      target = {
+        repoId: module.repoId,
+        relativePath: module.path,
+        label: `module ${module.name} (/${module.repoId}/${module.path})`,
+      };
+    } else {
+      // A bare /repoId means the repository root
+      let symbolPath = params.path!;
+      if (/^\/[^/]+$/.test(symbolPath)) {
+        symbolPath = `${symbolPath}/`;
+      }
+      const pathValidation = validatePathForTool(symbolPath, 'list-symbols');
+      if (!pathValidation.isValid) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text' as const,
+              text: pathValidation.errorMessage || 'Invalid path format',
+            },
+          ],
+        };
+      }
+      const stats = await fs.stat(resolveToAbsolutePath(symbolPath)).catch(() => undefined);
+      if (!stats) {
+        return {
+          isError: true,
+          content: [
+            {
+              type: 'text' as const,
+              text: `Path does not exist: ${symbolPath}`,
+            },
+          ],
+        };
+      }
+      const parsed = parsePathFormat(symbolPath);
+      target = {
+        repoId: parsed.repoId,
+        relativePath: parsed.relativePath.replace(/^\/+|\/+$/g, ''),
+        label: symbolPath,
+      };
+    }
+
+    // Stop scanning when the time is up and report what is known so far
+    const { searchTimeout } = getServerConfig().limits;
+    const signal = AbortSignal.timeout(searchTimeout * 1000);
+    const { files, complete } = await symbolIndex.listSymbols(
+      target.repoId,
+      target.relativePath,
+      signal
+    );
+    const filtered = files
+      .map(file => ({
+        ...file,
+        symbols: kind ? file.symbols.filter(symbol => symbol.kind === kind) : file.symbols,
+      }))
+      .filter(file => file.symbols.length > 0);
+
+    const total = filtered.reduce((sum, file) => sum + file.symbols.length, 0);
+    const lines: string[] = [];
+    if (total === 0) {
+      lines.push(`No symbols${kind ? ` of kind ${kind}` : ''} found in ${target.label}`);
+    } else {
+      lines.push(
+        `${total} ${total === 1 ? 'symbol' : 'symbols'} in ${filtered.length} ${filtered.length === 1 ? 'file' : 'files'} of ${target.label}:`
+      );
+      let remaining = limit;
+      for (const file of filtered) {
+        if (remaining <= 0) {
+          break;
+        }
+        lines.push('', ...formatFileSymbols(file, remaining));
+        remaining -= file.symbols.length;
+      }
+      if (total > limit) {
+        lines.push(
+          '',
+          `${total - limit} more ${total - limit === 1 ? 'symbol' : 'symbols'} not shown. List a smaller directory, filter by kind or raise limit.`
+        );
+      }
+    }
+    if (!complete) {
+      lines.push(
+        `Scanning for symbols timed out after ${searchTimeout}s, so this list is incomplete. Repeat the request to continue, or list a smaller directory.`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in listSymbols tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error listing symbols: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedListSymbolsWrapper = (
+  params: ListSymbolsParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return listSymbolsImpl(params);
+};
+
+/**
+ * Register the list symbols tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerListSymbolsTool(server: McpServer): void {
+  server.tool(
+    'list-symbols', // Tool name
+    'Lists the functions, classes, interfaces, types, methods and constants declared in a file, a directory or a module, as an outline with the line range of each. Reads TypeScript, JavaScript, Python, Go, Rust and Swift. Use it to see how a file or module is organised before reading only the parts you need.', // Description
+    {
+      path: z
+        .string()
+        .optional()
+        .describe('File or directory in format /repoId/path/to/dir; pass this or moduleName'),
+      moduleName: z
+        .string()
+        .optional()
+        .describe('Module ID, name or path as shown by list-modules; pass this or path'),
+      repoId: z.string().optional().describe('Repository of moduleName, if the name is ambiguous'),
+      kind: z.enum(SYMBOL_KINDS).optional().describe('Only list symbols of this kind'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_LIMIT)
+        .optional()
+        .describe(`Maximum number of symbols to return (default ${DEFAULT_LIMIT})`),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedListSymbolsWrapper
+  );
+}
@@ -0,0 +1,190 @@
+/**
+ * Move Path Tool
+ * Moves or renames a file or directory, optionally across repositories
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+import { changeJournal, JournalChange } from '../utils/changeJournal.js';
+import { movePathTracked } from '../utils/fileWriter.js';
+import {
+  isRepositoryRoot,
+  parsePathFormat,
+  resolveToAbsolutePath,
+  validatePathForTool,
+} from '../utils/path-handler.js';
+import { isInTrash, moveToTrashTracked, TRASH_DIRECTORY } from '../utils/trash.js';
+import { validateTreeWriteAccess } from '../utils/writePolicy.js';
+
+/**
+ * Interface for move path parameters
+ */
+export interface MovePathParams {
+  source: string;
+  destination: string;
+  overwrite?: boolean;
+  allowCrossRepository?: boolean;
+}
+
+/**
+ * Create an error result
+ */
+function errorResult(text: string): CallToolResult {
+  return {
+    isError: true,
+    content: [
+      {
+        type: 'text' as const,
+        text,
+      },
+    ],
+  };
+}
+
+/**
+ * Check whether an absolute path is the same as or inside another
+ */
+function isSameOrInside(candidate: string, parent: string): boolean {
+  const relative = path.relative(parent, candidate);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Implementation of the move path tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function movePathImpl(params: MovePathParams): Promise<CallToolResult> {
+  const { source, destination, overwrite = false, allowCrossRepository = false } = params;
+
+  try {
+    // Validate both path formats
+    for (const toolPath of [source, destination]) {
+      const pathValidation = validatePathForTool(toolPath, 'move-path');
+      if (!pathValidation.isValid) {
+        return errorResult(pathValidation.errorMessage || 'Invalid path format');
+      }
+      if (isRepositoryRoot(toolPath)) {
+        return errorResult(`Cannot move '${toolPath}': it is the repository root.`);
+      }
+    }
+
+    const sourceInfo = parsePathFormat(source);
+    const destinationInfo = parsePathFormat(destination);
+    if (sourceInfo.repoId !== destinationInfo.repoId && !allowCrossRepository) {
+      return errorResult(
+        `CROSS-REPOSITORY MOVE: '${source}' and '${destination}' are in different repositories. Set allowCrossRepository to true to move between repositories.`
+      );
+    }
+    if (isInTrash(destinationInfo.relativePath)) {
+      return errorResult(
+        `Cannot move into ${TRASH_DIRECTORY}: use delete-path to delete '${source}' instead.`
+      );
+    }
+
+    const sourcePath = resolveToAbsolutePath(source);
+    const destinationPath = resolveToAbsolutePath(destination);
+    const sourceStats = await fs.lstat(sourcePath);
+
+    if (isSameOrInside(destinationPath, sourcePath)) {
+      return errorResult(
+        `Cannot move '${source}' to '${destination}': the destination is the source or inside it.`
+      );
+    }
+
+    // Enforce write policies; moving out of the trash only needs the destination to be writable
+    const accessChecks = [validateTreeWriteAccess(destination, sourcePath)];
+    if (!isInTrash(sourceInfo.relativePath)) {
+      accessChecks.push(validateTreeWriteAccess(source, sourcePath));
+    }
+    const destinationExists = existsSync(destinationPath);
+    if (destinationExists) {
+      if (!overwrite) {
+        return errorResult(
+          `Destination '${destination}' already exists. Set overwrite to true to replace it (the existing item is moved to the trash).`
+        );
+      }
+      accessChecks.push(validateTreeWriteAccess(destination, destinationPath));
+    }
+    for (const writeAccess of await Promise.all(accessChecks)) {
+      if (!writeAccess.isAllowed) {
+        return errorResult(writeAccess.errorMessage || 'Write not allowed by repository policy');
+      }
+    }
+
+    // Record whatever was done, even if a later step fails
+    const changes: JournalChange[] = [];
+    let replacedTrashPath: string | undefined;
+    try {
+      if (destinationExists) {
+        const trashed = await moveToTrashTracked(destination, destinationPath);
+        changes.push(...trashed.changes);
+        replacedTrashPath = trashed.trashPath;
+      }
+      changes.push(...(await movePathTracked(source, sourcePath, destination, destinationPath)));
+    } finally {
+      changeJournal.record('move-path', changes);
+    }
+
+    const kind = sourceStats.isDirectory() ? 'directory' : 'file';
+    const replaced = replacedTrashPath
+      ? ` The previous '${destination}' was moved to trash: '${replacedTrashPath}'.`
+      : '';
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Moved ${kind} '${source}' to '${destination}'.${replaced}`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in movePath tool:', error);
+
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return errorResult(`Path not found: '${source}'. Please check the path and try again.`);
+    }
+    return errorResult(`Error moving path: ${(error as Error).message}`);
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedMovePathWrapper = (params: MovePathParams, _extra: unknown): Promise<CallToolResult> => {
+  return movePathImpl(params);
+};
+
+/**
+ * Register the move path tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerMovePathTool(server: McpServer): void {
+  server.tool(
+    'move-path', // Tool name
+    'Moves or renames a file or directory. REQUIRES absolute path format: /repoId/path/to/file for both paths. Missing parent directories of the destination are created. Moving between repositories requires allowCrossRepository. Can be undone with undo-change.', // Description
+    {
+      source: z
+        .string()
+        .describe('REQUIRED: File or directory to move in format: /repoId/path/to/file'),
+      destination: z.string().describe('REQUIRED: New location in format: /repoId/path/to/file'),
+      overwrite: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Replace an existing destination, moving it to the trash first'),
+      allowCrossRepository: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Allow the destination to be in a different repository than the source'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedMovePathWrapper
+  );
+}
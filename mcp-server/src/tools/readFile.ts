@@ -5,10 +5,13 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import fs, { readFile } from 'fs/promises';
-import path from 'path';
 import { z } from 'zod';
 
+import { fenceFileContent, sniffFileContent } from '../utils/fileContent.js';
+import { computeContentHash } from '../utils/fileHash.js';
+import { formatNumberedLines, parseLines } from '../utils/lineEditor.js';
 import { resolveToAbsolutePath, validatePathForTool } from '../utils/path-handler.js';
+import { formatSizeLimit, getServerConfig } from '../utils/serverConfig.js';
 
 // Define a type for NodeJS buffer encodings
 type BufferEncoding =
@@ -36,10 +39,44 @@ interface ErrnoException extends Error {
 export interface ReadFileParams {
   path: string;
   encoding?: string;
+  startLine?: number;
+  endLine?: number;
+  lineNumbers?: boolean;
   repoId?: string;
   moduleName?: string;
 }
 
+// Number of lines returned when no endLine is given, so large files are read in pages
+export const DEFAULT_PAGE_LINES = 2000;
+
+/**
+ * Validate a requested read range against the file's line count
+ * @param startLine First line to read (1-based)
+ * @param endLine Last line to read, if given
+ * @param totalLines Number of lines in the file
+ * @returns Error message if the range is invalid, otherwise undefined
+ */
+function validateReadRange(
+  startLine: number,
+  endLine: number | undefined,
+  totalLines: number
+): string | undefined {
+  if (!Number.isInteger(startLine) || (endLine !== undefined && !Number.isInteger(endLine))) {
+    return 'Line numbers must be integers';
+  }
+  if (startLine < 1) {
+    return `startLine must be at least 1 (got ${startLine})`;
+  }
+  // An empty file can still be read from line 1
+  if (startLine > Math.max(totalLines, 1)) {
+    return `startLine (${startLine}) is beyond the end of the file (${totalLines} lines)`;
+  }
+  if (endLine !== undefined && endLine < startLine) {
+    return `endLine (${endLine}) must not be less than startLine (${startLine})`;
+  }
+  return undefined;
+}
+
 /**
  * Implementation of the file reader tool
  * This is the core functionality, separate from registration logic
@@ -49,7 +86,7 @@ export interface ReadFileParams {
  */
 export async function readFileImpl(params: ReadFileParams): Promise<CallToolResult> {
   // We use repoId and moduleName implicitly through the resolveToAbsolutePath function
-  const { path: filePath, encoding = 'utf-8' } = params;
+  const { path: filePath, encoding, startLine = 1, endLine, lineNumbers = false } = params;
 
   try {
     // Validate the path format
@@ -84,76 +121,99 @@ export async function readFileImpl(params: ReadFileParams): Promise<CallToolResu
     }
 
     // Check file size before reading
-    if (stats.size > 10 * 1024 * 1024) {
-      // 10MB limit
+    const { maxFileSize } = getServerConfig().limits;
+    if (stats.size > maxFileSize) {
       return {
         isError: true,
         content: [
           {
             type: 'text' as const,
-            text: `File is too large (${(stats.size / (1024 * 1024)).toFixed(2)}MB). Maximum size is 10MB.`,
+            text: `File is too large (${(stats.size / (1024 * 1024)).toFixed(2)}MB). Maximum size is ${formatSizeLimit(maxFileSize)}.`,
+          },
+        ],
+      };
+    }
+
+    // Read raw bytes so the content hash matches what is on disk
+    const fileContent = await readFile(absoluteFilePath);
+    const contentHash = computeContentHash(fileContent);
+    const versionInfo = `hash: ${contentHash}\nmtime: ${stats.mtime.toISOString()}`;
+
+    // An explicit encoding skips content sniffing and always decodes as text
+    const sniffed = encoding ? undefined : sniffFileContent(fileContent, absoluteFilePath);
+
+    // Images are returned as image content so the model can see them
+    if (sniffed?.kind === 'image') {
+      return {
+        content: [
+          {
+            type: 'image' as const,
+            data: fileContent.toString('base64'),
+            mimeType: sniffed.mimeType,
+          },
+          {
+            type: 'text' as const,
+            text: `image: ${sniffed.mimeType}, ${stats.size} bytes\n${versionInfo}`,
+          },
+        ],
+      };
+    }
+
+    // Other binaries get a summary instead of undecodable bytes
+    if (sniffed?.kind === 'binary') {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `'${filePath}' is a binary file (${sniffed.description}, ${stats.size} bytes); contents not shown.\n${versionInfo}`,
           },
         ],
       };
     }
 
-    // Read file contents
-    const fileContent = await readFile(
-      absoluteFilePath,
-      encoding ? { encoding: encoding as BufferEncoding } : undefined
-    );
-
-    // Determine file type for output formatting
-    const fileExt = path.extname(absoluteFilePath).toLowerCase();
-    const isCode = [
-      '.js',
-      '.ts',
-      '.jsx',
-      '.tsx',
-      '.py',
-      '.java',
-      '.go',
-      '.sh',
-      '.c',
-      '.cpp',
-      '.cs',
-      '.php',
-      '.rb',
-      '.rs',
-      '.swift',
-      '.kt',
-      '.json',
-      '.yml',
-      '.yaml',
-      '.toml',
-      '.xml',
-      '.html',
-      '.css',
-      '.scss',
-      '.less',
-      '.sql',
-    ].includes(fileExt);
-    const isMarkdown = ['.md', '.markdown'].includes(fileExt);
-
-    // Ensure text is always returned as string
-    let text: string;
-    if (typeof fileContent === 'string') {
-      text = fileContent;
-    } else if (Buffer.isBuffer(fileContent)) {
-      text = fileContent.toString((encoding as BufferEncoding) || 'utf-8');
-    } else {
-      // Handle any other type more explicitly
-      text = String(fileContent || '');
+    // Decode using the detected or requested encoding
+    const decoded =
+      sniffed?.kind === 'text' ? sniffed.text : fileContent.toString(encoding as BufferEncoding);
+    const textEncoding = sniffed?.kind === 'text' ? sniffed.encoding : encoding;
+    const lines = decoded === '' ? [] : parseLines(decoded).lines;
+    const totalLines = lines.length;
+
+    // Validate the requested line range; endLine past the end is clamped
+    const rangeError = validateReadRange(startLine, endLine, totalLines);
+    if (rangeError) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Invalid line range for '${filePath}': ${rangeError}`,
+          },
+        ],
+      };
     }
 
+    const lastLine = Math.min(totalLines, endLine ?? startLine + DEFAULT_PAGE_LINES - 1);
+    const pageLines = lines.slice(startLine - 1, lastLine);
+    const text = lineNumbers ? formatNumberedLines(pageLines, startLine) : pageLines.join('\n');
+
+    // Tell the caller where the page sits in the file and how to continue
+    const rangeInfo =
+      totalLines === 0
+        ? 'lines: 0 of 0 (file is empty)'
+        : `lines: ${startLine}-${lastLine} of ${totalLines}` +
+          (lastLine < totalLines
+            ? ` (more available: continue with startLine=${lastLine + 1})`
+            : '');
+
     return {
       content: [
         {
           type: 'text' as const,
-          text:
-            isCode || isMarkdown
-              ? `\`\`\`${isMarkdown ? 'markdown' : fileExt.slice(1)}\n${text}\n\`\`\``
-              : text,
+          text: fenceFileContent(absoluteFilePath, text),
+        },
+        {
+          type: 'text' as const,
+          text: `${rangeInfo}\nencoding: ${textEncoding}\n${versionInfo}`,
         },
       ],
     };
@@ -199,7 +259,28 @@ export function registerReadFileTool(server: McpServer): void {
     path: z
       .string()
       .describe('REQUIRED: Absolute path to the file in format: /repoId/path/to/file'),
-    encoding: z.string().optional().default('utf-8').describe('File encoding (default is utf-8)'),
+    encoding: z
+      .string()
+      .optional()
+      .describe('Text encoding to decode with - detected from the content if not provided'),
+    startLine: z
+      .number()
+      .int()
+      .optional()
+      .default(1)
+      .describe('First line to return (1-based, default 1)'),
+    endLine: z
+      .number()
+      .int()
+      .optional()
+      .describe(
+        `Last line to return (inclusive). Defaults to ${DEFAULT_PAGE_LINES} lines after startLine`
+      ),
+    lineNumbers: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe('Prefix each line with its line number ("N | text")'),
     repoId: z
       .string()
       .optional()
@@ -213,7 +294,7 @@ export function registerReadFileTool(server: McpServer): void {
   // Register the tool with the server
   server.tool(
     'read-file', // Tool name
-    'Read contents of a file in the repository. REQUIRES absolute path format: /repoId/path/to/file. Returns formatted code for recognized file types. Maximum file size: 10MB.', // Description
+    `Read contents of a file in the repository. REQUIRES absolute path format: /repoId/path/to/file. Returns formatted code for recognized file types, followed by the line range, total line count, detected encoding, content hash and modification time. Images (png, jpg, gif, webp, svg) are returned as image content; other binary files return a summary of their type and size. Reads at most ${DEFAULT_PAGE_LINES} lines at a time; use startLine/endLine to page through larger files and lineNumbers to get numbered lines for line-based edits. Maximum file size: ${formatSizeLimit(getServerConfig().limits.maxFileSize)}.`, // Description
     toolParams,
     typedReadFileWrapper
   );
@@ -0,0 +1,307 @@
+/**
+ * Batch File Reader Tool
+ * Reads several files, given as paths or globs, in one call within a total size budget
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import { z } from 'zod';
+
+import { fenceFileContent, sniffFileContent } from '../utils/fileContent.js';
+import { computeContentHash } from '../utils/fileHash.js';
+import { FileWalker } from '../utils/fileWalker.js';
+import { hasGlobSyntax, matchesGlob, normalizeGlobPath } from '../utils/glob.js';
+import { formatNumberedLines, parseLines } from '../utils/lineEditor.js';
+import {
+  parsePathFormat,
+  resolveToAbsolutePath,
+  validatePathForTool,
+} from '../utils/path-handler.js';
+import { getRepoBasePath } from '../utils/repoManager.js';
+import { formatSizeLimit, getServerConfig } from '../utils/serverConfig.js';
+
+/**
+ * Interface for read files parameters
+ */
+export interface ReadFilesParams {
+  paths: string[];
+  maxTotalBytes?: number;
+  maxTotalLines?: number;
+  maxFiles?: number;
+  lineNumbers?: boolean;
+}
+
+/**
+ * A text file loaded for the batch
+ */
+interface LoadedFile {
+  toolPath: string;
+  absolutePath: string;
+  lines: string[];
+  bytes: number;
+  hash: string;
+}
+
+const DEFAULT_MAX_TOTAL_BYTES = 200 * 1024;
+const DEFAULT_MAX_TOTAL_LINES = 5000;
+const DEFAULT_MAX_FILES = 50;
+
+// Stop expanding a glob after this many matches
+const MAX_GLOB_MATCHES = 1000;
+
+/**
+ * Expand a glob in format /repoId/pattern into the paths of matching files
+ * Only the directory below the pattern's static prefix is walked, skipping ignored files.
+ *
+ * @param pattern Glob pattern in format /repoId/src/*.ts
+ * @returns Matching file paths in format /repoId/path/to/file, in walk order
+ */
+async function expandGlob(pattern: string): Promise<string[]> {
+  const { repoId, relativePath } = parsePathFormat(pattern);
+  const relativePattern = normalizeGlobPath(relativePath);
+  const segments = relativePattern.split('/');
+  const baseRelative = segments.slice(0, segments.findIndex(hasGlobSyntax)).join('/');
+  const matches: string[] = [];
+
+  const walker = new FileWalker(getRepoBasePath(repoId));
+  for await (const entry of walker.walk(resolveToAbsolutePath(`/${repoId}/${baseRelative}`))) {
+    if (matches.length >= MAX_GLOB_MATCHES) break;
+    if (matchesGlob(entry.relativePath, `/${relativePattern}`)) {
+      matches.push(`/${repoId}/${entry.relativePath}`);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Split a budget fairly between items of different sizes
+ * Small items get everything they need; the rest is shared equally among the larger ones.
+ *
+ * @param sizes Size each item needs
+ * @param budget Total budget
+ * @returns Allowance for each item, in the same order
+ */
+function shareFairly(sizes: number[], budget: number): number[] {
+  const allowances = new Array<number>(sizes.length).fill(0);
+  const order = sizes.map((_, index) => index).sort((a, b) => sizes[a] - sizes[b]);
+
+  let remaining = budget;
+  order.forEach((index, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    allowances[index] = Math.min(sizes[index], share);
+    remaining -= allowances[index];
+  });
+  return allowances;
+}
+
+/**
+ * Implementation of the batch file reader tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function readFilesImpl(params: ReadFilesParams): Promise<CallToolResult> {
+  const {
+    paths,
+    maxTotalBytes = DEFAULT_MAX_TOTAL_BYTES,
+    maxTotalLines = DEFAULT_MAX_TOTAL_LINES,
+    maxFiles = DEFAULT_MAX_FILES,
+    lineNumbers = false,
+  } = params;
+
+  try {
+    const skipped: string[] = [];
+
+    // Expand globs, keeping the order the paths were given in
+    const filePaths: string[] = [];
+    for (const entry of paths) {
+      const pathValidation = validatePathForTool(entry, 'read-files');
+      if (!pathValidation.isValid) {
+        skipped.push(`${entry}: ${pathValidation.errorMessage || 'Invalid path format'}`);
+        continue;
+      }
+
+      const expanded = hasGlobSyntax(entry) ? await expandGlob(entry) : [entry];
+      if (expanded.length === 0) {
+        skipped.push(`${entry}: no files match`);
+      }
+      for (const filePath of expanded) {
+        if (!filePaths.includes(filePath)) {
+          filePaths.push(filePath);
+        }
+      }
+    }
+
+    if (filePaths.length > maxFiles) {
+      skipped.push(
+        ...filePaths
+          .splice(maxFiles)
+          .map(filePath => `${filePath}: over the ${maxFiles} file limit`)
+      );
+    }
+
+    // Load every file, setting aside those that cannot be shown as text
+    const { maxFileSize } = getServerConfig().limits;
+    const files: LoadedFile[] = [];
+    for (const toolPath of filePaths) {
+      try {
+        const absolutePath = resolveToAbsolutePath(toolPath);
+        const stats = await fs.stat(absolutePath);
+        if (!stats.isFile()) {
+          skipped.push(`${toolPath}: not a file`);
+          continue;
+        }
+        if (stats.size > maxFileSize) {
+          skipped.push(`${toolPath}: larger than ${formatSizeLimit(maxFileSize)}`);
+          continue;
+        }
+
+        const content = await fs.readFile(absolutePath);
+        const sniffed = sniffFileContent(content, absolutePath);
+        if (sniffed.kind === 'image') {
+          skipped.push(`${toolPath}: image (${sniffed.mimeType}), use read-file to view it`);
+          continue;
+        }
+        if (sniffed.kind === 'binary') {
+          skipped.push(`${toolPath}: binary file (${sniffed.description})`);
+          continue;
+        }
+
+        files.push({
+          toolPath,
+          absolutePath,
+          lines: sniffed.text === '' ? [] : parseLines(sniffed.text).lines,
+          bytes: Buffer.byteLength(sniffed.text),
+          hash: computeContentHash(content),
+        });
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        skipped.push(`${toolPath}: ${code === 'ENOENT' ? 'not found' : (error as Error).message}`);
+      }
+    }
+
+    // Share the byte and line budgets so one large file cannot crowd out the rest
+    const byteAllowances = shareFairly(
+      files.map(file => file.bytes),
+      maxTotalBytes
+    );
+    const lineAllowances = shareFairly(
+      files.map(file => file.lines.length),
+      maxTotalLines
+    );
+
+    const content: CallToolResult['content'] = [];
+    const truncated: string[] = [];
+    let totalBytes = 0;
+
+    files.forEach((file, index) => {
+      // Take whole lines until either allowance runs out
+      let bytes = 0;
+      let shown = 0;
+      while (shown < Math.min(file.lines.length, lineAllowances[index])) {
+        const lineBytes = Buffer.byteLength(file.lines[shown]) + 1;
+        if (bytes + lineBytes > byteAllowances[index] + 1) break;
+        bytes += lineBytes;
+        shown++;
+      }
+
+      if (shown === 0 && file.lines.length > 0) {
+        skipped.push(`${file.toolPath}: no budget left`);
+        return;
+      }
+      totalBytes += bytes;
+
+      const pageLines = file.lines.slice(0, shown);
+      const text = lineNumbers ? formatNumberedLines(pageLines, 1) : pageLines.join('\n');
+      let header = `${file.toolPath} (lines 1-${shown} of ${file.lines.length}, hash: ${file.hash})`;
+      if (shown < file.lines.length) {
+        header += ` - truncated, continue with read-file startLine=${shown + 1}`;
+        truncated.push(`${file.toolPath}: ${shown} of ${file.lines.length} lines`);
+      }
+
+      content.push({
+        type: 'text' as const,
+        text: `${header}\n${fenceFileContent(file.absolutePath, text)}`,
+      });
+    });
+
+    const summary = [
+      `Read ${content.length} file(s), ${totalBytes} bytes (budget: ${maxTotalBytes} bytes, ${maxTotalLines} lines)`,
+    ];
+    if (truncated.length > 0) {
+      summary.push(`Truncated:`, ...truncated.map(item => `  ${item}`));
+    }
+    if (skipped.length > 0) {
+      summary.push(`Skipped:`, ...skipped.map(item => `  ${item}`));
+    }
+    content.push({ type: 'text' as const, text: summary.join('\n') });
+
+    return { content };
+  } catch (error) {
+    console.error('Error in readFiles tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error reading files: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedReadFilesWrapper = (
+  params: ReadFilesParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return readFilesImpl(params);
+};
+
+/**
+ * Register the batch file reader tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerReadFilesTool(server: McpServer): void {
+  server.tool(
+    'read-files', // Tool name
+    'Reads several files in one call. Accepts file paths and globs in absolute path format: /repoId/path/to/file or /repoId/src/**/*.ts. Each file is returned with its line range and content hash; a total byte and line budget is shared fairly between the files, and truncated or skipped files are listed at the end.', // Description
+    {
+      paths: z
+        .array(z.string())
+        .min(1)
+        .describe('REQUIRED: File paths or globs in format: /repoId/path/to/file'),
+      maxTotalBytes: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(DEFAULT_MAX_TOTAL_BYTES)
+        .describe('Total bytes of file content to return across all files'),
+      maxTotalLines: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(DEFAULT_MAX_TOTAL_LINES)
+        .describe('Total lines of file content to return across all files'),
+      maxFiles: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .default(DEFAULT_MAX_FILES)
+        .describe('Maximum number of files to read'),
+      lineNumbers: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Prefix each line with its line number ("N | text")'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedReadFilesWrapper
+  );
+}
@@ -4,27 +4,93 @@
  */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
+import { getServerConfig } from '../utils/serverConfig.js';
+
+import { registerApplyPatchTool } from './applyPatch.js';
+import { registerCopyPathTool } from './copyPath.js';
 import { registerCreateFileTool } from './createFile.js';
+import { registerDeleteLinesTool } from './deleteLines.js';
+import { registerDeletePathTool } from './deletePath.js';
+import { registerDescribeModuleTool } from './describeModule.js';
+import { registerEditFileTool } from './editFile.js';
 import { registerEnsureDirExistsTool } from './ensureDirExists.js';
+import { registerFileInfoTool } from './fileInfo.js';
+import { registerFindFilesTool } from './findFiles.js';
+import { registerFindSymbolTool } from './findSymbol.js';
 import { registerGetRepositoriesTool } from './getRepositories.js';
+import { registerIndexStatusTool } from './indexStatus.js';
+import { registerInsertLinesTool } from './insertLines.js';
+import { registerListChangesTool } from './listChanges.js';
+import { registerListModulesTool } from './listModules.js';
+import { registerListSymbolsTool } from './listSymbols.js';
+import { registerMovePathTool } from './movePath.js';
 import { registerReadFileTool } from './readFile.js';
+import { registerReadFilesTool } from './readFiles.js';
+import { registerReplaceLinesTool } from './replaceLines.js';
 import { registerRepoTreeTool } from './repoTree.js';
 import { registerSearchFilesTool } from './searchFiles.js';
+import { registerUndoChangeTool, registerUndoLastChangeTool } from './undoChange.js';
 import { registerUpdateFileTool } from './updateFile.js';
 
+/**
+ * Check whether a tool is turned on in the config file
+ * A tool is registered if it is in tools.enabled (when that list is given) and not in tools.disabled.
+ * @param name Tool name
+ * @returns True if the tool should be registered
+ */
+function isToolEnabled(name: string): boolean {
+  const { enabled, disabled } = getServerConfig().tools;
+  return (!enabled || enabled.includes(name)) && !disabled.includes(name);
+}
+
 /**
  * Register all tools with the MCP server
  * @param server The MCP server instance
  */
 export function registerAllTools(server: McpServer): void {
+  const toolNames: string[] = [];
+  const registerIfEnabled = (name: string, register: (server: McpServer) => void): void => {
+    toolNames.push(name);
+    if (isToolEnabled(name)) {
+      register(server);
+    }
+  };
+
   // Register repository and file system tools
-  registerGetRepositoriesTool(server);
-  registerRepoTreeTool(server);
-  registerReadFileTool(server);
-  registerSearchFilesTool(server);
-  registerCreateFileTool(server);
-  registerUpdateFileTool(server);
-  registerEnsureDirExistsTool(server);
-  
+  registerIfEnabled('get-repositories', registerGetRepositoriesTool);
+  registerIfEnabled('list-modules', registerListModulesTool);
+  registerIfEnabled('describe-module', registerDescribeModuleTool);
+  registerIfEnabled('repo-tree', registerRepoTreeTool);
+  registerIfEnabled('read-file', registerReadFileTool);
+  registerIfEnabled('read-files', registerReadFilesTool);
+  registerIfEnabled('file-info', registerFileInfoTool);
+  registerIfEnabled('find-files', registerFindFilesTool);
+  registerIfEnabled('search-files', registerSearchFilesTool);
+  registerIfEnabled('index-status', registerIndexStatusTool);
+  registerIfEnabled('find-symbol', registerFindSymbolTool);
+  registerIfEnabled('list-symbols', registerListSymbolsTool);
+  registerIfEnabled('create-file', registerCreateFileTool);
+  registerIfEnabled('update-file', registerUpdateFileTool);
+  registerIfEnabled('edit-file', registerEditFileTool);
+  registerIfEnabled('insert-lines', registerInsertLinesTool);
+  registerIfEnabled('replace-lines', registerReplaceLinesTool);
+  registerIfEnabled('delete-lines', registerDeleteLinesTool);
+  registerIfEnabled('apply-patch', registerApplyPatchTool);
+  registerIfEnabled('ensure-dir-exists', registerEnsureDirExistsTool);
+  registerIfEnabled('move-path', registerMovePathTool);
+  registerIfEnabled('copy-path', registerCopyPathTool);
+  registerIfEnabled('delete-path', registerDeletePathTool);
+  registerIfEnabled('list-changes', registerListChangesTool);
+  registerIfEnabled('undo-change', registerUndoChangeTool);
+  registerIfEnabled('undo-last-change', registerUndoLastChangeTool);
+
+  // Point out tool names in the config file that match nothing, usually typos
+  const { enabled = [], disabled } = getServerConfig().tools;
+  for (const name of [...enabled, ...disabled]) {
+    if (!toolNames.includes(name)) {
+      console.error(`Unknown tool in config file: ${name}`);
+    }
+  }
+
   console.error('Tool registration complete');
 }
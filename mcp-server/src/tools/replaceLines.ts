@@ -0,0 +1,147 @@
+/**
+ * Replace Lines Tool
+ * Replaces an inclusive range of lines in an existing file
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { changeJournal } from '../utils/changeJournal.js';
+import { writeFileTracked } from '../utils/fileWriter.js';
+import {
+  formatNumberedExcerpt,
+  joinLines,
+  readLineDocument,
+  splitTextLines,
+  validateLineRange,
+} from '../utils/lineEditor.js';
+import { resolveToAbsolutePath, validatePathForTool } from '../utils/path-handler.js';
+import { validateWriteAccess } from '../utils/writePolicy.js';
+
+/**
+ * Interface for replace lines parameters
+ */
+export interface ReplaceLinesParams {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+  repoId?: string;
+}
+
+/**
+ * Implementation of the replace lines tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function replaceLinesImpl(params: ReplaceLinesParams): Promise<CallToolResult> {
+  const { path: filePath, startLine, endLine, content } = params;
+
+  try {
+    // Validate the path format
+    const pathValidation = validatePathForTool(filePath, 'replace-lines');
+    if (!pathValidation.isValid) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: pathValidation.errorMessage || 'Invalid path format',
+          },
+        ],
+      };
+    }
+
+    // Enforce the repository's write policy
+    const writeAccess = validateWriteAccess(filePath);
+    if (!writeAccess.isAllowed) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: writeAccess.errorMessage || 'Write not allowed by repository policy',
+          },
+        ],
+      };
+    }
+
+    const absoluteFilePath = resolveToAbsolutePath(filePath);
+    const doc = await readLineDocument(absoluteFilePath);
+
+    const rangeError = validateLineRange(startLine, endLine, doc.lines.length);
+    if (rangeError) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Invalid line range for '${filePath}': ${rangeError}`,
+          },
+        ],
+      };
+    }
+
+    const newLines = splitTextLines(content);
+    doc.lines.splice(startLine - 1, endLine - startLine + 1, ...newLines);
+
+    const changes = await writeFileTracked(filePath, absoluteFilePath, joinLines(doc));
+    changeJournal.record('replace-lines', changes);
+
+    // The edited region now spans the replacement lines (empty when content was empty)
+    const lastReplaced = startLine + newLines.length - 1;
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `Replaced lines ${startLine}-${endLine} with ${newLines.length} line(s) in '${filePath}':\n${formatNumberedExcerpt(doc.lines, startLine, lastReplaced)}`,
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in replaceLines tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error replacing lines: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+// Type-safe wrapper for the implementation
+const typedReplaceLinesWrapper = (
+  params: ReplaceLinesParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return replaceLinesImpl(params);
+};
+
+/**
+ * Register the replace lines tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerReplaceLinesTool(server: McpServer): void {
+  server.tool(
+    'replace-lines', // Tool name
+    'Replaces an inclusive range of lines in an existing file. REQUIRES absolute path format: /repoId/path/to/file. Line numbers are 1-based. Returns a numbered excerpt around the replaced lines.', // Description
+    {
+      path: z.string().describe('REQUIRED: Target file path in format: /repoId/path/to/file'),
+      startLine: z.number().int().describe('REQUIRED: First line to replace (1-based)'),
+      endLine: z.number().int().describe('REQUIRED: Last line to replace (1-based, inclusive)'),
+      content: z.string().describe('REQUIRED: Replacement lines, separated by newlines'),
+      repoId: z
+        .string()
+        .optional()
+        .describe('Repository ID to target - derived from path if not provided'),
+    },
+    // Use the typed wrapper to ensure type safety
+    typedReplaceLinesWrapper
+  );
+}
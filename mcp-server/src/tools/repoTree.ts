@@ -3,16 +3,12 @@
  * Displays the directory structure of a repository or a specific path within it
  */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { exec } from 'child_process';
 import fs from 'fs';
-import path from 'path';
-import { promisify } from 'util';
 import { z } from 'zod';
 
+import { FileWalker } from '../utils/fileWalker.js';
 import { resolveToAbsolutePath } from '../utils/path-handler.js';
-import { repoManager } from '../utils/repoManager.js';
-
-const execAsync = promisify(exec);
+import { getRepoBasePath } from '../utils/repoManager.js';
 
 // Define the type for the parameter
 interface RepoTreeParams {
@@ -30,7 +26,7 @@ interface RepoTreeParams {
 export function registerRepoTreeTool(server: McpServer): void {
   server.tool(
     'repo-tree', // Tool name
-    'Display repository directory tree. Requires repoId and moduleName to determine the starting location. Path is relative to the module root.', // Description
+    'Display repository directory tree. Requires repoId and moduleName to determine the starting location (use list-modules to find module names). Path is relative to the module root. Files ignored by .gitignore, dependencies and build output are left out.', // Description
     {
       repoId: z.string().describe('Repository ID to target (e.g., "swift-coder")'),
       moduleName: z.string().describe('Module name within the repository (e.g., "mcp-server")'),
@@ -91,45 +87,17 @@ export function registerRepoTreeTool(server: McpServer): void {
             };
           }
 
-          // Check for the tree command
-          const treeCommand = await getTreeCommand();
-          if (treeCommand) {
-            // Use tree command with appropriate options
-            // -L: depth, --charset=ASCII: use ASCII characters, -I: exclude pattern
-            const { stdout, stderr } = await execAsync(
-              `${treeCommand} -L ${depth} --charset=ASCII -I "node_modules|.git|__pycache__|venv|.venv|.env|dist|build|.next|out" "${resolvedPath}"`,
-              { maxBuffer: 10 * 1024 * 1024 } // 10MB buffer
-            );
-
-            if (stderr && stderr.trim()) {
-              console.error('Tree command stderr:', stderr);
-            }
-
-            // Replace the absolute path in the output with a relative path
-            const cleanOutput = stdout
-              .replace(new RegExp(`^${resolvedPath}`, 'm'), dirPath || '.')
-              .trim();
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `\`\`\`\n${cleanOutput}\n\`\`\``,
-                },
-              ],
-            };
-          } else {
-            // Fallback to custom directory listing
-            const tree = await generateDirectoryTree(resolvedPath, depth);
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `\`\`\`\n${dirPath || '.'}\n${tree}\n\`\`\``,
-                },
-              ],
-            };
-          }
+          // Build the tree, leaving out ignored files
+          const walker = new FileWalker(getRepoBasePath(repoId));
+          const tree = await generateDirectoryTree(walker, resolvedPath, depth);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `\`\`\`\n${dirPath || '.'}\n${tree}\n\`\`\``,
+              },
+            ],
+          };
         } catch (error) {
           return {
             isError: true,
@@ -157,28 +125,8 @@ export function registerRepoTreeTool(server: McpServer): void {
 }
 
 /**
- * Check if the tree command is available and return the command name
- * @returns The tree command name or null if not available
- */
-async function getTreeCommand(): Promise<string | null> {
-  try {
-    // Check for tree command
-    await execAsync('tree --version');
-    return 'tree';
-  } catch {
-    try {
-      // Check for find command as a fallback
-      await execAsync('find --version');
-      return 'find';
-    } catch {
-      // Neither command is available
-      return null;
-    }
-  }
-}
-
-/**
- * Generate a directory tree without using the tree command
+ * Generate a directory tree
+ * @param walker File walker for the repository, used to skip ignored files
  * @param dirPath Directory path to start from
  * @param maxDepth Maximum depth to traverse
  * @param currentDepth Current depth in the traversal
@@ -186,6 +134,7 @@ async function getTreeCommand(): Promise<string | null> {
  * @returns The directory tree as a string
  */
 async function generateDirectoryTree(
+  walker: FileWalker,
   dirPath: string,
   maxDepth: number,
   currentDepth: number = 0,
@@ -195,53 +144,30 @@ async function generateDirectoryTree(
     return '';
   }
 
-  // Skip common directories that should be ignored
-  const ignorePatterns = [
-    'node_modules',
-    '.git',
-    '__pycache__',
-    'venv',
-    '.venv',
-    '.env',
-    'dist',
-    'build',
-    '.next',
-    'out',
-  ];
-
-  // Read the directory
-  const items = fs.readdirSync(dirPath).filter(item => !ignorePatterns.includes(item));
-
-  // Sort directories first, then files
-  const sortedItems = items.sort((a, b) => {
-    const aStat = fs.statSync(path.join(dirPath, a));
-    const bStat = fs.statSync(path.join(dirPath, b));
-    if (aStat.isDirectory() && !bStat.isDirectory()) {
-      return -1;
-    }
-    if (!aStat.isDirectory() && bStat.isDirectory()) {
-      return 1;
-    }
-    return a.localeCompare(b);
-  });
+  // Directories first, then files
+  const items = await walker.listDirectory(dirPath);
 
   // Generate the tree
   let result = '';
-  const lastIndex = sortedItems.length - 1;
+  const lastIndex = items.length - 1;
 
-  for (let i = 0; i < sortedItems.length; i++) {
-    const item = sortedItems[i];
-    const itemPath = path.join(dirPath, item);
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
     const isLast = i === lastIndex;
-    const isDir = fs.statSync(itemPath).isDirectory();
 
     // Add the current item to the tree
-    result += `${prefix}${isLast ? '└── ' : '├── '}${item}${isDir ? '/' : ''}\n`;
+    result += `${prefix}${isLast ? '└── ' : '├── '}${item.name}${item.isDirectory ? '/' : ''}\n`;
 
     // Recursively process subdirectories
-    if (isDir && currentDepth + 1 < maxDepth) {
+    if (item.isDirectory && currentDepth + 1 < maxDepth) {
       const newPrefix = `${prefix}${isLast ? '    ' : '│   '}`;
-      result += await generateDirectoryTree(itemPath, maxDepth, currentDepth + 1, newPrefix);
+      result += await generateDirectoryTree(
+        walker,
+        item.absolutePath,
+        maxDepth,
+        currentDepth + 1,
+        newPrefix
+      );
     }
   }
 
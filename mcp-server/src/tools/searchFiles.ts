@@ -4,11 +4,28 @@
  */
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import fs from 'fs';
-import path from 'path';
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
 import { z } from 'zod';
 
-import { resolveToAbsolutePath, validatePathForTool } from '../utils/path-handler.js';
+import { searchEngine } from '../search/searchEngine.js';
+import { FileMatches } from '../search/searchTypes.js';
+import { buildSearchRegExp, SearchHit, SearchQuery } from '../search/textMatcher.js';
+import {
+  parsePathFormat,
+  resolveToAbsolutePath,
+  validatePathForTool,
+} from '../utils/path-handler.js';
+import { getRepoBasePath } from '../utils/repoManager.js';
+import { getServerConfig } from '../utils/serverConfig.js';
+
+/**
+ * How search results are reported
+ * - content: matching lines with their context, grouped by file
+ * - filesWithMatches: only the paths of files that match
+ * - count: the number of matching lines in each file
+ */
+export type SearchOutputMode = 'content' | 'filesWithMatches' | 'count';
 
 /**
  * Interface for search files parameters
@@ -18,18 +35,108 @@ export interface SearchFilesParams {
   directory?: string;
   fileExtensions?: string[];
   ignoreCase?: boolean;
+  literal?: boolean;
+  wholeWord?: boolean;
+  multiline?: boolean;
+  contextBefore?: number;
+  contextAfter?: number;
+  outputMode?: SearchOutputMode;
   maxResults?: number;
+  cursor?: string;
   repoId?: string;
 }
 
-type MatchResult = {
-  file: string;
-  line: number;
-  lineContent: string;
-  matchedText: string;
-  columnStart: number;
-  columnEnd: number;
-};
+/**
+ * Position in a search's results, handed back to the caller to fetch the next page
+ */
+interface SearchCursor {
+  offset: number; // Results already returned: matches in content mode, files otherwise
+  query: string; // Fingerprint of the search the cursor belongs to
+}
+
+// Longest line shown in results; minified files would otherwise flood the output
+const MAX_LINE_LENGTH = 300;
+
+const MAX_CONTEXT_LINES = 20;
+
+/**
+ * Fingerprint the parameters that decide which results a search returns
+ */
+function fingerprintSearch(params: SearchFilesParams, directory: string): string {
+  const key = JSON.stringify([
+    params.pattern,
+    directory,
+    params.fileExtensions ?? [],
+    params.ignoreCase ?? false,
+    params.literal ?? false,
+    params.wholeWord ?? false,
+    params.multiline ?? false,
+    params.outputMode ?? 'content',
+  ]);
+  return createHash('sha1').update(key).digest('hex').slice(0, 12);
+}
+
+/**
+ * Encode a cursor for the caller
+ */
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from the caller
+ * @returns The cursor, or undefined if it is malformed
+ */
+function decodeCursor(value: string): SearchCursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return Number.isInteger(cursor.offset) && cursor.offset >= 0 && typeof cursor.query === 'string'
+      ? cursor
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Shorten a line for display
+ */
+function truncateLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line;
+}
+
+/**
+ * Format a file's hits with their context, grep style
+ * Matched lines are marked "12:", context lines "13-", and gaps between groups "--".
+ */
+function formatFileHits(result: FileMatches, hits: SearchHit[], query: SearchQuery): string[] {
+  const output = [result.toolPath];
+  const matchedLines = new Set<number>();
+  for (const hit of hits) {
+    for (let lineNumber = hit.startLine; lineNumber <= hit.endLine; lineNumber++) {
+      matchedLines.add(lineNumber);
+    }
+  }
+  let previousLine = 0;
+
+  for (const hit of hits) {
+    const first = Math.max(1, hit.startLine - query.contextBefore, previousLine + 1);
+    const last = hit.endLine + query.contextAfter;
+    if (previousLine > 0 && first > previousLine + 1) {
+      output.push('  --');
+    }
+    for (let lineNumber = first; lineNumber <= last; lineNumber++) {
+      const text = result.lines.get(lineNumber);
+      if (text === undefined) {
+        break;
+      }
+      const marker = matchedLines.has(lineNumber) ? ':' : '-';
+      output.push(`  ${lineNumber}${marker} ${truncateLine(text)}`);
+      previousLine = lineNumber;
+    }
+  }
+  return output;
+}
 
 /**
  * Implementation of the search files tool
@@ -39,7 +146,28 @@ type MatchResult = {
  * @returns Tool result
  */
 export async function searchFilesImpl(params: SearchFilesParams): Promise<CallToolResult> {
-  const { pattern, directory = '.', fileExtensions, ignoreCase = false, maxResults = 100 } = params;
+  const {
+    pattern,
+    fileExtensions,
+    outputMode = 'content',
+    maxResults = 100,
+    cursor: cursorValue,
+  } = params;
+  const query: SearchQuery = {
+    pattern,
+    literal: params.literal ?? false,
+    wholeWord: params.wholeWord ?? false,
+    ignoreCase: params.ignoreCase ?? false,
+    multiline: params.multiline ?? false,
+    contextBefore: outputMode === 'content' ? (params.contextBefore ?? 0) : 0,
+    contextAfter: outputMode === 'content' ? (params.contextAfter ?? 0) : 0,
+  };
+
+  // A bare /repoId means the repository root
+  let directory = params.directory || '.';
+  if (/^\/[^/]+$/.test(directory)) {
+    directory = `${directory}/`;
+  }
 
   try {
     // Validate the directory path - enforce absolute path format
@@ -60,11 +188,11 @@ export async function searchFilesImpl(params: SearchFilesParams): Promise<CallTo
 
     // Resolve directory path using the path resolution system
     const searchDir = resolveToAbsolutePath(directory);
-    const repoRoot = resolveToAbsolutePath(
-      directory.startsWith('/') ? `/${directory.split('/')[1]}` : '.'
-    );
+    const { repoId } = parsePathFormat(directory);
+    const repoRoot = getRepoBasePath(repoId);
 
-    if (!fs.existsSync(searchDir)) {
+    const stats = await fs.stat(searchDir).catch(() => undefined);
+    if (!stats?.isDirectory()) {
       return {
         content: [
           {
@@ -76,12 +204,10 @@ export async function searchFilesImpl(params: SearchFilesParams): Promise<CallTo
       };
     }
 
-    const results: MatchResult[] = [];
-    const flags = ignoreCase ? 'gi' : 'g';
-
     // Validate the regex pattern
+    let regex: RegExp;
     try {
-      new RegExp(pattern, flags);
+      regex = buildSearchRegExp(query);
     } catch (error) {
       return {
         content: [
@@ -94,33 +220,101 @@ export async function searchFilesImpl(params: SearchFilesParams): Promise<CallTo
       };
     }
 
-    const regex = new RegExp(pattern, flags);
-    const excludeDirs = ['node_modules', '.git', 'build', 'dist', 'coverage'];
+    // Continue from where the previous page stopped
+    const fingerprint = fingerprintSearch(params, directory);
+    let offset = 0;
+    if (cursorValue) {
+      const cursor = decodeCursor(cursorValue);
+      if (!cursor || cursor.query !== fingerprint) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: 'Invalid cursor: it does not belong to this search. Repeat the search without a cursor.',
+            },
+          ],
+          isError: true,
+        };
+      }
+      offset = cursor.offset;
+    }
+
+    // Collect one page of results, counting matches in content mode and files otherwise
+    const output: string[] = [];
+    let skipped = 0;
+    let returned = 0;
+    let hasMore = false;
 
-    await recursiveSearchDirectory(
-      searchDir,
-      repoRoot,
-      regex,
-      results,
-      maxResults,
-      excludeDirs,
-      fileExtensions
+    // Stop searching when the time is up and report what was found so far
+    const { maxFileSize, searchTimeout } = getServerConfig().limits;
+    const signal = AbortSignal.timeout(searchTimeout * 1000);
+    const results = searchEngine.search(
+      { searchDir, repoRoot, repoId, query, regex, fileExtensions, maxFileSize },
+      signal
     );
+    for await (const result of results) {
+      if (returned >= maxResults) {
+        hasMore = true;
+        break;
+      }
+
+      if (outputMode !== 'content') {
+        if (skipped < offset) {
+          skipped++;
+          continue;
+        }
+        output.push(
+          outputMode === 'count' ? `${result.toolPath}: ${result.hits.length}` : result.toolPath
+        );
+        returned++;
+        continue;
+      }
+
+      const fromHit = Math.min(offset - skipped, result.hits.length);
+      skipped += fromHit;
+      const pageHits = result.hits.slice(fromHit, fromHit + maxResults - returned);
+      if (pageHits.length === 0) {
+        continue;
+      }
+      output.push(...formatFileHits(result, pageHits, query), '');
+      returned += pageHits.length;
+      if (fromHit + pageHits.length < result.hits.length) {
+        hasMore = true;
+        break;
+      }
+    }
+
+    const unit = outputMode === 'content' ? 'matches' : 'files';
+    const lines: string[] = [];
+    if (returned === 0) {
+      lines.push(
+        offset > 0
+          ? `No more results for /${pattern}/ in ${directory}`
+          : `No matches for /${pattern}/ in ${directory}`
+      );
+    } else {
+      lines.push(
+        `${unit[0].toUpperCase()}${unit.slice(1)} ${offset + 1}-${offset + returned} for /${pattern}/ in ${directory}:`
+      );
+      lines.push('', ...output);
+    }
+    if (signal.aborted && !hasMore) {
+      lines.push(
+        `Search timed out after ${searchTimeout}s, so these results are incomplete. Search a smaller directory or limit fileExtensions.`
+      );
+    }
+    if (hasMore) {
+      const next = encodeCursor({ offset: offset + returned, query: fingerprint });
+      lines.push(
+        `More ${unit} available: repeat the search with cursor "${next}" to get the next page.`
+      );
+    }
 
     return {
       content: [
         {
           type: 'text' as const,
-          text: JSON.stringify(
-            {
-              pattern: pattern,
-              directory: directory,
-              totalMatches: results.length,
-              results,
-            },
-            null,
-            2
-          ),
+          text: lines.join('\n').trimEnd(),
         },
       ],
     };
@@ -139,104 +333,6 @@ export async function searchFilesImpl(params: SearchFilesParams): Promise<CallTo
   }
 }
 
-/**
- * Recursively search a directory for files matching the pattern
- */
-async function recursiveSearchDirectory(
-  dirPath: string,
-  repoRoot: string,
-  pattern: RegExp,
-  results: MatchResult[],
-  maxResults: number,
-  excludeDirs: string[],
-  fileExtensions?: string[]
-): Promise<void> {
-  if (results.length >= maxResults) return;
-
-  try {
-    const items = fs.readdirSync(dirPath, { withFileTypes: true });
-
-    for (const item of items) {
-      if (results.length >= maxResults) return;
-
-      const itemPath = path.join(dirPath, item.name);
-
-      if (item.isDirectory()) {
-        if (!excludeDirs.includes(item.name)) {
-          await recursiveSearchDirectory(
-            itemPath,
-            repoRoot,
-            pattern,
-            results,
-            maxResults,
-            excludeDirs,
-            fileExtensions
-          );
-        }
-      } else if (item.isFile()) {
-        // Check if file has the specific extension if provided
-        if (fileExtensions && fileExtensions.length > 0) {
-          const ext = path.extname(item.name);
-          if (!fileExtensions.includes(ext)) {
-            continue;
-          }
-        }
-
-        // Skip binary files
-        const ext = path.extname(item.name).toLowerCase();
-        const binaryExts = ['.jpg', '.png', '.gif', '.pdf', '.exe', '.zip', '.bin'];
-        if (binaryExts.includes(ext)) continue;
-
-        searchFile(itemPath, repoRoot, pattern, results, maxResults);
-      }
-    }
-  } catch (err) {
-    console.error(`Error reading directory ${dirPath}:`, err);
-  }
-}
-
-/**
- * Search a single file for the pattern
- */
-function searchFile(
-  filePath: string,
-  repoRoot: string,
-  pattern: RegExp,
-  results: MatchResult[],
-  maxResults: number
-): void {
-  try {
-    const content = fs.readFileSync(filePath, 'utf8');
-    const lines = content.split('\n');
-    const relativePath = path.relative(repoRoot, filePath);
-
-    for (let i = 0; i < lines.length; i++) {
-      if (results.length >= maxResults) return;
-
-      const line = lines[i];
-      // Reset the RegExp lastIndex to start searching from the beginning of the line
-      pattern.lastIndex = 0;
-
-      let match;
-      while ((match = pattern.exec(line)) !== null) {
-        results.push({
-          file: relativePath,
-          line: i + 1,
-          lineContent: line.trim(),
-          matchedText: match[0],
-          columnStart: match.index,
-          columnEnd: match.index + match[0].length,
-        });
-
-        if (results.length >= maxResults) return;
-      }
-    }
-  } catch (error) {
-    // Skip files that can't be read as text
-    console.error(`Error reading file ${filePath}:`, error);
-  }
-}
-
 // Type-safe wrapper for the implementation
 const typedSearchFilesWrapper = (
   params: SearchFilesParams,
@@ -254,7 +350,7 @@ const typedSearchFilesWrapper = (
 export function registerSearchFilesTool(server: McpServer): void {
   server.tool(
     'search-files',
-    'Search for patterns in files across the repository. REQUIRES absolute path format: /repoId/path/to/dir for directory parameter. Returns JSON with matched files and line content.',
+    'Search file contents for a regular expression (or plain text with literal) below a directory. REQUIRES absolute path format: /repoId/path/to/dir for directory parameter. Results are grouped by file: matching lines are shown as "12: text" and context lines as "13- text". Use outputMode "filesWithMatches" or "count" to list only files or per-file counts. When there are more results than maxResults, the output ends with a cursor; pass it back with the same search to get the next page. Files ignored by .gitignore, dependencies and build output are skipped.',
     {
       pattern: z.string().describe('REQUIRED: Regular expression pattern to search for'),
       directory: z
@@ -268,7 +364,48 @@ export function registerSearchFilesTool(server: McpServer): void {
         .optional()
         .describe('Specific file extensions to search (e.g., [".md", ".ts"])'),
       ignoreCase: z.boolean().default(false).describe('Whether to ignore case in pattern matching'),
-      maxResults: z.number().default(100).describe('Maximum number of results to return'),
+      literal: z
+        .boolean()
+        .default(false)
+        .describe('Treat the pattern as plain text instead of a regular expression'),
+      wholeWord: z
+        .boolean()
+        .default(false)
+        .describe('Only match the pattern where it is not part of a longer word'),
+      multiline: z
+        .boolean()
+        .default(false)
+        .describe('Let matches span several lines; use \\n in the pattern to match line breaks'),
+      contextBefore: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_CONTEXT_LINES)
+        .default(0)
+        .describe('Lines of context to show before each match'),
+      contextAfter: z
+        .number()
+        .int()
+        .min(0)
+        .max(MAX_CONTEXT_LINES)
+        .default(0)
+        .describe('Lines of context to show after each match'),
+      outputMode: z
+        .enum(['content', 'filesWithMatches', 'count'])
+        .default('content')
+        .describe(
+          'content: matching lines grouped by file; filesWithMatches: file paths only; count: matching lines per file'
+        ),
+      maxResults: z
+        .number()
+        .int()
+        .min(1)
+        .default(100)
+        .describe('Maximum matches (content) or files (other modes) per page'),
+      cursor: z
+        .string()
+        .optional()
+        .describe('Cursor from a previous page of the same search, to get the next page'),
       repoId: z
         .string()
         .optional()
@@ -0,0 +1,152 @@
+/**
+ * Undo Change Tools
+ * Restore files to their state before a recorded change
+ */
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { changeJournal } from '../utils/changeJournal.js';
+
+/**
+ * Interface for undo change parameters
+ */
+export interface UndoChangeParams {
+  changeId: number;
+  force?: boolean;
+}
+
+/**
+ * Interface for undo last change parameters
+ */
+export interface UndoLastChangeParams {
+  force?: boolean;
+}
+
+/**
+ * Implementation of the undo change tool
+ * This is the core functionality, separate from registration logic
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function undoChangeImpl(params: UndoChangeParams): Promise<CallToolResult> {
+  const { changeId, force = false } = params;
+
+  try {
+    const { entry, restored, conflicts } = await changeJournal.undo(changeId, force);
+
+    if (!entry.undone) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: `Cannot undo change #${entry.id} (${entry.tool}): these files were modified after it was made:\n${conflicts.map(p => `  ${p}`).join('\n')}\nNothing was restored. Use force=true to restore anyway and discard the later edits.`,
+          },
+        ],
+      };
+    }
+
+    const lines = [`Undid change #${entry.id} (${entry.tool}):`];
+    lines.push(...restored.map(p => `  restored ${p}`));
+    lines.push(...conflicts.map(p => `  skipped ${p} (modified since the change)`));
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  } catch (error) {
+    console.error('Error in undoChange tool:', error);
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: `Error undoing change: ${(error as Error).message}`,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Implementation of the undo last change tool
+ *
+ * @param params Tool parameters
+ * @returns Tool result
+ */
+export async function undoLastChangeImpl(params: UndoLastChangeParams): Promise<CallToolResult> {
+  const entry = changeJournal.getLastUndoable();
+  if (!entry) {
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text' as const,
+          text: 'There are no changes to undo in this session.',
+        },
+      ],
+    };
+  }
+  return undoChangeImpl({ changeId: entry.id, force: params.force });
+}
+
+// Type-safe wrappers for the implementations
+const typedUndoChangeWrapper = (
+  params: UndoChangeParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return undoChangeImpl(params);
+};
+
+const typedUndoLastChangeWrapper = (
+  params: UndoLastChangeParams,
+  _extra: unknown
+): Promise<CallToolResult> => {
+  return undoLastChangeImpl(params);
+};
+
+// Shared by both undo tools
+const forceParam = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe('Restore even if the files were modified after the change (discards those edits)');
+
+/**
+ * Register the undo change tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerUndoChangeTool(server: McpServer): void {
+  server.tool(
+    'undo-change', // Tool name
+    'Reverts a change listed by list-changes: restores previous file contents and removes files and directories the change created. Does not use git. Refuses if the files were modified afterwards unless force is set.', // Description
+    {
+      changeId: z.number().int().describe('REQUIRED: Change number from list-changes'),
+      force: forceParam,
+    },
+    typedUndoChangeWrapper
+  );
+}
+
+/**
+ * Register the undo last change tool with the MCP server
+ *
+ * @param {McpServer} server - The MCP server instance
+ */
+export function registerUndoLastChangeTool(server: McpServer): void {
+  server.tool(
+    'undo-last-change', // Tool name
+    'Reverts the most recent change made by a file tool in this session that has not already been undone.', // Description
+    {
+      force: forceParam,
+    },
+    typedUndoLastChangeWrapper
+  );
+}
@@ -4,10 +4,15 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import * as fs from 'fs/promises';
-import * as path from 'path';
 import { z } from 'zod';
 
+import { formatLintResult, lintRunner } from '../linting/lintRunner.js';
+import { changeJournal } from '../utils/changeJournal.js';
+import { applyTextFormat, LineEndingMode, resolveTextFormat } from '../utils/fileContent.js';
+import { checkExpectedHash, computeContentHash } from '../utils/fileHash.js';
+import { captureFileState, writeFileTracked } from '../utils/fileWriter.js';
 import { resolveToAbsolutePath } from '../utils/path-handler.js';
+import { validateWriteAccess } from '../utils/writePolicy.js';
 
 /**
  * Schema properties for the update-file tool
@@ -20,6 +25,26 @@ const updateFileSchemaProps = {
     .optional()
     .default(false)
     .describe('Create the file if it does not exist'),
+  expectedHash: z
+    .string()
+    .optional()
+    .describe('Content hash from read-file; the write is refused if the file has changed since'),
+  lineEnding: z
+    .enum(['preserve', 'lf', 'crlf'])
+    .optional()
+    .default('preserve')
+    .describe(
+      "Line endings to write; preserve keeps the existing file's convention (new files are written as given)"
+    ),
+  bom: z
+    .boolean()
+    .optional()
+    .describe('Write a UTF-8 byte order mark - matches the existing file if not provided'),
+  skipLinting: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Skip linting validation (use with caution)'),
   repoId: z
     .string()
     .optional()
@@ -33,6 +58,10 @@ type UpdateFileParams = {
   path: string;
   content: string;
   createIfMissing?: boolean;
+  expectedHash?: string;
+  lineEnding?: LineEndingMode;
+  bom?: boolean;
+  skipLinting?: boolean;
   repoId?: string;
 };
 
@@ -45,11 +74,33 @@ type UpdateFileParams = {
  */
 async function updateFileHandler(params: UpdateFileParams): Promise<CallToolResult> {
   try {
-    const { path: filePath, content, createIfMissing } = params;
+    const {
+      path: filePath,
+      content,
+      createIfMissing,
+      expectedHash,
+      lineEnding = 'preserve',
+      bom,
+      skipLinting,
+    } = params;
 
     // Resolve to absolute filesystem path
     const absolutePath = resolveToAbsolutePath(filePath);
 
+    // Enforce the repository's write policy
+    const writeAccess = validateWriteAccess(filePath);
+    if (!writeAccess.isAllowed) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: writeAccess.errorMessage || 'Write not allowed by repository policy',
+          },
+        ],
+      };
+    }
+
     // Check if the file exists
     const fileExists = await fs
       .access(absolutePath)
@@ -68,21 +119,45 @@ async function updateFileHandler(params: UpdateFileParams): Promise<CallToolResu
       };
     }
 
-    // Create parent directories if they don't exist
-    if (!fileExists && createIfMissing) {
-      const dirname = path.dirname(absolutePath);
-      await fs.mkdir(dirname, { recursive: true });
+    // Refuse to overwrite changes made on disk since the caller read the file
+    const hashError = await checkExpectedHash(absolutePath, expectedHash, filePath);
+    if (hashError) {
+      return {
+        isError: true,
+        content: [
+          {
+            type: 'text' as const,
+            text: hashError,
+          },
+        ],
+      };
     }
 
-    // Write the file
-    await fs.writeFile(absolutePath, content, 'utf-8');
+    // Keep the existing file's line endings and byte order mark unless told otherwise
+    const formatted = applyTextFormat(
+      content,
+      resolveTextFormat(content, await captureFileState(absolutePath), lineEnding, bom)
+    );
+
+    // Write the file, creating parent directories if they don't exist
+    const changes = await writeFileTracked(filePath, absolutePath, formatted);
+    changeJournal.record('update-file', changes);
+
+    // Lint the written file unless the caller opted out
+    const lintResult = skipLinting
+      ? { status: 'skipped' as const, diagnostics: [] }
+      : await lintRunner.lintFile(filePath);
 
     // Return success
     return {
       content: [
         {
           type: 'text' as const,
-          text: `Successfully ${fileExists ? 'updated' : 'created'} file: ${filePath}`,
+          text: `Successfully ${fileExists ? 'updated' : 'created'} file: ${filePath} (hash: ${computeContentHash(formatted)})`,
+        },
+        {
+          type: 'text' as const,
+          text: formatLintResult(lintResult),
         },
       ],
     };
@@ -116,7 +191,7 @@ export function registerUpdateFileTool(server: McpServer): void {
   // Register the tool with raw schema properties to avoid ZodRawShape type issues
   server.tool(
     'update-file', // Tool name
-    'Updates an existing file with new content. Supports multiple path formats including repository prefixes and absolute paths. Use for modifying existing files (use create-file for new files). For partial changes, prefer insert-lines, replace-lines, or clean-lines when possible.', // Description
+    'Updates an existing file with new content. Supports multiple path formats including repository prefixes and absolute paths. Use for modifying existing files (use create-file for new files). Pass the hash from read-file as expectedHash to refuse the write if the file changed on disk. Runs linting by default and returns lint results. Writes are atomic and keep the permissions, line endings and byte order mark of an existing file unless lineEnding or bom is given. For partial changes, prefer edit-file, insert-lines, replace-lines, or delete-lines when possible.', // Description
     updateFileSchemaProps, // Pass raw schema properties instead of Zod object
     typedUpdateFileWrapper
   );
@@ -0,0 +1,282 @@
+/**
+ * Change Journal
+ * Records every mutation made by the file tools during a session so it can be reviewed and undone
+ */
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { movePath, reportFileChanges, writeFileAtomic } from './fileWriter.js';
+import { formatSizeLimit } from './serverConfig.js';
+
+/**
+ * A single filesystem change within a journal entry
+ * File changes keep the content before and after the change (null when the file did not exist);
+ * directory changes record a directory that the tool created; move changes record a file or
+ * directory that was renamed, including deletes into the trash.
+ */
+export type JournalChange =
+  | {
+      type: 'file';
+      toolPath: string; // Path in format /repoId/path/to/file
+      absolutePath: string;
+      before: Buffer | null;
+      after: Buffer | null;
+    }
+  | {
+      type: 'directory';
+      toolPath: string;
+      absolutePath: string;
+    }
+  | {
+      type: 'move';
+      toolPath: string; // Original location
+      absolutePath: string;
+      targetToolPath: string; // Location it was moved to
+      targetAbsolutePath: string;
+    };
+
+/**
+ * A journal entry groups the changes made by one tool call
+ */
+export interface JournalEntry {
+  id: number;
+  tool: string; // Name of the tool that made the change
+  timestamp: string; // ISO time of the change
+  changes: JournalChange[];
+  undone: boolean;
+  released: boolean; // File contents were dropped to stay within the memory budget; cannot be undone
+}
+
+/**
+ * Outcome of undoing a journal entry
+ */
+export interface UndoResult {
+  entry: JournalEntry;
+  restored: string[]; // Tool paths restored or removed
+  conflicts: string[]; // Tool paths that changed since the entry and were left alone
+}
+
+// Oldest entries are dropped beyond this many to bound memory use
+const MAX_ENTRIES = 200;
+
+// File contents kept for undo across all entries; the oldest entries' contents are released beyond it
+export const MAX_JOURNAL_BYTES = 256 * 1024 * 1024;
+
+// Stands in for released file contents, keeping whether the file existed before and after
+const RELEASED_CONTENT = Buffer.alloc(0);
+
+/**
+ * Count the bytes of file content an entry keeps
+ */
+function countImageBytes(entry: JournalEntry): number {
+  let bytes = 0;
+  for (const change of entry.changes) {
+    if (change.type === 'file') {
+      bytes += (change.before?.length ?? 0) + (change.after?.length ?? 0);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Change Journal class
+ * Keeps an in-memory, per-session history of tool mutations with before-images.
+ * Restores are done from the recorded content, never from git.
+ */
+export class ChangeJournal {
+  private entries: JournalEntry[] = [];
+  private nextId = 1;
+  private imageBytes = 0; // File content kept by entries that are not released
+
+  /**
+   * Record the changes made by a tool call
+   * @param tool Tool name
+   * @param changes Changes made, in the order they happened
+   * @returns The new journal entry, or undefined if there were no changes
+   */
+  public record(tool: string, changes: JournalChange[]): JournalEntry | undefined {
+    if (changes.length === 0) {
+      return undefined;
+    }
+
+    const entry: JournalEntry = {
+      id: this.nextId++,
+      tool,
+      timestamp: new Date().toISOString(),
+      changes,
+      undone: false,
+      released: false,
+    };
+    this.entries.push(entry);
+    this.imageBytes += countImageBytes(entry);
+
+    if (this.entries.length > MAX_ENTRIES) {
+      const dropped = this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+      dropped
+        .filter(old => !old.released)
+        .forEach(old => (this.imageBytes -= countImageBytes(old)));
+    }
+
+    // Release the oldest contents first; an entry larger than the budget is released at once
+    for (const old of this.entries) {
+      if (this.imageBytes <= MAX_JOURNAL_BYTES) {
+        break;
+      }
+      if (!old.released) {
+        this.release(old);
+      }
+    }
+
+    return entry;
+  }
+
+  /**
+   * Get the bytes of file content kept for undo
+   * @returns Bytes kept across all entries
+   */
+  public getImageBytes(): number {
+    return this.imageBytes;
+  }
+
+  /**
+   * Get all journal entries, oldest first
+   * @returns Array of journal entries
+   */
+  public getEntries(): JournalEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Get a journal entry by ID
+   * @param id Entry ID
+   * @returns Journal entry or undefined if not found
+   */
+  public getEntry(id: number): JournalEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  /**
+   * Get the most recent entry that has not been undone
+   * @returns Journal entry or undefined if there is nothing to undo
+   */
+  public getLastUndoable(): JournalEntry | undefined {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      if (!this.entries[i].undone) {
+        return this.entries[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Undo a journal entry by restoring the before-images of its changes
+   * Files that were modified again after the entry are reported as conflicts and left
+   * untouched unless force is set.
+   *
+   * @param id Entry ID
+   * @param force Restore even if files changed after the entry was recorded
+   * @returns Undo result
+   */
+  public async undo(id: number, force: boolean = false): Promise<UndoResult> {
+    const entry = this.getEntry(id);
+    if (!entry) {
+      throw new Error(`Change #${id} not found in the journal`);
+    }
+    if (entry.undone) {
+      throw new Error(`Change #${id} has already been undone`);
+    }
+    if (entry.released) {
+      throw new Error(
+        `Change #${id} can no longer be undone: its file contents were released to keep the journal within ${formatSizeLimit(MAX_JOURNAL_BYTES)}`
+      );
+    }
+
+    const restored: string[] = [];
+    const conflicts: string[] = [];
+
+    // Check every file first so an entry is either undone completely or not at all
+    if (!force) {
+      for (const change of entry.changes) {
+        if (change.type === 'file' && !(await this.matchesAfterImage(change))) {
+          conflicts.push(change.toolPath);
+        } else if (change.type === 'move' && !existsSync(change.targetAbsolutePath)) {
+          conflicts.push(change.targetToolPath);
+        }
+      }
+      if (conflicts.length > 0) {
+        return { entry, restored, conflicts };
+      }
+    }
+
+    // Undo in reverse order so files are removed before the directories that hold them
+    try {
+      for (const change of [...entry.changes].reverse()) {
+        if (change.type === 'file') {
+          if (change.before === null) {
+            await fs.rm(change.absolutePath, { force: true });
+          } else {
+            await fs.mkdir(path.dirname(change.absolutePath), { recursive: true });
+            await writeFileAtomic(change.absolutePath, change.before);
+          }
+          restored.push(change.toolPath);
+        } else if (change.type === 'move') {
+          // Never overwrite something that now occupies the original location
+          if (existsSync(change.absolutePath) || !existsSync(change.targetAbsolutePath)) {
+            conflicts.push(change.toolPath);
+          } else {
+            await fs.mkdir(path.dirname(change.absolutePath), { recursive: true });
+            await movePath(change.targetAbsolutePath, change.absolutePath);
+            restored.push(change.toolPath);
+          }
+        } else if (existsSync(change.absolutePath)) {
+          const contents = await fs.readdir(change.absolutePath);
+          if (contents.length === 0) {
+            await fs.rmdir(change.absolutePath);
+            restored.push(change.toolPath);
+          } else {
+            conflicts.push(change.toolPath);
+          }
+        }
+      }
+    } finally {
+      reportFileChanges(entry.changes);
+    }
+
+    entry.undone = true;
+    return { entry, restored, conflicts };
+  }
+
+  /**
+   * Drop the file contents an entry keeps, leaving a record of what changed
+   */
+  private release(entry: JournalEntry): void {
+    this.imageBytes -= countImageBytes(entry);
+    entry.released = true;
+    entry.changes = entry.changes.map(change =>
+      change.type === 'file'
+        ? {
+            ...change,
+            before: change.before && RELEASED_CONTENT,
+            after: change.after && RELEASED_CONTENT,
+          }
+        : change
+    );
+  }
+
+  /**
+   * Check whether a file still has the content recorded after the change
+   */
+  private async matchesAfterImage(
+    change: Extract<JournalChange, { type: 'file' }>
+  ): Promise<boolean> {
+    const current = existsSync(change.absolutePath) ? await fs.readFile(change.absolutePath) : null;
+    if (current === null || change.after === null) {
+      return current === change.after;
+    }
+    return current.equals(change.after);
+  }
+}
+
+// Create singleton instance
+export const changeJournal = new ChangeJournal();
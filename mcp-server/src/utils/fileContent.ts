@@ -0,0 +1,394 @@
+/**
+ * File Content
+ * Content sniffing for files read by the tools: text encoding detection, binary detection
+ * and image recognition
+ */
+import path from 'path';
+
+/**
+ * Text encodings the server can detect and decode
+ */
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+/**
+ * Result of sniffing a file's content
+ */
+export type SniffedContent =
+  | { kind: 'text'; encoding: TextEncoding; text: string }
+  | { kind: 'image'; mimeType: string }
+  | { kind: 'binary'; description: string };
+
+/**
+ * Line ending and byte order mark convention of a text file
+ */
+export interface TextFormat {
+  eol: '\n' | '\r\n' | null; // Predominant line ending, null if the text has no line breaks
+  bom: boolean; // Whether the text starts with a UTF-8 byte order mark
+}
+
+/**
+ * How line endings of written text are chosen
+ */
+export type LineEndingMode = 'preserve' | 'lf' | 'crlf';
+
+// Only the start of a file is inspected when deciding whether it is binary
+const SNIFF_BYTES = 8000;
+
+// Control characters that are common in text files: tab, newline, form feed, carriage return, escape
+const TEXT_CONTROL_BYTES = new Set([0x09, 0x0a, 0x0c, 0x0d, 0x1b]);
+
+// Image types returned as MCP image content, keyed by extension
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+
+// Code file types returned in a fenced block tagged with the extension
+const CODE_EXTENSIONS = [
+  '.js',
+  '.ts',
+  '.jsx',
+  '.tsx',
+  '.py',
+  '.java',
+  '.go',
+  '.sh',
+  '.c',
+  '.cpp',
+  '.cs',
+  '.php',
+  '.rb',
+  '.rs',
+  '.swift',
+  '.kt',
+  '.json',
+  '.yml',
+  '.yaml',
+  '.toml',
+  '.xml',
+  '.html',
+  '.css',
+  '.scss',
+  '.less',
+  '.sql',
+];
+
+// MIME types for text files, keyed by extension; other text is text/plain
+const TEXT_MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.js': 'text/javascript',
+  '.jsx': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.ts': 'text/x-typescript',
+  '.tsx': 'text/x-typescript',
+  '.py': 'text/x-python',
+  '.java': 'text/x-java',
+  '.go': 'text/x-go',
+  '.rs': 'text/x-rust',
+  '.c': 'text/x-c',
+  '.cpp': 'text/x-c++',
+  '.sh': 'text/x-shellscript',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.yml': 'application/yaml',
+  '.yaml': 'application/yaml',
+  '.toml': 'application/toml',
+  '.sql': 'application/sql',
+};
+
+// MIME types for binary files, keyed by their magic number description
+const BINARY_MIME_TYPES: Record<string, string> = {
+  'PDF document': 'application/pdf',
+  'ZIP archive': 'application/zip',
+  'gzip archive': 'application/gzip',
+  'WebAssembly module': 'application/wasm',
+  'SQLite database': 'application/vnd.sqlite3',
+  'WOFF font': 'font/woff',
+  'WOFF2 font': 'font/woff2',
+};
+
+// Magic numbers for common binary formats, used to describe binaries and check images
+const MAGIC_NUMBERS: Array<{ bytes: number[]; offset?: number; description: string }> = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], description: 'PNG image' },
+  { bytes: [0xff, 0xd8, 0xff], description: 'JPEG image' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], description: 'GIF image' },
+  { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8, description: 'WebP image' },
+  { bytes: [0x25, 0x50, 0x44, 0x46], description: 'PDF document' },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], description: 'ZIP archive' },
+  { bytes: [0x1f, 0x8b], description: 'gzip archive' },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], description: 'ELF executable' },
+  { bytes: [0x4d, 0x5a], description: 'Windows executable' },
+  { bytes: [0xcf, 0xfa, 0xed, 0xfe], description: 'Mach-O executable' },
+  { bytes: [0x00, 0x61, 0x73, 0x6d], description: 'WebAssembly module' },
+  { bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65], description: 'SQLite database' },
+  { bytes: [0x77, 0x4f, 0x46, 0x46], description: 'WOFF font' },
+  { bytes: [0x77, 0x4f, 0x46, 0x32], description: 'WOFF2 font' },
+];
+
+/**
+ * Check whether content starts with the given bytes at an offset
+ */
+function hasBytes(content: Buffer, bytes: number[], offset: number = 0): boolean {
+  if (content.length < offset + bytes.length) {
+    return false;
+  }
+  return bytes.every((byte, index) => content[offset + index] === byte);
+}
+
+/**
+ * Detect UTF-16 text without a byte order mark from the pattern of zero bytes
+ * ASCII-heavy UTF-16 has a zero in every other byte.
+ */
+function detectBomlessUtf16(sample: Buffer): TextEncoding | undefined {
+  if (sample.length < 4) {
+    return undefined;
+  }
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const pairs = sample.length / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return 'utf-16be';
+  return undefined;
+}
+
+/**
+ * Check whether content is valid UTF-8
+ */
+function isValidUtf8(content: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the text encoding of file content
+ * Byte order marks win; otherwise UTF-16 is recognised from its zero bytes, and content that
+ * is not valid UTF-8 is treated as latin1.
+ *
+ * @param content Raw file bytes
+ * @returns Detected encoding
+ */
+export function detectTextEncoding(content: Buffer): TextEncoding {
+  if (hasBytes(content, [0xef, 0xbb, 0xbf])) return 'utf-8';
+  if (hasBytes(content, [0xff, 0xfe])) return 'utf-16le';
+  if (hasBytes(content, [0xfe, 0xff])) return 'utf-16be';
+
+  const utf16 = detectBomlessUtf16(content.subarray(0, SNIFF_BYTES));
+  if (utf16) {
+    return utf16;
+  }
+  return isValidUtf8(content) ? 'utf-8' : 'latin1';
+}
+
+/**
+ * Check whether file content is binary rather than text
+ * Text in a UTF-16 encoding is not considered binary even though it contains zero bytes.
+ *
+ * @param content Raw file bytes
+ * @returns True if the content looks binary
+ */
+export function isBinaryContent(content: Buffer): boolean {
+  if (content.length === 0) {
+    return false;
+  }
+  if (MAGIC_NUMBERS.some(magic => hasBytes(content, magic.bytes, magic.offset))) {
+    return true;
+  }
+
+  const encoding = detectTextEncoding(content);
+  if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+    return false;
+  }
+
+  const sample = content.subarray(0, SNIFF_BYTES);
+  let controlBytes = 0;
+  for (const byte of sample) {
+    if (byte === 0) {
+      return true;
+    }
+    if (byte < 0x20 && !TEXT_CONTROL_BYTES.has(byte)) {
+      controlBytes++;
+    }
+  }
+  return controlBytes > sample.length * 0.1;
+}
+
+/**
+ * Decode file content as text
+ * A byte order mark is removed from the result.
+ *
+ * @param content Raw file bytes
+ * @param encoding Encoding to decode with
+ * @returns Decoded text
+ */
+export function decodeText(content: Buffer, encoding: TextEncoding): string {
+  if (encoding === 'utf-16be') {
+    // Node has no UTF-16BE decoder, so swap to little endian first
+    const swapped = Buffer.from(content.subarray(0, content.length - (content.length % 2)));
+    return stripBom(swapped.swap16().toString('utf16le'));
+  }
+  return stripBom(content.toString(encoding === 'utf-16le' ? 'utf16le' : encoding));
+}
+
+/**
+ * Remove a leading byte order mark from decoded text
+ */
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Describe the type of a binary file
+ * @param content Raw file bytes
+ * @returns Human readable type, e.g. "PDF document"
+ */
+export function describeBinaryContent(content: Buffer): string {
+  const magic = MAGIC_NUMBERS.find(entry => hasBytes(content, entry.bytes, entry.offset));
+  return magic ? magic.description : 'binary data';
+}
+
+/**
+ * Get the MIME type to use when returning a file as an image
+ * The extension must be a supported image type and, for raster formats, the content must
+ * match it.
+ *
+ * @param content Raw file bytes
+ * @param filePath File path, used for its extension
+ * @returns MIME type, or undefined if the file should not be returned as an image
+ */
+export function getImageMimeType(content: Buffer, filePath: string): string | undefined {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (!mimeType) {
+    return undefined;
+  }
+  if (mimeType === 'image/svg+xml') {
+    return content.subarray(0, SNIFF_BYTES).toString('utf-8').includes('<svg')
+      ? mimeType
+      : undefined;
+  }
+  const description = describeBinaryContent(content);
+  return description.endsWith(' image') ? mimeType : undefined;
+}
+
+/**
+ * Sniff file content to decide how it should be presented
+ * @param content Raw file bytes
+ * @param filePath File path, used for its extension
+ * @returns Text with its detected encoding, an image MIME type, or a binary description
+ */
+export function sniffFileContent(content: Buffer, filePath: string): SniffedContent {
+  const mimeType = getImageMimeType(content, filePath);
+  if (mimeType) {
+    return { kind: 'image', mimeType };
+  }
+  if (isBinaryContent(content)) {
+    return { kind: 'binary', description: describeBinaryContent(content) };
+  }
+  const encoding = detectTextEncoding(content);
+  return { kind: 'text', encoding, text: decodeText(content, encoding) };
+}
+
+/**
+ * Get the MIME type of sniffed file content
+ * @param sniffed Result of sniffFileContent
+ * @param filePath File path, used for its extension
+ * @returns MIME type, falling back to text/plain or application/octet-stream
+ */
+export function getMimeType(sniffed: SniffedContent, filePath: string): string {
+  if (sniffed.kind === 'image') {
+    return sniffed.mimeType;
+  }
+  if (sniffed.kind === 'binary') {
+    return BINARY_MIME_TYPES[sniffed.description] || 'application/octet-stream';
+  }
+  return TEXT_MIME_TYPES[path.extname(filePath).toLowerCase()] || 'text/plain';
+}
+
+/**
+ * Format text file content for display, fencing code and markdown files
+ * @param filePath File path, used for its extension
+ * @param text File content (or the part of it being shown)
+ * @returns Fenced content for recognized file types, otherwise the text as is
+ */
+export function fenceFileContent(filePath: string, text: string): string {
+  const fileExt = path.extname(filePath).toLowerCase();
+  if (['.md', '.markdown'].includes(fileExt)) {
+    return `\`\`\`markdown\n${text}\n\`\`\``;
+  }
+  if (CODE_EXTENSIONS.includes(fileExt)) {
+    return `\`\`\`${fileExt.slice(1)}\n${text}\n\`\`\``;
+  }
+  return text;
+}
+
+/**
+ * Detect the line ending and byte order mark convention of text
+ * @param content Text or raw UTF-8 bytes
+ * @returns Detected format
+ */
+export function detectTextFormat(content: string | Buffer): TextFormat {
+  const text = Buffer.isBuffer(content) ? content.toString('utf-8') : content;
+  const crlf = (text.match(/\r\n/g) || []).length;
+  const lf = (text.match(/\n/g) || []).length - crlf;
+  return {
+    eol: crlf === 0 && lf === 0 ? null : crlf > lf ? '\r\n' : '\n',
+    bom: text.charCodeAt(0) === 0xfeff,
+  };
+}
+
+/**
+ * Convert text to a line ending and byte order mark convention
+ * @param text Text to convert
+ * @param format Target format; a null eol leaves line endings unchanged
+ * @returns Converted text
+ */
+export function applyTextFormat(text: string, format: TextFormat): string {
+  let result = stripBom(text);
+  if (format.eol) {
+    result = result.replace(/\r?\n/g, format.eol);
+  }
+  return format.bom ? `\ufeff${result}` : result;
+}
+
+/**
+ * Work out the format to write text in
+ * Explicit choices win; otherwise the existing file's convention is kept, and new files are
+ * written as given.
+ *
+ * @param text Text about to be written
+ * @param existing Current file content, or null for a new file
+ * @param lineEnding Line ending mode requested by the caller
+ * @param bom Byte order mark requested by the caller, undefined to keep the existing one
+ * @returns Format to write the text in
+ */
+export function resolveTextFormat(
+  text: string,
+  existing: Buffer | null,
+  lineEnding: LineEndingMode = 'preserve',
+  bom?: boolean
+): TextFormat {
+  const current: TextFormat = existing
+    ? detectTextFormat(existing)
+    : { eol: null, bom: detectTextFormat(text).bom };
+  const eol = lineEnding === 'lf' ? '\n' : lineEnding === 'crlf' ? '\r\n' : current.eol;
+  return { eol, bom: bom ?? current.bom };
+}
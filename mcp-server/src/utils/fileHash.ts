@@ -0,0 +1,70 @@
+/**
+ * File Hash
+ * Content hashing used for optimistic concurrency checks between reads and writes
+ */
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+
+/**
+ * Version information for a file on disk
+ */
+export interface FileVersion {
+  hash: string; // Content hash in the form sha256:<hex>
+  mtime: string; // Last modification time as an ISO string
+}
+
+/**
+ * Compute the content hash of file content
+ * @param content Raw file bytes or text (text is hashed as UTF-8)
+ * @returns Hash in the form sha256:<hex>
+ */
+export function computeContentHash(content: Buffer | string): string {
+  return `sha256:${createHash('sha256').update(content).digest('hex')}`;
+}
+
+/**
+ * Get the current version of a file
+ * @param absolutePath Absolute filesystem path
+ * @returns File version, or null if the file does not exist
+ */
+export async function getFileVersion(absolutePath: string): Promise<FileVersion | null> {
+  try {
+    const [content, stats] = await Promise.all([fs.readFile(absolutePath), fs.stat(absolutePath)]);
+    return { hash: computeContentHash(content), mtime: stats.mtime.toISOString() };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Verify that a file still has the content the caller last read
+ * @param absolutePath Absolute filesystem path
+ * @param expectedHash Hash returned by read-file, or undefined to skip the check
+ * @param displayPath Path to show in the error message
+ * @returns Error message if the file changed, otherwise undefined
+ */
+export async function checkExpectedHash(
+  absolutePath: string,
+  expectedHash: string | undefined,
+  displayPath: string
+): Promise<string | undefined> {
+  if (!expectedHash) {
+    return undefined;
+  }
+
+  const version = await getFileVersion(absolutePath);
+  if (!version) {
+    return `File '${displayPath}' no longer exists on disk, but expectedHash was provided. Re-read the file before writing.`;
+  }
+
+  // Accept hashes with or without the algorithm prefix
+  const normalizedExpected = expectedHash.includes(':') ? expectedHash : `sha256:${expectedHash}`;
+  if (version.hash !== normalizedExpected) {
+    return `File '${displayPath}' has changed on disk since it was read (expected ${normalizedExpected}, found ${version.hash}, modified ${version.mtime}). Re-read the file and reapply your changes.`;
+  }
+
+  return undefined;
+}
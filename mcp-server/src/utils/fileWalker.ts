@@ -0,0 +1,348 @@
+/**
+ * File Walker
+ * Walks repository directories, skipping what git and the server are told to ignore
+ *
+ * Ignore rules are applied in this order, a later matching rule winning as in git:
+ * 1. DEFAULT_IGNORE_PATTERNS (dependencies and build output)
+ * 2. .git/info/exclude
+ * 3. .gitignore files, from the repository root down to the directory being read
+ * 4. The config file's ignore patterns, then the server-level .swiftcoderignore
+ * Any rule can be undone by a later "!pattern" rule. .git and the trash are always skipped,
+ * and symbolic links are never followed or reported.
+ */
+import { Dirent } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { globToRegExp } from './glob.js';
+import { getServerConfig } from './serverConfig.js';
+import { TRASH_DIRECTORY } from './trash.js';
+
+/**
+ * A file or directory found by the walker
+ */
+export interface WalkEntry {
+  name: string;
+  absolutePath: string;
+  relativePath: string; // Relative to the repository root, with forward slashes
+  isDirectory: boolean;
+}
+
+/**
+ * Options for walking a directory tree
+ */
+export interface WalkOptions {
+  maxDepth?: number; // Levels to yield (1: start directory only); unlimited by default
+  includeDirectories?: boolean; // Yield directories as well as files
+  filterDirectory?: (entry: WalkEntry) => boolean; // Return false to skip a directory's contents
+}
+
+/**
+ * One line of an ignore file
+ */
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean; // "!pattern" re-includes matching paths
+  directoryOnly: boolean; // "pattern/" only matches directories
+  base: string; // Directory of the ignore file relative to the repository root, '' for the root
+}
+
+// Ignored unless a .gitignore or the server re-includes them
+export const DEFAULT_IGNORE_PATTERNS = [
+  'node_modules/',
+  '__pycache__/',
+  'venv/',
+  '.venv/',
+  'dist/',
+  'build/',
+  'coverage/',
+  '.next/',
+];
+
+// Never walked, whatever the ignore files say
+export const ALWAYS_SKIPPED = ['.git', TRASH_DIRECTORY];
+
+// Server-level ignore file used when SWIFT_CODER_IGNORE is not set
+const DEFAULT_SERVER_IGNORE_FILE = '/.swiftcoderignore';
+
+/**
+ * Get the path of the server-level ignore file, which may not exist
+ */
+export function getServerIgnoreFile(): string {
+  return process.env.SWIFT_CODER_IGNORE || DEFAULT_SERVER_IGNORE_FILE;
+}
+
+/**
+ * Parse the lines of a .gitignore style file
+ * @param text File content, or one pattern per array element
+ * @param base Directory the patterns are relative to, relative to the repository root
+ * @returns Ignore rules in file order
+ */
+export function parseIgnorePatterns(text: string | string[], base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  const lines = Array.isArray(text) ? text : text.split(/\r?\n/);
+
+  for (const line of lines) {
+    let pattern = line.trimEnd();
+    if (!pattern || pattern.startsWith('#')) {
+      continue;
+    }
+
+    const negated = pattern.startsWith('!');
+    if (negated) {
+      pattern = pattern.slice(1);
+    } else if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+      pattern = pattern.slice(1);
+    }
+
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+    if (!pattern) {
+      continue;
+    }
+
+    // Braces are literal in ignore files but alternatives in globToRegExp
+    pattern = pattern.replace(/[{}]/g, brace => `[${brace}]`);
+    rules.push({ regex: globToRegExp(pattern), negated, directoryOnly, base });
+  }
+  return rules;
+}
+
+/**
+ * Compare two relative paths in the order a walk yields them
+ * Within a directory, subdirectories come before files and each group is sorted by name.
+ */
+export function compareWalkOrder(a: string, b: string): number {
+  const aParts = a.split('/');
+  const bParts = b.split('/');
+  for (let i = 0; i < Math.min(aParts.length, bParts.length); i++) {
+    if (aParts[i] !== bParts[i]) {
+      const aIsDirectory = i < aParts.length - 1;
+      const bIsDirectory = i < bParts.length - 1;
+      return Number(bIsDirectory) - Number(aIsDirectory) || aParts[i].localeCompare(bParts[i]);
+    }
+  }
+  return aParts.length - bParts.length;
+}
+
+/**
+ * Apply ignore rules to a path
+ * @returns True if ignored, false if re-included, undefined if no rule matches
+ */
+function matchRules(
+  rules: IgnoreRule[],
+  relativePath: string,
+  isDirectory: boolean
+): boolean | undefined {
+  let result: boolean | undefined;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+    const pathFromBase = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    if (rule.regex.test(pathFromBase)) {
+      result = !rule.negated;
+    }
+  }
+  return result;
+}
+
+/**
+ * Read an ignore file
+ * @returns Its rules, or none if the file does not exist
+ */
+async function readIgnoreFile(filePath: string, base: string): Promise<IgnoreRule[]> {
+  try {
+    return parseIgnorePatterns(await fs.readFile(filePath, 'utf8'), base);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Convert a path below the repository root to a relative path with forward slashes
+ */
+function toRelativePath(repoRoot: string, absolutePath: string): string {
+  return path.relative(repoRoot, absolutePath).split(path.sep).join('/');
+}
+
+/**
+ * File Walker class
+ * Lists and walks the directories of one repository; ignore files are read once per walker,
+ * so create a new walker to pick up changes to them
+ */
+export class FileWalker {
+  private readonly repoRoot: string;
+  private gitRulesByDirectory: Map<string, Promise<IgnoreRule[]>> = new Map();
+  private serverRules?: Promise<IgnoreRule[]>;
+
+  /**
+   * @param repoRoot Absolute path to the repository root; .gitignore files are read from here down
+   */
+  constructor(repoRoot: string) {
+    this.repoRoot = path.resolve(repoRoot);
+  }
+
+  /**
+   * Get the rules from the server: the config file's ignore patterns and .swiftcoderignore
+   */
+  private getServerRules(): Promise<IgnoreRule[]> {
+    if (!this.serverRules) {
+      this.serverRules = readIgnoreFile(getServerIgnoreFile(), '').then(fileRules => [
+        ...parseIgnorePatterns(getServerConfig().ignore),
+        ...fileRules,
+      ]);
+    }
+    return this.serverRules;
+  }
+
+  /**
+   * Get the git rules that apply to the entries of a directory
+   * @param relativeDir Directory relative to the repository root, '' for the root
+   */
+  private getGitRules(relativeDir: string): Promise<IgnoreRule[]> {
+    let rules = this.gitRulesByDirectory.get(relativeDir);
+    if (!rules) {
+      rules = (async () => {
+        const absoluteDir = path.join(this.repoRoot, relativeDir);
+        const inherited = relativeDir
+          ? await this.getGitRules(path.posix.dirname(relativeDir).replace(/^\.$/, ''))
+          : [
+              ...parseIgnorePatterns(DEFAULT_IGNORE_PATTERNS),
+              ...(await readIgnoreFile(path.join(this.repoRoot, '.git', 'info', 'exclude'), '')),
+            ];
+        const own = await readIgnoreFile(path.join(absoluteDir, '.gitignore'), relativeDir);
+        return own.length > 0 ? [...inherited, ...own] : inherited;
+      })();
+      this.gitRulesByDirectory.set(relativeDir, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Check whether a path is ignored
+   * Only the path itself is checked, not the directories above it.
+   *
+   * @param absolutePath Absolute path inside the repository
+   * @param isDirectory Whether the path is a directory
+   * @returns True if the path is ignored
+   */
+  public async isIgnored(absolutePath: string, isDirectory: boolean): Promise<boolean> {
+    const relativePath = toRelativePath(this.repoRoot, absolutePath);
+    if (ALWAYS_SKIPPED.includes(path.posix.basename(relativePath))) {
+      return true;
+    }
+
+    const parentDir = path.posix.dirname(relativePath).replace(/^\.$/, '');
+    const [gitRules, serverRules] = await Promise.all([
+      this.getGitRules(parentDir),
+      this.getServerRules(),
+    ]);
+    return (
+      matchRules(serverRules, relativePath, isDirectory) ??
+      matchRules(gitRules, relativePath, isDirectory) ??
+      false
+    );
+  }
+
+  /**
+   * Check whether a path found below a directory would be skipped by walking that directory
+   * Unlike isIgnored, every directory between the start directory and the path is checked.
+   *
+   * @param startDir Absolute path to the directory being walked
+   * @param absolutePath Absolute path below the start directory
+   * @param isDirectory Whether the path is a directory
+   * @returns True if the path or one of the directories above it is ignored
+   */
+  public async isIgnoredBelow(
+    startDir: string,
+    absolutePath: string,
+    isDirectory: boolean
+  ): Promise<boolean> {
+    const segments = path.relative(startDir, absolutePath).split(path.sep);
+    let current = startDir;
+    for (let i = 0; i < segments.length; i++) {
+      current = path.join(current, segments[i]);
+      if (await this.isIgnored(current, i < segments.length - 1 || isDirectory)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * List the entries of a directory that are not ignored
+   * @param absoluteDir Absolute path to a directory inside the repository
+   * @returns Files and directories, directories first, each group sorted by name
+   */
+  public async listDirectory(absoluteDir: string): Promise<WalkEntry[]> {
+    let dirents: Dirent[];
+    try {
+      dirents = await fs.readdir(absoluteDir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const entries: WalkEntry[] = [];
+    for (const dirent of dirents) {
+      if ((!dirent.isFile() && !dirent.isDirectory()) || ALWAYS_SKIPPED.includes(dirent.name)) {
+        continue;
+      }
+      const absolutePath = path.join(absoluteDir, dirent.name);
+      if (await this.isIgnored(absolutePath, dirent.isDirectory())) {
+        continue;
+      }
+      entries.push({
+        name: dirent.name,
+        absolutePath,
+        relativePath: toRelativePath(this.repoRoot, absolutePath),
+        isDirectory: dirent.isDirectory(),
+      });
+    }
+
+    return entries.sort(
+      (a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name)
+    );
+  }
+
+  /**
+   * Walk a directory tree depth-first, skipping ignored paths
+   * The start directory itself is walked even if it is ignored.
+   *
+   * @param startDir Absolute path to a directory inside the repository
+   * @param options Walk options
+   * @returns Entries below the start directory, in listDirectory order within each directory
+   */
+  public async *walk(startDir: string, options: WalkOptions = {}): AsyncGenerator<WalkEntry> {
+    yield* this.walkDirectory(startDir, 0, options);
+  }
+
+  /**
+   * Walk one directory and those below it
+   */
+  private async *walkDirectory(
+    absoluteDir: string,
+    depth: number,
+    options: WalkOptions
+  ): AsyncGenerator<WalkEntry> {
+    for (const entry of await this.listDirectory(absoluteDir)) {
+      if (!entry.isDirectory) {
+        yield entry;
+        continue;
+      }
+      if (options.includeDirectories) {
+        yield entry;
+      }
+      if (options.filterDirectory && !options.filterDirectory(entry)) {
+        continue;
+      }
+      if (depth + 1 < (options.maxDepth ?? Infinity)) {
+        yield* this.walkDirectory(entry.absolutePath, depth + 1, options);
+      }
+    }
+  }
+}
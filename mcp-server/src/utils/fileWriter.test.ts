@@ -0,0 +1,87 @@
+/**
+ * File Writer tests
+ */
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { movePathTracked, onFileChange, writeFileAtomic, writeFileTracked } from './fileWriter.js';
+import { RepoChange } from './repoWatcher.js';
+
+describe('writeFileAtomic', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-writer-'));
+    fs.mkdirSync(path.join(dir, 'shared'));
+    fs.writeFileSync(path.join(dir, 'shared', 'config.json'), '{}');
+    fs.chmodSync(path.join(dir, 'shared', 'config.json'), 0o600);
+    fs.symlinkSync('shared/config.json', path.join(dir, 'config.json'));
+    fs.symlinkSync('shared/missing.json', path.join(dir, 'dangling.json'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replaces a file and keeps its permissions', async () => {
+    const target = path.join(dir, 'shared', 'config.json');
+    await writeFileAtomic(target, Buffer.from('{"a":1}'));
+    assert.equal(fs.readFileSync(target, 'utf-8'), '{"a":1}');
+    assert.equal(fs.statSync(target).mode & 0o777, 0o600);
+  });
+
+  it('writes through a symbolic link instead of replacing it', async () => {
+    await writeFileAtomic(path.join(dir, 'config.json'), Buffer.from('{"b":2}'));
+    assert.equal(fs.lstatSync(path.join(dir, 'config.json')).isSymbolicLink(), true);
+    assert.equal(fs.readFileSync(path.join(dir, 'shared', 'config.json'), 'utf-8'), '{"b":2}');
+  });
+
+  it('creates the target of a dangling symbolic link', async () => {
+    await writeFileAtomic(path.join(dir, 'dangling.json'), Buffer.from('[]'));
+    assert.equal(fs.lstatSync(path.join(dir, 'dangling.json')).isSymbolicLink(), true);
+    assert.equal(fs.readFileSync(path.join(dir, 'shared', 'missing.json'), 'utf-8'), '[]');
+  });
+});
+
+describe('tracked writes', () => {
+  let dir: string;
+  const reported: RepoChange[] = [];
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-writer-'));
+    onFileChange(change => reported.push(change));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports each change before returning', async () => {
+    reported.length = 0;
+    await writeFileTracked('/repo/src/new.ts', path.join(dir, 'src', 'new.ts'), 'x');
+    assert.deepEqual(reported, [
+      { repoId: 'repo', paths: ['src'], structural: true },
+      { repoId: 'repo', paths: ['src/new.ts'], structural: true },
+    ]);
+
+    reported.length = 0;
+    await writeFileTracked('/repo/src/new.ts', path.join(dir, 'src', 'new.ts'), 'y');
+    assert.deepEqual(reported, [{ repoId: 'repo', paths: ['src/new.ts'], structural: false }]);
+  });
+
+  it('reports both ends of a move', async () => {
+    reported.length = 0;
+    await movePathTracked(
+      '/repo/src/new.ts',
+      path.join(dir, 'src', 'new.ts'),
+      '/repo/src/old.ts',
+      path.join(dir, 'src', 'old.ts')
+    );
+    assert.deepEqual(reported, [
+      { repoId: 'repo', paths: ['src/new.ts', 'src/old.ts'], structural: true },
+    ]);
+  });
+});
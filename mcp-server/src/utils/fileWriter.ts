@@ -0,0 +1,333 @@
+/**
+ * File Writer
+ * Shared write path for all mutating tools, returning the changes made for the change journal
+ */
+import { randomBytes } from 'crypto';
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { JournalChange } from './changeJournal.js';
+import { realpathOfLongestExistingPrefix } from './pathContainment.js';
+import { RepoChange } from './repoWatcher.js';
+
+// Told about every change made through this module, before the write function returns
+const fileChangeListeners: ((change: RepoChange) => void)[] = [];
+
+/**
+ * Register a listener for the changes the server makes itself
+ * Unlike the repository watcher's debounced batches, listeners are called as soon as a tracked
+ * write, move, delete or undo has happened, so indexes are never stale for the next request.
+ *
+ * @param listener Called once per repository changed
+ */
+export function onFileChange(listener: (change: RepoChange) => void): void {
+  fileChangeListeners.push(listener);
+}
+
+/**
+ * Tell the listeners about changes made through this module or by undo
+ * @param changes Changes made, in format /repoId/path/to/file
+ */
+export function reportFileChanges(changes: JournalChange[]): void {
+  const byRepo = new Map<string, RepoChange>();
+  const add = (toolPath: string, structural: boolean): void => {
+    const [repoId, ...segments] = toolPath.split('/').filter(Boolean);
+    if (!repoId || segments.length === 0) {
+      return;
+    }
+    const repoChange = byRepo.get(repoId) ?? { repoId, paths: [], structural: false };
+    repoChange.paths.push(segments.join('/'));
+    repoChange.structural = repoChange.structural || structural;
+    byRepo.set(repoId, repoChange);
+  };
+
+  for (const change of changes) {
+    if (change.type === 'file') {
+      add(change.toolPath, change.before === null || change.after === null);
+    } else if (change.type === 'move') {
+      add(change.toolPath, true);
+      add(change.targetToolPath, true);
+    } else {
+      add(change.toolPath, true);
+    }
+  }
+
+  for (const repoChange of byRepo.values()) {
+    repoChange.paths = [...new Set(repoChange.paths)].sort();
+    for (const listener of fileChangeListeners) {
+      try {
+        listener(repoChange);
+      } catch (error) {
+        console.error(`Error handling changes in ${repoChange.repoId}:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Read the current content of a file, or null if it does not exist
+ * @param absolutePath Absolute filesystem path
+ * @returns File content or null
+ */
+export async function captureFileState(absolutePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(absolutePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a file atomically
+ * The content is written and flushed to a temporary file in the same directory, which is then
+ * renamed over the target, so a crash never leaves a partially written file. An existing
+ * file keeps its permissions, and a symlink is written through rather than replaced.
+ *
+ * @param absolutePath Absolute filesystem path
+ * @param content New file content
+ */
+export async function writeFileAtomic(absolutePath: string, content: Buffer): Promise<void> {
+  const targetPath = realpathOfLongestExistingPrefix(path.resolve(absolutePath));
+
+  let mode: number | undefined;
+  try {
+    mode = (await fs.stat(targetPath)).mode & 0o7777;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const tempPath = path.join(
+    path.dirname(targetPath),
+    `.${path.basename(targetPath)}.${randomBytes(4).toString('hex')}.tmp`
+  );
+
+  try {
+    const handle = await fs.open(tempPath, 'wx', mode ?? 0o666);
+    try {
+      await handle.writeFile(content);
+      if (mode !== undefined) {
+        // The mode passed to open is reduced by the umask
+        await handle.chmod(mode);
+      }
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, targetPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Create a directory and any missing parents, recording each directory created
+ * @param toolPath Directory path in format /repoId/path/to/dir
+ * @param absolutePath Absolute filesystem path of the directory
+ * @param mode Permission mode for created directories
+ * @returns Directory changes, outermost first
+ */
+export async function createDirectoryTracked(
+  toolPath: string,
+  absolutePath: string,
+  mode?: number
+): Promise<JournalChange[]> {
+  // Walk up until an existing directory is found, pairing tool and absolute paths
+  const missing: JournalChange[] = [];
+  let currentTool = toolPath.replace(/\/+$/, '');
+  let currentAbsolute = absolutePath.replace(/\/+$/, '');
+  while (!existsSync(currentAbsolute)) {
+    missing.unshift({ type: 'directory', toolPath: currentTool, absolutePath: currentAbsolute });
+    const parent = path.dirname(currentAbsolute);
+    if (parent === currentAbsolute) break;
+    currentAbsolute = parent;
+    currentTool = path.posix.dirname(currentTool);
+  }
+
+  if (missing.length > 0) {
+    await fs.mkdir(absolutePath, { recursive: true, mode });
+    reportFileChanges(missing);
+  }
+  return missing;
+}
+
+/**
+ * Write a file, creating parent directories as needed
+ * @param toolPath File path in format /repoId/path/to/file
+ * @param absolutePath Absolute filesystem path
+ * @param content New file content
+ * @returns Changes made: created directories followed by the file change
+ */
+export async function writeFileTracked(
+  toolPath: string,
+  absolutePath: string,
+  content: string | Buffer
+): Promise<JournalChange[]> {
+  const before = await captureFileState(absolutePath);
+  const changes = await createDirectoryTracked(
+    path.posix.dirname(toolPath),
+    path.dirname(absolutePath)
+  );
+
+  const after = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf-8');
+  await writeFileAtomic(absolutePath, after);
+
+  const change: JournalChange = { type: 'file', toolPath, absolutePath, before, after };
+  reportFileChanges([change]);
+  changes.push(change);
+  return changes;
+}
+
+/**
+ * Delete a file
+ * @param toolPath File path in format /repoId/path/to/file
+ * @param absolutePath Absolute filesystem path
+ * @returns The file change, with the deleted content as its before-image
+ */
+export async function deleteFileTracked(
+  toolPath: string,
+  absolutePath: string
+): Promise<JournalChange[]> {
+  const before = await captureFileState(absolutePath);
+  await fs.unlink(absolutePath);
+
+  const changes: JournalChange[] = [{ type: 'file', toolPath, absolutePath, before, after: null }];
+  reportFileChanges(changes);
+  return changes;
+}
+
+/**
+ * Rename a file or directory, copying across filesystems when a rename is not possible
+ * @param sourceAbsolutePath Absolute path to move
+ * @param targetAbsolutePath Absolute destination path, which must not exist
+ */
+export async function movePath(
+  sourceAbsolutePath: string,
+  targetAbsolutePath: string
+): Promise<void> {
+  try {
+    await fs.rename(sourceAbsolutePath, targetAbsolutePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await fs.cp(sourceAbsolutePath, targetAbsolutePath, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+    });
+    await fs.rm(sourceAbsolutePath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Move a file or directory, creating the target's parent directories as needed
+ * @param sourceToolPath Path to move in format /repoId/path/to/file
+ * @param sourceAbsolutePath Absolute filesystem path to move
+ * @param targetToolPath Destination path in format /repoId/path/to/file
+ * @param targetAbsolutePath Absolute destination path, which must not exist
+ * @returns Changes made: created directories followed by the move
+ */
+export async function movePathTracked(
+  sourceToolPath: string,
+  sourceAbsolutePath: string,
+  targetToolPath: string,
+  targetAbsolutePath: string
+): Promise<JournalChange[]> {
+  const changes = await createDirectoryTracked(
+    path.posix.dirname(targetToolPath),
+    path.dirname(targetAbsolutePath)
+  );
+
+  await movePath(sourceAbsolutePath, targetAbsolutePath);
+
+  const change: JournalChange = {
+    type: 'move',
+    toolPath: sourceToolPath,
+    absolutePath: sourceAbsolutePath,
+    targetToolPath,
+    targetAbsolutePath,
+  };
+  reportFileChanges([change]);
+  changes.push(change);
+  return changes;
+}
+
+/**
+ * Copy a file or directory tree, recording every directory and file created
+ * Symbolic links are not followed or copied, so a copy cannot pull in content from outside
+ * the repository.
+ *
+ * @param sourceAbsolutePath Absolute path to copy
+ * @param targetToolPath Destination path in format /repoId/path/to/file
+ * @param targetAbsolutePath Absolute destination path
+ * @param changes Array the changes are appended to as they happen, so a partial copy can
+ *   still be recorded
+ * @returns Tool paths of the symbolic links that were skipped
+ */
+export async function copyPathTracked(
+  sourceAbsolutePath: string,
+  targetToolPath: string,
+  targetAbsolutePath: string,
+  changes: JournalChange[]
+): Promise<string[]> {
+  const stats = await fs.lstat(sourceAbsolutePath);
+
+  if (stats.isSymbolicLink()) {
+    return [targetToolPath];
+  }
+
+  if (!stats.isDirectory()) {
+    changes.push(
+      ...(await writeFileTracked(
+        targetToolPath,
+        targetAbsolutePath,
+        await fs.readFile(sourceAbsolutePath)
+      ))
+    );
+    await fs.chmod(targetAbsolutePath, stats.mode & 0o777);
+    return [];
+  }
+
+  changes.push(...(await createDirectoryTracked(targetToolPath, targetAbsolutePath)));
+
+  const skipped: string[] = [];
+  const entries = await fs.readdir(sourceAbsolutePath);
+  for (const entry of entries.sort()) {
+    skipped.push(
+      ...(await copyPathTracked(
+        path.join(sourceAbsolutePath, entry),
+        `${targetToolPath}/${entry}`,
+        path.join(targetAbsolutePath, entry),
+        changes
+      ))
+    );
+  }
+  return skipped;
+}
+
+/**
+ * List every file and directory below a directory without following symbolic links
+ * @param absolutePath Absolute filesystem path of the directory
+ * @returns Relative paths using forward slashes, each directory before its contents
+ */
+export async function listTree(absolutePath: string): Promise<string[]> {
+  const result: string[] = [];
+  const entries = await fs.readdir(absolutePath, { withFileTypes: true });
+  for (const entry of entries) {
+    result.push(entry.name);
+    if (entry.isDirectory()) {
+      const children = await listTree(path.join(absolutePath, entry.name));
+      result.push(...children.map(child => `${entry.name}/${child}`));
+    }
+  }
+  return result;
+}
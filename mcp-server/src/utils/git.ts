@@ -0,0 +1,92 @@
+/**
+ * Git Queries
+ * Read-only git lookups used to describe files in a repository
+ */
+import { execFile } from 'child_process';
+
+/**
+ * Git state of a single path
+ */
+export interface GitPathStatus {
+  tracked: boolean;
+  modified: boolean;
+  ignored: boolean;
+  status: string; // Porcelain status code (e.g. " M", "A ", "??", "!!"), empty when clean
+}
+
+// Git lookups describe a file; they must never hold up a tool call for long
+const GIT_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Run a git command in a directory
+ * @param args Git arguments
+ * @param cwd Directory to run in
+ * @returns Standard output
+ */
+export function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout) => {
+        if (error) {
+          reject(error.killed ? new Error('git timed out') : error);
+          return;
+        }
+        resolve(stdout.toString());
+      }
+    );
+  });
+}
+
+/**
+ * Get the git state of a path within a repository
+ * @param repoPath Absolute path to the repository root
+ * @param relativePath Path relative to the repository root
+ * @returns Git state, or null if the repository is not a git work tree or git is unavailable
+ */
+export async function getGitPathStatus(
+  repoPath: string,
+  relativePath: string
+): Promise<GitPathStatus | null> {
+  const pathspec = `:(literal)${relativePath || '.'}`;
+
+  try {
+    const [tracked, status] = await Promise.all([
+      runGit(['ls-files', '--cached', '-z', '--', pathspec], repoPath),
+      runGit(['status', '--porcelain=v1', '--ignored', '-z', '--', pathspec], repoPath),
+    ]);
+
+    // Entries are "XY path"; renames and copies are followed by their original path
+    const codes: string[] = [];
+    const entries = status.split('\0');
+    for (let i = 0; i < entries.length; i++) {
+      if (!entries[i]) continue;
+      const code = entries[i].slice(0, 2);
+      codes.push(code);
+      if (code.includes('R') || code.includes('C')) i++;
+    }
+
+    // Directories report one entry per changed file; any change marks the path as modified
+    const isTracked = tracked.length > 0;
+    const ignored = !isTracked && codes.includes('!!');
+    const changed = codes.filter(code => code !== '!!' && code !== '??');
+
+    let summary = changed[0] ?? '';
+    if (!summary && ignored) {
+      summary = '!!';
+    } else if (!summary && codes.includes('??')) {
+      summary = '??';
+    }
+
+    return {
+      tracked: isTracked,
+      modified: changed.length > 0,
+      ignored,
+      status: summary,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Glob Matching
+ * Minimal glob support for repository-relative paths
+ *
+ * Supported syntax:
+ * - `*` matches any characters except `/`
+ * - `?` matches a single character except `/`
+ * - `**` matches any number of path segments (including none)
+ * - `{a,b}` matches any of the comma-separated alternatives
+ * - `[abc]` / `[!abc]` character classes
+ * Patterns without a `/` (or with only a trailing one) match at any depth (e.g. `*.lock`,
+ * `build/`), other patterns are anchored to the repository root (e.g. `.github/**`).
+ */
+
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Escape a character for use in a regular expression
+ */
+function escapeRegExpChar(char: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Normalize a relative path or pattern: forward slashes, no leading "./" or "/"
+ * @param value Path or pattern
+ * @returns Normalized value
+ */
+export function normalizeGlobPath(value: string): string {
+  return value
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/^\/+/, '');
+}
+
+/**
+ * Check whether a path contains glob syntax
+ * @param value Path or pattern
+ * @returns True if the value contains *, ?, [ or {
+ */
+export function hasGlobSyntax(value: string): boolean {
+  return /[*?[{]/.test(value);
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching whole relative paths
+ * @param pattern Glob pattern
+ * @returns Regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = regexCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  // A leading "/" anchors the pattern to the root
+  const anchored = /^\.?\//.test(pattern);
+  let glob = normalizeGlobPath(pattern);
+
+  // "dir/" means the directory and everything in it
+  const directoryPattern = glob.endsWith('/');
+  if (directoryPattern) {
+    glob = glob.replace(/\/+$/, '');
+  }
+  // Slash-free patterns match at any depth, like .gitignore
+  if (!anchored && !glob.includes('/') && !glob.startsWith('**')) {
+    glob = `**/${glob}`;
+  }
+  if (directoryPattern) {
+    glob = `${glob}/**`;
+  }
+
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+
+        if (atSegmentStart && glob[i + 2] === '/') {
+          // "**/" matches zero or more leading directories
+          source += '(?:.*/)?';
+          i += 2;
+        } else if (atSegmentStart && atSegmentEnd && i > 0) {
+          // Trailing "/**" also matches the directory itself
+          source = source.replace(/\\\/$/, '');
+          source += '(?:/.*)?';
+          i += 1;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        let body = glob.slice(i + 1, close).replace(/\\/g, '\\\\');
+        if (body.startsWith('!')) {
+          body = `^${body.slice(1)}`;
+        }
+        source += `[${body}]`;
+        i = close;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExpChar(char);
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  regexCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Check whether a repository-relative path matches a glob pattern
+ * @param relativePath Path relative to the repository root
+ * @param pattern Glob pattern
+ * @returns True if the path matches
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(normalizeGlobPath(relativePath));
+}
+
+/**
+ * Find the first pattern a path matches
+ * @param relativePath Path relative to the repository root
+ * @param patterns Glob patterns
+ * @returns The matching pattern, or undefined if none match
+ */
+export function findMatchingGlob(relativePath: string, patterns: string[]): string | undefined {
+  return patterns.find(pattern => matchesGlob(relativePath, pattern));
+}
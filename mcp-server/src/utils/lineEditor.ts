@@ -0,0 +1,135 @@
+/**
+ * Line Editor
+ * Helpers for line-based editing of text files used by the line editing tools
+ */
+import fs from 'fs/promises';
+
+/**
+ * A text file split into lines, remembering how it was originally terminated
+ */
+export interface LineDocument {
+  lines: string[]; // File lines without line terminators
+  eol: string; // Line ending used by the file ('\n' or '\r\n')
+  trailingNewline: boolean; // Whether the file ended with a line terminator
+}
+
+/**
+ * Split raw file content into a line document
+ * @param content Raw file content
+ * @returns Line document preserving the original line ending convention
+ */
+export function parseLines(content: string): LineDocument {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const trailingNewline = content.endsWith('\n');
+  const lines = content.split(/\r?\n/);
+
+  // A trailing line terminator produces an empty last element that is not a real line
+  if (trailingNewline) {
+    lines.pop();
+  }
+
+  return { lines, eol, trailingNewline };
+}
+
+/**
+ * Join a line document back into raw file content
+ * @param doc Line document
+ * @returns Raw file content using the document's line ending convention
+ */
+export function joinLines(doc: LineDocument): string {
+  if (doc.lines.length === 0) {
+    return '';
+  }
+  return doc.lines.join(doc.eol) + (doc.trailingNewline ? doc.eol : '');
+}
+
+/**
+ * Split text supplied by a tool caller into lines
+ * A single trailing newline is ignored so "foo\n" inserts one line, not two
+ * @param text Text to split
+ * @returns Array of lines
+ */
+export function splitTextLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  return text.replace(/\r?\n$/, '').split(/\r?\n/);
+}
+
+/**
+ * Read a file from disk as a line document
+ * @param absolutePath Absolute filesystem path
+ * @returns Line document for the file
+ */
+export async function readLineDocument(absolutePath: string): Promise<LineDocument> {
+  const stats = await fs.stat(absolutePath);
+  if (!stats.isFile()) {
+    throw new Error('Path is not a file');
+  }
+  const content = await fs.readFile(absolutePath, 'utf-8');
+  return parseLines(content);
+}
+
+/**
+ * Format a numbered excerpt of a document around an edited range
+ * @param lines Document lines
+ * @param startLine First edited line (1-based)
+ * @param endLine Last edited line (1-based, may be less than startLine for pure deletions)
+ * @param contextLines Number of unchanged lines to show around the edit
+ * @returns Fenced, line-numbered excerpt
+ */
+export function formatNumberedExcerpt(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  contextLines: number = 3
+): string {
+  if (lines.length === 0) {
+    return '```\n(file is empty)\n```';
+  }
+
+  const from = Math.max(1, Math.min(startLine, endLine) - contextLines);
+  const to = Math.min(lines.length, Math.max(startLine, endLine) + contextLines);
+
+  return `\`\`\`\n${formatNumberedLines(lines.slice(from - 1, to), from)}\n\`\`\``;
+}
+
+/**
+ * Prefix lines with right-aligned line numbers
+ * @param lines Lines to number
+ * @param firstLine Line number of the first line (1-based)
+ * @returns Lines in "N | text" form joined with newlines
+ */
+export function formatNumberedLines(lines: string[], firstLine: number): string {
+  const width = String(firstLine + lines.length - 1).length;
+  return lines
+    .map((line, index) => `${String(firstLine + index).padStart(width)} | ${line}`)
+    .join('\n');
+}
+
+/**
+ * Validate a 1-based inclusive line range against a document
+ * @param startLine First line of the range
+ * @param endLine Last line of the range
+ * @param totalLines Number of lines in the document
+ * @returns Error message if the range is invalid, otherwise undefined
+ */
+export function validateLineRange(
+  startLine: number,
+  endLine: number,
+  totalLines: number
+): string | undefined {
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine)) {
+    return 'Line numbers must be integers';
+  }
+  if (startLine < 1) {
+    return `startLine must be at least 1 (got ${startLine})`;
+  }
+  if (endLine < startLine) {
+    return `endLine (${endLine}) must not be less than startLine (${startLine})`;
+  }
+  if (endLine > totalLines) {
+    return `endLine (${endLine}) is beyond the end of the file (${totalLines} lines)`;
+  }
+  return undefined;
+}
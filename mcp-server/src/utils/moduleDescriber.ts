@@ -0,0 +1,274 @@
+/**
+ * Module Describer
+ * Summarizes a detected module from its manifest, README and files
+ */
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { FileWalker } from './fileWalker.js';
+import { ModuleInfo } from './moduleManager.js';
+import { resolveToAbsolutePath } from './path-handler.js';
+import { getRepoBasePath } from './repoManager.js';
+
+/**
+ * Information read from a module's manifest file
+ */
+export interface ModuleManifest {
+  file: string; // Manifest file name, e.g. package.json
+  name?: string;
+  version?: string;
+  description?: string;
+  scripts: Record<string, string>; // Script or command name to what it runs
+  entrypoints: string[]; // Main files, binaries or exported paths
+}
+
+/**
+ * Full description of a module
+ */
+export interface ModuleDescription {
+  module: ModuleInfo;
+  manifest?: ModuleManifest;
+  readme?: { file: string; excerpt: string; truncated: boolean };
+  fileCount: number;
+  totalSize: number;
+  countTruncated: boolean; // True if counting stopped at MAX_COUNTED_FILES
+}
+
+// Manifest files in the order they are tried
+const MANIFEST_FILES = ['package.json', 'pyproject.toml', 'Cargo.toml', 'go.mod'];
+
+const README_FILES = ['README.md', 'README.rst', 'README.txt', 'README', 'readme.md'];
+
+// Lines of the README included in a description
+const README_EXCERPT_LINES = 30;
+
+// Stop counting files after this many
+const MAX_COUNTED_FILES = 50000;
+
+/**
+ * Parse the simple parts of a TOML file: tables and single-line string values
+ * Arrays of tables ([[bin]]) are numbered: bin.0, bin.1, ...
+ *
+ * @param text TOML text
+ * @returns Map of table name ('' for the top level) to its string values
+ */
+function parseTomlTables(text: string): Map<string, Record<string, string>> {
+  const tables = new Map<string, Record<string, string>>([['', {}]]);
+  let current = tables.get('')!;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const arrayTable = line.match(/^\[\[\s*([^\]]+?)\s*\]\]$/);
+    const table = line.match(/^\[\s*([^\]]+?)\s*\]$/);
+
+    if (arrayTable) {
+      let index = 0;
+      while (tables.has(`${arrayTable[1]}.${index}`)) index++;
+      current = {};
+      tables.set(`${arrayTable[1]}.${index}`, current);
+    } else if (table) {
+      current = tables.get(table[1]) || {};
+      tables.set(table[1], current);
+    } else {
+      const value = line.match(/^([A-Za-z0-9_.-]+|"[^"]+")\s*=\s*(?:"([^"]*)"|'([^']*)')/);
+      if (value) {
+        current[value[1].replace(/"/g, '')] = value[2] ?? value[3];
+      }
+    }
+  }
+  return tables;
+}
+
+/**
+ * Read the manifest of a module directory
+ * @param moduleDir Absolute path to the module directory
+ * @returns Manifest information, or undefined if the module has no readable manifest
+ */
+async function readManifest(moduleDir: string): Promise<ModuleManifest | undefined> {
+  for (const file of MANIFEST_FILES) {
+    const manifestPath = path.join(moduleDir, file);
+    if (!existsSync(manifestPath)) {
+      continue;
+    }
+
+    try {
+      const text = await fs.readFile(manifestPath, 'utf8');
+      const manifest: ModuleManifest = { file, scripts: {}, entrypoints: [] };
+
+      if (file === 'package.json') {
+        const packageJson = JSON.parse(text);
+        manifest.name = packageJson.name;
+        manifest.version = packageJson.version;
+        manifest.description = packageJson.description;
+        manifest.scripts = { ...(packageJson.scripts || {}) };
+        if (typeof packageJson.main === 'string') manifest.entrypoints.push(packageJson.main);
+        if (typeof packageJson.bin === 'string') manifest.entrypoints.push(packageJson.bin);
+        if (packageJson.bin && typeof packageJson.bin === 'object') {
+          manifest.entrypoints.push(...(Object.values(packageJson.bin) as string[]));
+        }
+        if (typeof packageJson.exports === 'string') manifest.entrypoints.push(packageJson.exports);
+      } else if (file === 'go.mod') {
+        manifest.name = text.match(/^module\s+(\S+)/m)?.[1];
+        manifest.version = text.match(/^go\s+(\S+)/m)?.[1];
+        if (manifest.version) manifest.version = `go ${manifest.version}`;
+        if (existsSync(path.join(moduleDir, 'main.go'))) manifest.entrypoints.push('main.go');
+      } else {
+        const tables = parseTomlTables(text);
+        const project =
+          file === 'Cargo.toml'
+            ? tables.get('package')
+            : tables.get('project') || tables.get('tool.poetry');
+        manifest.name = project?.name;
+        manifest.version = project?.version;
+        manifest.description = project?.description;
+        manifest.scripts = {
+          ...(tables.get('project.scripts') || {}),
+          ...(tables.get('tool.poetry.scripts') || {}),
+        };
+        for (const [tableName, values] of tables) {
+          if (/^bin\.\d+$/.test(tableName) && values.name) {
+            manifest.entrypoints.push(
+              values.path ? `${values.name} (${values.path})` : values.name
+            );
+          }
+        }
+      }
+
+      return manifest;
+    } catch {
+      // Try the next manifest
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the start of a module's README
+ * @param moduleDir Absolute path to the module directory
+ * @returns README file name and excerpt, or undefined if there is no README
+ */
+async function readReadme(moduleDir: string): Promise<ModuleDescription['readme']> {
+  for (const file of README_FILES) {
+    try {
+      const lines = (await fs.readFile(path.join(moduleDir, file), 'utf8')).split(/\r?\n/);
+      return {
+        file,
+        excerpt: lines.slice(0, README_EXCERPT_LINES).join('\n').trimEnd(),
+        truncated: lines.length > README_EXCERPT_LINES,
+      };
+    } catch {
+      // Try the next name
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Count the files in a module and their total size, leaving out ignored files
+ */
+async function countFiles(
+  repoRoot: string,
+  moduleDir: string
+): Promise<{ fileCount: number; totalSize: number; countTruncated: boolean }> {
+  const result = { fileCount: 0, totalSize: 0, countTruncated: false };
+
+  for await (const entry of new FileWalker(repoRoot).walk(moduleDir)) {
+    if (result.fileCount >= MAX_COUNTED_FILES) {
+      result.countTruncated = true;
+      break;
+    }
+    result.fileCount++;
+    result.totalSize += (await fs.stat(entry.absolutePath).catch(() => ({ size: 0 }))).size;
+  }
+  return result;
+}
+
+/**
+ * Describe a module from its manifest, README and files
+ * @param module Module to describe
+ * @returns Module description
+ */
+export async function describeModule(module: ModuleInfo): Promise<ModuleDescription> {
+  if (!module.repoId) {
+    throw new Error(`Module ${module.id} is not registered with a repository`);
+  }
+
+  const moduleDir = resolveToAbsolutePath(`/${module.repoId}/${module.path}`);
+  const [manifest, readme, counts] = await Promise.all([
+    readManifest(moduleDir),
+    readReadme(moduleDir),
+    countFiles(getRepoBasePath(module.repoId), moduleDir),
+  ]);
+  return { module, manifest, readme, ...counts };
+}
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Format modules as a list, one line per module, grouped by repository
+ * @param modulesByRepo Map of repository IDs to their modules
+ * @returns Formatted list
+ */
+export function formatModuleList(modulesByRepo: Record<string, ModuleInfo[]>): string {
+  const sections = Object.entries(modulesByRepo)
+    .filter(([, modules]) => modules.length > 0)
+    .map(([repoId, modules]) => {
+      const lines = modules
+        .slice()
+        .sort((a, b) => a.path.localeCompare(b.path))
+        .map(
+          module =>
+            `- ${module.id}: ${module.name} (${module.type}, ${module.language}) at /${repoId}/${module.path}`
+        );
+      return `Repository ${repoId}:\n${lines.join('\n')}`;
+    });
+  return sections.length > 0 ? sections.join('\n\n') : 'No modules found.';
+}
+
+/**
+ * Format a module description for display
+ * @param description Module description
+ * @returns Formatted description
+ */
+export function formatModuleDescription(description: ModuleDescription): string {
+  const { module, manifest, readme } = description;
+  const lines = [
+    `Module ${module.id}: ${module.name}`,
+    `path: /${module.repoId}/${module.path}`,
+    `type: ${module.type}`,
+    `language: ${module.language}`,
+    `files: ${description.fileCount}${description.countTruncated ? '+' : ''} (${formatSize(description.totalSize)})`,
+  ];
+
+  if (manifest) {
+    lines.push('', `Manifest (${manifest.file}):`);
+    if (manifest.name) lines.push(`  name: ${manifest.name}`);
+    if (manifest.version) lines.push(`  version: ${manifest.version}`);
+    if (manifest.description) lines.push(`  description: ${manifest.description}`);
+    if (manifest.entrypoints.length > 0) {
+      lines.push(`  entrypoints: ${manifest.entrypoints.join(', ')}`);
+    }
+    const scripts = Object.entries(manifest.scripts);
+    if (scripts.length > 0) {
+      lines.push('  scripts:', ...scripts.map(([name, command]) => `    ${name}: ${command}`));
+    }
+  }
+
+  if (readme) {
+    lines.push(
+      '',
+      `${readme.file}${readme.truncated ? ` (first ${README_EXCERPT_LINES} lines)` : ''}:`
+    );
+    lines.push(readme.excerpt);
+  }
+
+  return lines.join('\n');
+}
@@ -2,15 +2,57 @@
  * Module Manager
  * Handles the detection, registration, and management of modules across repositories
  */
-import { execFile } from 'child_process';
 import { existsSync } from 'fs';
 import fs from 'fs/promises';
 import path from 'path';
-import { promisify } from 'util';
 
+import { FileWalker } from './fileWalker.js';
 import { repoManager } from './repoManager.js';
 
-const execFileAsync = promisify(execFile);
+// Map file extensions to languages
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.py': 'python',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.c': 'c',
+  '.cpp': 'cpp',
+  '.cs': 'csharp',
+  '.swift': 'swift',
+  '.html': 'html',
+  '.css': 'css',
+  '.scss': 'scss',
+  '.less': 'less',
+  '.md': 'markdown',
+  '.json': 'json',
+  '.yml': 'yaml',
+  '.yaml': 'yaml',
+  '.toml': 'toml',
+  '.sh': 'shell',
+  '.bash': 'shell',
+};
+
+// Files whose presence in a top-level directory makes it a module
+const MODULE_MANIFESTS = [
+  'package.json',
+  'requirements.txt',
+  'setup.py',
+  'pyproject.toml',
+  'go.mod',
+  'Cargo.toml',
+];
+
+// Top-level directories that hold static sites
+const STATIC_SITE_DIRS = ['docs', 'website', 'gh-pages', 'static'];
+
+// Files looked at when detecting the language of a directory
+const MAX_LANGUAGE_SAMPLE_FILES = 20000;
 
 /**
  * Module information interface
@@ -133,6 +175,54 @@ export class ModuleManager {
     return undefined;
   }
 
+  /**
+   * Find a module by ID, name or path, optionally within a single repository
+   * @param moduleName Module ID, name or path
+   * @param repoId Repository ID (searches all repositories if not specified)
+   * @returns Module information or undefined if not found
+   */
+  public findModule(moduleName: string, repoId?: string): ModuleInfo | undefined {
+    if (!repoId) {
+      return this.getModuleByName(moduleName);
+    }
+    return (
+      this.getModule(moduleName, repoId) ||
+      this.getModulesForRepo(repoId).find(
+        module => module.name === moduleName || module.path === moduleName
+      )
+    );
+  }
+
+  /**
+   * Find the module that contains a path within a repository
+   * The most specific (longest) module path wins; a root module matches everything
+   * @param repoId Repository ID
+   * @param relativePath Path relative to repository root
+   * @returns Module information or undefined if no module contains the path
+   */
+  public getModuleForPath(repoId: string, relativePath: string): ModuleInfo | undefined {
+    const repoModules = this.modulesByRepo.get(repoId);
+    if (!repoModules) {
+      return undefined;
+    }
+
+    const normalizedPath = relativePath.replace(/^\/+/, '');
+    let bestMatch: ModuleInfo | undefined;
+
+    for (const module of repoModules.values()) {
+      const containsPath =
+        module.path === '' ||
+        normalizedPath === module.path ||
+        normalizedPath.startsWith(`${module.path}/`);
+
+      if (containsPath && (!bestMatch || module.path.length > bestMatch.path.length)) {
+        bestMatch = module;
+      }
+    }
+
+    return bestMatch;
+  }
+
   /**
    * Get all modules across all repositories
    * @returns Map of repository IDs to arrays of module information objects
@@ -181,6 +271,42 @@ export class ModuleManager {
     return totalModules;
   }
 
+  /**
+   * Re-detect the modules of one repository, replacing its previous detections
+   * @param repoId Repository ID
+   * @returns Number of modules detected
+   */
+  public async refreshModules(repoId: string): Promise<number> {
+    const repo = repoManager.getRepository(repoId);
+    if (!repo) {
+      return 0;
+    }
+
+    const modules = await this.detectModulesInRepository(repo.path, repo.id);
+    this.modulesByRepo.delete(repoId);
+    modules.forEach(module => {
+      this.registerModule(repoId, module);
+    });
+    return modules.length;
+  }
+
+  /**
+   * Check whether a change to a path can change the detected modules
+   * Detection only looks at top-level directories, their manifests and static site contents
+   * @param relativePath Path relative to repository root
+   * @returns True if the repository's modules should be re-detected
+   */
+  public affectsModuleDetection(relativePath: string): boolean {
+    const segments = relativePath.split('/').filter(Boolean);
+    if (segments.length === 1) {
+      return true;
+    }
+    return (
+      segments.length === 2 &&
+      (MODULE_MANIFESTS.includes(segments[1]) || STATIC_SITE_DIRS.includes(segments[0]))
+    );
+  }
+
   /**
    * Detect modules in a repository using various detection strategies
    * @param repoPath Absolute path to repository
@@ -213,7 +339,7 @@ export class ModuleManager {
           name: repoManager.getRepository(repoId)?.displayName || repoId,
           path: '',
           type: 'unknown',
-          language: await this.detectLanguage(repoPath),
+          language: await this.detectLanguage(repoPath, repoPath),
         });
       }
     } catch {
@@ -363,9 +489,7 @@ export class ModuleManager {
 
     try {
       // Check for common static site directories
-      const staticSiteDirs = ['docs', 'website', 'gh-pages', 'static'];
-
-      for (const dir of staticSiteDirs) {
+      for (const dir of STATIC_SITE_DIRS) {
         const dirPath = path.join(repoPath, dir);
 
         if (existsSync(dirPath)) {
@@ -423,7 +547,7 @@ export class ModuleManager {
 
             if (stats.isDirectory()) {
               // Determine the primary language
-              const language = await this.detectLanguage(dirPath);
+              const language = await this.detectLanguage(dirPath, repoPath);
 
               modules.push({
                 id: dir,
@@ -446,83 +570,43 @@ export class ModuleManager {
     return modules;
   }
 
+  /**
+   * Get the language of a single file from its extension
+   * @param filePath File path
+   * @returns Language of the file, or 'unknown' if the extension is not mapped
+   */
+  public getFileLanguage(filePath: string): string {
+    return LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()] || 'unknown';
+  }
+
   /**
    * Detect the primary language of a directory by examining file extensions
+   * Files ignored by git or the server are not counted.
    * @param dirPath Directory path
+   * @param repoPath Absolute path to the repository containing the directory
    * @returns Primary language of the directory
    */
-  private async detectLanguage(dirPath: string): Promise<string> {
+  private async detectLanguage(dirPath: string, repoPath: string): Promise<string> {
     try {
-      // Use find command to get all files recursively
-      const { stdout } = await execFileAsync('find', [
-        dirPath,
-        '-type',
-        'f',
-        '-name',
-        '*.*',
-        '-not',
-        '-path',
-        '*/node_modules/*',
-        '-not',
-        '-path',
-        '*/.git/*',
-        '-not',
-        '-path',
-        '*/venv/*',
-        '-not',
-        '-path',
-        '*/build/*',
-        '-not',
-        '-path',
-        '*/dist/*',
-      ]);
-
-      const files = stdout.split('\n').filter(Boolean);
-
-      // Count file extensions
+      // Count file extensions, stopping after a sample large enough to be representative
       const extCounts: Record<string, number> = {};
+      let fileCount = 0;
 
-      for (const file of files) {
-        const ext = path.extname(file).toLowerCase();
+      for await (const entry of new FileWalker(repoPath).walk(dirPath)) {
+        const ext = path.extname(entry.name).toLowerCase();
         if (ext) {
           extCounts[ext] = (extCounts[ext] || 0) + 1;
         }
+        if (++fileCount >= MAX_LANGUAGE_SAMPLE_FILES) {
+          break;
+        }
       }
 
-      // Map extensions to languages
-      const langMap: Record<string, string> = {
-        '.js': 'javascript',
-        '.jsx': 'javascript',
-        '.ts': 'typescript',
-        '.tsx': 'typescript',
-        '.py': 'python',
-        '.go': 'go',
-        '.rs': 'rust',
-        '.java': 'java',
-        '.rb': 'ruby',
-        '.php': 'php',
-        '.c': 'c',
-        '.cpp': 'cpp',
-        '.cs': 'csharp',
-        '.swift': 'swift',
-        '.html': 'html',
-        '.css': 'css',
-        '.scss': 'scss',
-        '.less': 'less',
-        '.md': 'markdown',
-        '.json': 'json',
-        '.yml': 'yaml',
-        '.yaml': 'yaml',
-        '.toml': 'toml',
-        '.sh': 'shell',
-        '.bash': 'shell',
-      };
-
       // Convert extension counts to language counts
       const langCounts: Record<string, number> = {};
 
       for (const [ext, count] of Object.entries(extCounts)) {
-        const lang = langMap[ext] || 'unknown';
+        const lang = LANGUAGE_BY_EXTENSION[ext] || 'unknown';
         langCounts[lang] = (langCounts[lang] || 0) + count;
       }
 
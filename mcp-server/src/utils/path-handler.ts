@@ -2,6 +2,9 @@
  * Path handling utilities for the MCP server
  * Provides consistent path validation and resolution across tools
  */
+import { posix } from 'path';
+
+import { resolveWithinRepository } from './pathContainment.js';
 import { repoManager } from './repoManager.js';
 
 /**
@@ -142,13 +145,25 @@ Convert your path to: ${examplePath}`,
  */
 export const toolPathValidationConfig = {
   'read-file': { requiresAbsolutePath: true },
+  'read-files': { requiresAbsolutePath: true },
+  'file-info': { requiresAbsolutePath: true },
   'create-file': { requiresAbsolutePath: true },
   'update-file': { requiresAbsolutePath: true },
+  'edit-file': { requiresAbsolutePath: true },
+  'insert-lines': { requiresAbsolutePath: true },
+  'replace-lines': { requiresAbsolutePath: true },
+  'delete-lines': { requiresAbsolutePath: true },
+  'apply-patch': { requiresAbsolutePath: true },
+  'find-files': { requiresAbsolutePath: true },
   'search-files': { requiresAbsolutePath: true },
+  'list-symbols': { requiresAbsolutePath: true },
   'exec-shell-command': { requiresAbsolutePath: true },
   'path-demo': { requiresAbsolutePath: true },
   'repo-tree': { requiresAbsolutePath: true },
   'ensure-dir-exists': { requiresAbsolutePath: true },
+  'move-path': { requiresAbsolutePath: true },
+  'copy-path': { requiresAbsolutePath: true },
+  'delete-path': { requiresAbsolutePath: true },
   'get-repositories': { requiresAbsolutePath: false },
 };
 
@@ -179,8 +194,10 @@ export function formatPathForTool(
 
 /**
  * Resolve a path to an absolute path on the filesystem
+ * The result is always confined to the repository the path addresses
  * @param path Path to resolve (in any format)
  * @returns Absolute filesystem path
+ * @throws PathContainmentError if the path escapes its repository
  */
 export function resolveToAbsolutePath(path: string): string {
   const { repoId, relativePath } = parsePathFormat(path);
@@ -190,5 +207,16 @@ export function resolveToAbsolutePath(path: string): string {
     throw new Error(`Repository not found: ${repoId}`);
   }
 
-  return `${repo.path}/${relativePath}`;
+  return resolveWithinRepository(repo.path, relativePath, path);
+}
+
+/**
+ * Check whether a path addresses the root of its repository
+ * @param path Path to check (in any format)
+ * @returns True if the path resolves to the repository root itself
+ */
+export function isRepositoryRoot(path: string): boolean {
+  const { relativePath } = parsePathFormat(path);
+  const normalized = posix.normalize(relativePath || '.');
+  return normalized === '.' || normalized === './' || normalized === '/';
 }
@@ -0,0 +1,55 @@
+/**
+ * Path Containment tests
+ */
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import {
+  PathContainmentError,
+  realpathOfLongestExistingPrefix,
+  resolveWithinRepository,
+} from './pathContainment.js';
+
+describe('resolveWithinRepository', () => {
+  let repoPath: string;
+
+  before(() => {
+    repoPath = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'path-containment-')));
+    fs.mkdirSync(path.join(repoPath, 'src'));
+    fs.symlinkSync('src/missing.ts', path.join(repoPath, 'dangling.ts'));
+    fs.symlinkSync(os.tmpdir(), path.join(repoPath, 'outside'));
+    fs.symlinkSync('b', path.join(repoPath, 'a'));
+    fs.symlinkSync('a', path.join(repoPath, 'b'));
+  });
+
+  after(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  const isCode = (code: string) => (error: Error) =>
+    error instanceof PathContainmentError && error.code === code;
+
+  it('accepts new files and dangling links that stay inside', () => {
+    assert.equal(
+      resolveWithinRepository(repoPath, 'src/new/file.ts'),
+      path.join(repoPath, 'src/new/file.ts')
+    );
+    assert.equal(
+      realpathOfLongestExistingPrefix(path.join(repoPath, 'dangling.ts')),
+      path.join(repoPath, 'src/missing.ts')
+    );
+  });
+
+  it('rejects .. and links that leave the repository', () => {
+    assert.throws(() => resolveWithinRepository(repoPath, '../x'), isCode('PATH_TRAVERSAL'));
+    assert.throws(() => resolveWithinRepository(repoPath, 'outside/x'), isCode('SYMLINK_ESCAPE'));
+  });
+
+  it('rejects a loop of symbolic links instead of following it forever', () => {
+    assert.throws(() => resolveWithinRepository(repoPath, 'a'), isCode('SYMLINK_ESCAPE'));
+    assert.throws(() => resolveWithinRepository(repoPath, 'a/file.ts'), isCode('SYMLINK_ESCAPE'));
+  });
+});
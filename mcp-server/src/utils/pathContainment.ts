@@ -0,0 +1,161 @@
+/**
+ * Path Containment
+ * Confines resolved paths to the repository they were addressed through
+ */
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Reasons a path can be rejected by the containment check
+ */
+export type PathContainmentErrorCode =
+  | 'INVALID_PATH' // The path contains characters that can never be valid
+  | 'PATH_TRAVERSAL' // The path uses ".." (or an absolute segment) to leave the repository
+  | 'SYMLINK_ESCAPE'; // The path passes through a symlink that points outside the repository
+
+/**
+ * Error thrown when a path would resolve outside its repository
+ */
+export class PathContainmentError extends Error {
+  public readonly code: PathContainmentErrorCode;
+  public readonly requestedPath: string;
+
+  constructor(code: PathContainmentErrorCode, requestedPath: string, message: string) {
+    super(`[${code}] ${message}`);
+    this.name = 'PathContainmentError';
+    this.code = code;
+    this.requestedPath = requestedPath;
+  }
+}
+
+// Symbolic links followed before a path is taken to loop, as in the Linux kernel
+const MAX_LINK_HOPS = 40;
+
+/**
+ * Check whether a path is the root itself or lies beneath it
+ */
+function isWithin(root: string, candidate: string): boolean {
+  return (
+    candidate === root || candidate.startsWith(root.endsWith(path.sep) ? root : root + path.sep)
+  );
+}
+
+/**
+ * Build the error for a path that runs into a loop of symbolic links
+ */
+function symlinkLoopError(candidate: string): PathContainmentError {
+  return new PathContainmentError(
+    'SYMLINK_ESCAPE',
+    candidate,
+    `Path '${candidate}' passes through a loop of symbolic links.`
+  );
+}
+
+/**
+ * Resolve the real location of a path whose trailing components may not exist yet
+ * The longest existing prefix is passed through realpath and the missing components
+ * are appended, so files about to be created are checked against where they would land.
+ *
+ * @param candidate Normalized absolute path
+ * @returns Real path the candidate refers to
+ * @throws PathContainmentError if the path runs into a loop of symbolic links
+ */
+export function realpathOfLongestExistingPrefix(candidate: string): string {
+  const missing: string[] = [];
+  let current = candidate;
+  let linkHops = 0;
+
+  for (;;) {
+    try {
+      const stats = fs.lstatSync(current);
+
+      if (stats.isSymbolicLink() && !fs.existsSync(current)) {
+        // Dangling symlink: writing through it would create its target
+        if (++linkHops > MAX_LINK_HOPS) {
+          throw symlinkLoopError(candidate);
+        }
+        current = path.resolve(path.dirname(current), fs.readlinkSync(current));
+        continue;
+      }
+
+      return path.join(fs.realpathSync(current), ...missing);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ELOOP') {
+        throw symlinkLoopError(candidate);
+      }
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+        throw error;
+      }
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return path.join(current, ...missing);
+    }
+    missing.unshift(path.basename(current));
+    current = parent;
+  }
+}
+
+/**
+ * Resolve a repository-relative path to an absolute path confined to the repository
+ *
+ * @param repoRoot Absolute path of the repository root
+ * @param relativePath Path relative to the repository root
+ * @param displayPath Path as the caller wrote it, used in error messages
+ * @returns Normalized absolute path inside the repository
+ * @throws PathContainmentError if the path escapes the repository
+ */
+export function resolveWithinRepository(
+  repoRoot: string,
+  relativePath: string,
+  displayPath: string = relativePath
+): string {
+  if (relativePath.includes('\0')) {
+    throw new PathContainmentError(
+      'INVALID_PATH',
+      displayPath,
+      `Path '${displayPath}' contains a NUL byte.`
+    );
+  }
+
+  const root = path.resolve(repoRoot);
+  // Leading slashes are stripped so the path is always taken relative to the root
+  const resolved = path.resolve(root, relativePath.replace(/^[/\\]+/, ''));
+
+  if (!isWithin(root, resolved)) {
+    throw new PathContainmentError(
+      'PATH_TRAVERSAL',
+      displayPath,
+      `Path '${displayPath}' resolves outside its repository. Paths may not use '..' to leave the repository root.`
+    );
+  }
+
+  const realRoot = realpathOfLongestExistingPrefix(root);
+  const realTarget = realpathOfLongestExistingPrefix(resolved);
+  if (!isWithin(realRoot, realTarget)) {
+    throw new PathContainmentError(
+      'SYMLINK_ESCAPE',
+      displayPath,
+      `Path '${displayPath}' passes through a symbolic link that points outside its repository (to '${realTarget}').`
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Get where a path inside a repository really lands, relative to the repository's real root
+ * Symbolic links are followed, including through components that do not exist yet, so the
+ * result names the location a write would actually change.
+ *
+ * @param repoRoot Absolute path of the repository root
+ * @param absolutePath Absolute path inside the repository, as returned by resolveWithinRepository
+ * @returns Path relative to the real repository root, with forward slashes
+ */
+export function resolveRealRelativePath(repoRoot: string, absolutePath: string): string {
+  const realRoot = realpathOfLongestExistingPrefix(path.resolve(repoRoot));
+  const realTarget = realpathOfLongestExistingPrefix(path.resolve(absolutePath));
+  return path.relative(realRoot, realTarget).split(path.sep).join('/');
+}
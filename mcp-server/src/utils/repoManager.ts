@@ -5,6 +5,20 @@
 import fs from 'fs';
 import path from 'path';
 
+import { findMatchingGlob } from './glob.js';
+import { resolveWithinRepository } from './pathContainment.js';
+import { getServerConfig, ServerConfig } from './serverConfig.js';
+
+/**
+ * Write policy for a repository
+ * Deny patterns win over allow patterns; a non-empty allow list restricts writes to matching paths
+ */
+export interface WritePolicy {
+  readOnly?: boolean; // Reject every write to the repository
+  allow?: string[]; // Glob patterns of paths that may be written
+  deny?: string[]; // Glob patterns of paths that must never be written
+}
+
 /**
  * Repository Configuration interface
  */
@@ -13,8 +27,12 @@ export interface RepoConfig {
   path: string; // Absolute path to the repository
   displayName: string; // Human-readable name
   moduleDetectionPatterns?: string[]; // Optional patterns to detect modules
+  writePolicy?: WritePolicy; // Optional restrictions on which paths may be written
 }
 
+// Directories never descended into when discovering repositories under scan roots
+const SCAN_SKIPPED_DIRS = ['node_modules', 'venv', '.venv'];
+
 /**
  * Repository Manager class
  * Manages multiple repositories and provides access to their paths and configurations
@@ -27,18 +45,100 @@ export class RepoManager {
 
   /**
    * Initialize the repository manager
-   * Automatically loads repositories from environment variables
+   * Automatically loads repositories from the config file and environment variables
    */
   constructor() {
     // Store the initial working directory
     this._initialWorkingDir = process.cwd();
 
-    this.loadFromEnvironment();
+    this.loadRepositories();
 
     // Always reset to root directory at initialization
     this.resetWorkingDirectory();
   }
 
+  /**
+   * Load repositories from the config file and environment variables
+   * Precedence, highest first:
+   * 1. Environment variables; REPO_NAME_{ID}, REPO_READONLY_{ID} and REPO_WRITE_*_{ID} override
+   *    single settings of a repository listed in the config file
+   * 2. Repositories listed in the config file
+   * 3. Git repositories discovered under the config file's scan roots
+   * The default repository is swift-coder if SWIFT_CODER_REPO_PATH is set, then the config file's
+   * defaultRepository, then the first repository loaded.
+   */
+  private loadRepositories(): void {
+    let config: ServerConfig | undefined;
+    try {
+      config = getServerConfig();
+    } catch {
+      // The server reports the error and exits at startup; keep the environment's repositories
+    }
+
+    if (config) {
+      this.loadFromConfig(config);
+    }
+    this.loadFromEnvironment();
+    if (config) {
+      this.discoverRepositories(config);
+    }
+
+    const defaultRepository = config?.defaultRepository;
+    if (defaultRepository && !process.env.SWIFT_CODER_REPO_PATH) {
+      if (this.repositories.has(defaultRepository)) {
+        this._defaultRepoId = defaultRepository;
+      } else {
+        process.stderr.write(
+          `Config defaultRepository '${defaultRepository}' is not an available repository\n`
+        );
+      }
+    }
+
+    // Log discovered repositories
+    if (this.repositories.size === 0) {
+      process.stderr.write('No valid repositories discovered in the config file or environment!\n');
+      process.stderr.write(
+        'Please set at least one environment variable in the format REPO_PATH_{ID}=/path/to/repo or list repositories in /swift-coder.config.yaml\n'
+      );
+    } else {
+      process.stderr.write(`Discovered ${this.repositories.size} repositories:\n`);
+      this.repositories.forEach(repo => {
+        const readOnly = repo.writePolicy?.readOnly ? ' [read-only]' : '';
+        process.stderr.write(`- ${repo.displayName} (${repo.id}): ${repo.path}${readOnly}\n`);
+      });
+      process.stderr.write(`Default repository: ${this.defaultRepoId}\n`);
+    }
+  }
+
+  /**
+   * Load the repositories listed in the config file
+   * Repositories whose path does not exist are reported and skipped.
+   * @param config Server configuration
+   */
+  private loadFromConfig(config: ServerConfig): void {
+    for (const repo of config.repositories) {
+      if (!fs.existsSync(repo.path)) {
+        process.stderr.write(
+          `Skipping repository ${repo.id} from config: ${repo.path} not found\n`
+        );
+        continue;
+      }
+
+      this.addRepository({
+        id: repo.id,
+        path: repo.path,
+        displayName:
+          process.env[`REPO_NAME_${repo.id.toUpperCase()}`] ||
+          repo.displayName ||
+          this.capitalizeRepoId(repo.id),
+        writePolicy: this.mergeWritePolicies(
+          repo.writePolicy,
+          this.loadWritePolicyFromEnvironment(repo.id)
+        ),
+      });
+    }
+  }
+
   /**
    * Load repositories from environment variables
    * The environment variables should follow the pattern:
@@ -53,14 +153,21 @@ export class RepoManager {
         const repoPath = process.env[key];
 
         if (repoPath && fs.existsSync(repoPath)) {
+          // A repository also listed in the config file keeps its settings unless overridden
+          const configured = this.repositories.get(repoId);
+
           // Get the display name from repo name environment variable or use ID
           const displayNameKey = `REPO_NAME_${repoId.toUpperCase()}`;
-          const displayName = process.env[displayNameKey] || this.capitalizeRepoId(repoId);
+          const displayName =
+            process.env[displayNameKey] || configured?.displayName || this.capitalizeRepoId(repoId);
 
           this.addRepository({
             id: repoId,
             path: repoPath,
             displayName,
+            writePolicy: configured
+              ? configured.writePolicy
+              : this.loadWritePolicyFromEnvironment(repoId),
           });
 
           // If this is the first repository, set it as default
@@ -82,20 +189,132 @@ export class RepoManager {
       // Always prefer Swift Coder as the default if available
       this._defaultRepoId = 'swift-coder';
     }
+  }
 
-    // Log discovered repositories
-    if (this.repositories.size === 0) {
-      process.stderr.write('No valid repositories discovered in environment variables!\n');
-      process.stderr.write(
-        'Please set at least one environment variable in the format REPO_PATH_{ID}=/path/to/repo\n'
-      );
-    } else {
-      process.stderr.write(`Discovered ${this.repositories.size} repositories:\n`);
-      this.repositories.forEach(repo => {
-        process.stderr.write(`- ${repo.displayName} (${repo.id}): ${repo.path}\n`);
-      });
-      process.stderr.write(`Default repository: ${this.defaultRepoId}\n`);
+  /**
+   * Load a repository's write policy from environment variables
+   * REPO_READONLY_{ID}=true makes the repository read-only
+   * REPO_WRITE_ALLOW_{ID} and REPO_WRITE_DENY_{ID} take comma-separated glob patterns,
+   * e.g. REPO_WRITE_DENY_ATLAS=.github/**,*.lock,migrations/**
+   * @param repoId Repository ID
+   * @returns Write policy, or undefined if none is configured
+   */
+  private loadWritePolicyFromEnvironment(repoId: string): WritePolicy | undefined {
+    const envId = repoId.toUpperCase();
+    const parseList = (value: string | undefined): string[] | undefined => {
+      const patterns = (value || '')
+        .split(',')
+        .map(pattern => pattern.trim())
+        .filter(Boolean);
+      return patterns.length > 0 ? patterns : undefined;
+    };
+
+    const readOnlyValue = process.env[`REPO_READONLY_${envId}`];
+    const policy: WritePolicy = {
+      readOnly: readOnlyValue
+        ? ['1', 'true', 'yes'].includes(readOnlyValue.toLowerCase())
+        : undefined,
+      allow: parseList(process.env[`REPO_WRITE_ALLOW_${envId}`]),
+      deny: parseList(process.env[`REPO_WRITE_DENY_${envId}`]),
+    };
+
+    return policy.readOnly !== undefined || policy.allow || policy.deny ? policy : undefined;
+  }
+
+  /**
+   * Discover git repositories under the config file's scan roots
+   * Directories matching the config file's ignore patterns are skipped, and repositories
+   * already registered by path are not added again. IDs come from the directory names.
+   * @param config Server configuration
+   */
+  private discoverRepositories(config: ServerConfig): void {
+    const knownPaths = new Set(this.getAllRepositories().map(repo => path.resolve(repo.path)));
+
+    const visit = (root: string, directory: string, depth: number): void => {
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(directory, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      // .git is a file in worktrees and submodules
+      if (entries.some(entry => entry.name === '.git')) {
+        if (!knownPaths.has(directory)) {
+          knownPaths.add(directory);
+          this.addDiscoveredRepository(directory);
+        }
+        return;
+      }
+      if (depth >= config.scan.depth) {
+        return;
+      }
+
+      for (const entry of entries) {
+        if (
+          !entry.isDirectory() ||
+          entry.name.startsWith('.') ||
+          SCAN_SKIPPED_DIRS.includes(entry.name)
+        ) {
+          continue;
+        }
+        const entryPath = path.join(directory, entry.name);
+        if (!findMatchingGlob(path.relative(root, entryPath), config.ignore)) {
+          visit(root, entryPath, depth + 1);
+        }
+      }
+    };
+
+    for (const root of config.scan.roots) {
+      if (!fs.existsSync(root)) {
+        process.stderr.write(`Skipping scan root ${root}: not found\n`);
+        continue;
+      }
+      visit(root, root, 0);
+    }
+  }
+
+  /**
+   * Register a repository found by scanning
+   * The ID is the directory name, made unique with a numeric suffix if needed
+   * @param repoPath Absolute path to the repository
+   */
+  private addDiscoveredRepository(repoPath: string): void {
+    const baseId =
+      path
+        .basename(repoPath)
+        .toLowerCase()
+        .replace(/[^a-z0-9_-]+/g, '-')
+        .replace(/^[-_]+/, '') || 'repo';
+    let repoId = baseId;
+    for (let suffix = 2; this.repositories.has(repoId); suffix++) {
+      repoId = `${baseId}-${suffix}`;
     }
+
+    this.addRepository({
+      id: repoId,
+      path: repoPath,
+      displayName: process.env[`REPO_NAME_${repoId.toUpperCase()}`] || path.basename(repoPath),
+      writePolicy: this.loadWritePolicyFromEnvironment(repoId),
+    });
+  }
+
+  /**
+   * Combine two write policies, the override winning setting by setting
+   * @param base Policy from the config file
+   * @param override Policy from environment variables
+   * @returns Combined policy, or undefined if neither sets anything
+   */
+  private mergeWritePolicies(
+    base: WritePolicy | undefined,
+    override: WritePolicy | undefined
+  ): WritePolicy | undefined {
+    const policy: WritePolicy = {
+      readOnly: override?.readOnly ?? base?.readOnly,
+      allow: override?.allow ?? base?.allow,
+      deny: override?.deny ?? base?.deny,
+    };
+    return policy.readOnly !== undefined || policy.allow || policy.deny ? policy : undefined;
   }
 
   /**
@@ -208,7 +427,7 @@ export class RepoManager {
    * Resolve a path relative to a repository root
    * @param relativePath Path relative to repository root
    * @param repoId Repository ID (uses default if not specified)
-   * @returns Absolute path
+   * @returns Absolute path, confined to the repository
    */
   public resolveRepoPath(relativePath: string, repoId?: string): string {
     // Always reset working directory first for consistency
@@ -219,7 +438,7 @@ export class RepoManager {
       throw new Error(`Repository "${repoId || this.defaultRepoId}" not found`);
     }
 
-    return path.join(repo.path, relativePath);
+    return resolveWithinRepository(repo.path, relativePath);
   }
 
   /**
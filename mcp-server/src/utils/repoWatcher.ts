@@ -0,0 +1,284 @@
+/**
+ * Repository Watcher
+ * Watches the registered repositories for changes and reports them in debounced batches
+ */
+import { existsSync, FSWatcher, watch } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { FileWalker } from './fileWalker.js';
+import { repoManager } from './repoManager.js';
+import { getServerConfig } from './serverConfig.js';
+
+/**
+ * A batch of changes within one repository
+ */
+export interface RepoChange {
+  repoId: string;
+  paths: string[]; // Changed paths relative to the repository root, sorted
+  structural: boolean; // True if entries were created, deleted or renamed
+}
+
+/**
+ * Callback for change batches
+ */
+export type RepoChangeListener = (change: RepoChange) => void | Promise<void>;
+
+/**
+ * Changes collected for a repository while waiting for it to settle
+ */
+interface PendingChanges {
+  paths: Set<string>;
+  structural: boolean;
+  firstQueuedAt: number;
+  timer?: NodeJS.Timeout;
+}
+
+// Wait for this long without events before reporting a batch
+const DEBOUNCE_MS = 300;
+
+// Report a batch after this long even if events keep arriving
+const MAX_DELAY_MS = 2000;
+
+// Each directory uses an inotify watch; stay well below the usual per-user limit
+const MAX_WATCHED_DIRECTORIES = 5000;
+
+/**
+ * Repository Watcher class
+ * Keeps one non-recursive watch per directory so ignored directories are never descended into.
+ * Directories are ignored by the same rules as FileWalker: .gitignore files, .git/info/exclude,
+ * the config file's ignore patterns and .swiftcoderignore.
+ */
+export class RepoWatcher {
+  private watchers: Map<string, FSWatcher> = new Map();
+  private walkers: Map<string, FileWalker> = new Map(); // Ignore rules per repository ID
+  private pending: Map<string, PendingChanges> = new Map();
+  private listeners: RepoChangeListener[] = [];
+  private limitReported = false;
+  private active = false;
+
+  /**
+   * Start watching every registered repository
+   * Watching can be turned off with REPO_WATCH=false or watch: false in the config file;
+   * REPO_WATCH wins if both are set
+   */
+  public async start(): Promise<void> {
+    const envWatch = (process.env.REPO_WATCH || '').toLowerCase();
+    if (['0', 'false', 'no'].includes(envWatch)) {
+      process.stderr.write('File watching disabled by REPO_WATCH\n');
+      return;
+    }
+    if (!envWatch && getServerConfig().watch === false) {
+      process.stderr.write('File watching disabled by the config file\n');
+      return;
+    }
+
+    this.active = true;
+    for (const repo of repoManager.getAllRepositories()) {
+      await this.watchTree(repo.id, repo.path, '', false);
+    }
+    process.stderr.write(`Watching ${this.watchers.size} directories for changes\n`);
+  }
+
+  /**
+   * Stop all watches and drop pending changes
+   */
+  public stop(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+    this.pending.forEach(pending => clearTimeout(pending.timer));
+    this.pending.clear();
+    this.walkers.clear();
+    this.active = false;
+  }
+
+  /**
+   * Check whether every change is being reported
+   * @returns False if watching is off, stopped, or gave up at the directory limit
+   */
+  public isWatchingEverything(): boolean {
+    return this.active && !this.limitReported;
+  }
+
+  /**
+   * Register a listener for change batches
+   * @param listener Called once per repository batch
+   */
+  public onChange(listener: RepoChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Watch a directory and everything below it
+   * @param repoId Repository ID
+   * @param absoluteDir Absolute path to the directory
+   * @param relativeDir Directory path relative to the repository root
+   * @param reportEntries Queue every entry found, for directories created after watching started
+   */
+  private async watchTree(
+    repoId: string,
+    absoluteDir: string,
+    relativeDir: string,
+    reportEntries: boolean
+  ): Promise<void> {
+    if (this.watchers.has(absoluteDir)) {
+      return;
+    }
+    if (this.watchers.size >= MAX_WATCHED_DIRECTORIES) {
+      if (!this.limitReported) {
+        process.stderr.write(
+          `Not watching more than ${MAX_WATCHED_DIRECTORIES} directories; later changes below ${absoluteDir} are not reported\n`
+        );
+        this.limitReported = true;
+      }
+      return;
+    }
+
+    let entries;
+    try {
+      const watcher = watch(absoluteDir, (eventType, fileName) => {
+        if (fileName) {
+          void this.handleEvent(repoId, absoluteDir, relativeDir, eventType, fileName.toString());
+        }
+      });
+      watcher.on('error', () => this.unwatchTree(absoluteDir));
+      // Watches must not keep the process alive once the client disconnects
+      watcher.unref();
+      this.watchers.set(absoluteDir, watcher);
+      entries = await fs.readdir(absoluteDir, { withFileTypes: true });
+    } catch {
+      // The directory vanished or cannot be read
+      this.unwatchTree(absoluteDir);
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryRelative = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (reportEntries) {
+        this.queue(repoId, entryRelative, true);
+      }
+      const entryAbsolute = path.join(absoluteDir, entry.name);
+      if (entry.isDirectory() && !(await this.isIgnoredDirectory(repoId, entryAbsolute))) {
+        await this.watchTree(repoId, entryAbsolute, entryRelative, reportEntries);
+      }
+    }
+  }
+
+  /**
+   * Check whether a directory is left unwatched
+   * @param repoId Repository ID
+   * @param absolutePath Absolute path to the directory
+   * @returns True if the directory is ignored
+   */
+  private async isIgnoredDirectory(repoId: string, absolutePath: string): Promise<boolean> {
+    let walker = this.walkers.get(repoId);
+    if (!walker) {
+      const repo = repoManager.getRepository(repoId);
+      if (!repo) {
+        return false;
+      }
+      walker = new FileWalker(repo.path);
+      this.walkers.set(repoId, walker);
+    }
+    return walker.isIgnored(absolutePath, true);
+  }
+
+  /**
+   * Close the watches on a directory and everything below it
+   * @param absoluteDir Absolute path to the directory
+   */
+  private unwatchTree(absoluteDir: string): void {
+    for (const [watchedDir, watcher] of this.watchers) {
+      if (watchedDir === absoluteDir || watchedDir.startsWith(`${absoluteDir}${path.sep}`)) {
+        watcher.close();
+        this.watchers.delete(watchedDir);
+      }
+    }
+  }
+
+  /**
+   * Handle a raw event from a directory watch
+   * "rename" events mean an entry appeared or disappeared; "change" events mean it was modified
+   */
+  private async handleEvent(
+    repoId: string,
+    absoluteDir: string,
+    relativeDir: string,
+    eventType: string,
+    fileName: string
+  ): Promise<void> {
+    const structural = eventType === 'rename';
+
+    // A removed directory reports itself; its parent's watch reports the removal
+    if (structural && !existsSync(absoluteDir)) {
+      this.unwatchTree(absoluteDir);
+      return;
+    }
+
+    const relativePath = relativeDir ? `${relativeDir}/${fileName}` : fileName;
+    this.queue(repoId, relativePath, structural);
+
+    // The walker caches ignore files, so read them again for directories created from now on
+    if (fileName === '.gitignore') {
+      this.walkers.delete(repoId);
+    }
+
+    const absolutePath = path.join(absoluteDir, fileName);
+    if (!structural || (await this.isIgnoredDirectory(repoId, absolutePath))) {
+      return;
+    }
+
+    // Follow directories as they are created and drop watches on those that are removed
+    try {
+      const stats = await fs.lstat(absolutePath);
+      if (stats.isDirectory()) {
+        await this.watchTree(repoId, absolutePath, relativePath, true);
+      }
+    } catch {
+      this.unwatchTree(absolutePath);
+    }
+  }
+
+  /**
+   * Add a changed path to its repository's pending batch
+   */
+  private queue(repoId: string, relativePath: string, structural: boolean): void {
+    let pending = this.pending.get(repoId);
+    if (!pending) {
+      pending = { paths: new Set(), structural: false, firstQueuedAt: Date.now() };
+      this.pending.set(repoId, pending);
+    }
+    pending.paths.add(relativePath);
+    pending.structural = pending.structural || structural;
+
+    clearTimeout(pending.timer);
+    const delay = Math.min(DEBOUNCE_MS, pending.firstQueuedAt + MAX_DELAY_MS - Date.now());
+    pending.timer = setTimeout(() => this.flush(repoId), Math.max(delay, 0));
+    pending.timer.unref();
+  }
+
+  /**
+   * Report a repository's pending batch to every listener
+   */
+  private flush(repoId: string): void {
+    const pending = this.pending.get(repoId);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(repoId);
+
+    const change: RepoChange = {
+      repoId,
+      paths: Array.from(pending.paths).sort(),
+      structural: pending.structural,
+    };
+    for (const listener of this.listeners) {
+      Promise.resolve()
+        .then(() => listener(change))
+        .catch(error => process.stderr.write(`Error handling changes in ${repoId}: ${error}\n`));
+    }
+  }
+}
+
+// Create singleton instance
+export const repoWatcher = new RepoWatcher();
@@ -0,0 +1,68 @@
+/**
+ * Server Configuration tests
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { ConfigError, parseServerConfig } from './serverConfig.js';
+
+describe('parseServerConfig', () => {
+  it('reads a YAML file and resolves paths against its directory', () => {
+    const config = parseServerConfig(
+      [
+        'defaultRepository: atlas',
+        'repositories:',
+        '  - id: atlas',
+        '    path: ./atlas # relative to the file',
+        '    writePolicy:',
+        "      deny: [.github/**, '*.lock']",
+        'limits:',
+        '  maxFileSize: 5MB',
+        'tools:',
+        '  disabled:',
+        '    - delete-path',
+        'watch: false',
+      ].join('\n'),
+      '/etc/swift-coder/config.yaml'
+    );
+    assert.equal(config.defaultRepository, 'atlas');
+    assert.equal(config.repositories[0].path, '/etc/swift-coder/atlas');
+    assert.deepEqual(config.repositories[0].writePolicy?.deny, ['.github/**', '*.lock']);
+    assert.equal(config.limits.maxFileSize, 5 * 1024 * 1024);
+    assert.deepEqual(config.tools.disabled, ['delete-path']);
+    assert.equal(config.watch, false);
+  });
+
+  it('reads a JSON file', () => {
+    const config = parseServerConfig('{"scan": {"roots": ["/workspace"]}}', '/config.json');
+    assert.deepEqual(config.scan.roots, ['/workspace']);
+    assert.equal(config.scan.depth, 2);
+  });
+
+  it('treats an empty file as all defaults', () => {
+    const config = parseServerConfig('', '/config.yaml');
+    assert.deepEqual(config.repositories, []);
+    assert.equal(config.index.enabled, true);
+  });
+
+  it('reports YAML syntax errors', () => {
+    assert.throws(
+      () => parseServerConfig('repositories: [atlas\n', '/config.yaml'),
+      (error: Error) => error instanceof ConfigError && /Cannot parse/.test(error.message)
+    );
+  });
+
+  it('lists every schema problem with its location', () => {
+    assert.throws(
+      () =>
+        parseServerConfig(
+          'repositories:\n  - id: Atlas\n    path: /atlas\nlimits:\n  maxFileSize: lots\n',
+          '/config.yaml'
+        ),
+      (error: Error) =>
+        error instanceof ConfigError &&
+        error.message.includes('repositories[0].id') &&
+        error.message.includes('limits.maxFileSize')
+    );
+  });
+});
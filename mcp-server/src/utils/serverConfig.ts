@@ -0,0 +1,275 @@
+/**
+ * Server Configuration
+ * Loads the optional config file describing repositories, scanning and server behaviour
+ *
+ * The file is JSON or YAML, found at the path in SWIFT_CODER_CONFIG or else at
+ * /swift-coder.config.yaml, /swift-coder.config.yml or /swift-coder.config.json:
+ *
+ *   defaultRepository: atlas
+ *   repositories:
+ *     - id: atlas
+ *       path: /atlas
+ *       displayName: Atlas
+ *       writePolicy:
+ *         deny: [.github/**, '*.lock']
+ *   scan:
+ *     roots: [/workspace]
+ *     depth: 2
+ *   ignore: [fixtures/**]
+ *   limits:
+ *     maxFileSize: 5MB
+ *     searchTimeout: 30
+ *   tools:
+ *     disabled: [delete-path]
+ *   watch: true
+ *   index:
+ *     cacheDir: /cache
+ *
+ * Environment variables take precedence over the file; see RepoManager for how they are merged.
+ */
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+/**
+ * Error raised for a config file that cannot be read or does not match the schema
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// Config file locations tried when SWIFT_CODER_CONFIG is not set
+const DEFAULT_CONFIG_FILES = [
+  '/swift-coder.config.yaml',
+  '/swift-coder.config.yml',
+  '/swift-coder.config.json',
+];
+
+// Largest file the read tools and resources return unless configured otherwise
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Seconds a content search or symbol scan may run before it returns what it has found so far
+const DEFAULT_SEARCH_TIMEOUT = 30;
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 * 1024,
+  GB: 1024 * 1024 * 1024,
+};
+
+// A size in bytes, or a string such as "512KB" or "10MB"
+const sizeSchema = z.union(
+  [
+    z.number().int().positive(),
+    z
+      .string()
+      .regex(/^\d+(\.\d+)?\s*(B|KB|MB|GB)$/i)
+      .transform(value => {
+        const [, amount, unit] = value.match(/^(\d+(?:\.\d+)?)\s*(\w+)$/)!;
+        return Math.round(Number(amount) * SIZE_UNITS[unit.toUpperCase()]);
+      }),
+  ],
+  { errorMap: () => ({ message: 'Expected a number of bytes or a size such as 512KB or 10MB' }) }
+);
+
+const globListSchema = z.array(z.string().min(1));
+
+const writePolicySchema = z
+  .object({
+    readOnly: z.boolean().optional(),
+    allow: globListSchema.optional(),
+    deny: globListSchema.optional(),
+  })
+  .strict();
+
+const repositorySchema = z
+  .object({
+    id: z
+      .string()
+      .regex(
+        /^[a-z0-9][a-z0-9_-]*$/,
+        'Use lowercase letters, digits, "-" and "_", starting with a letter or digit'
+      ),
+    path: z.string().min(1),
+    displayName: z.string().min(1).optional(),
+    writePolicy: writePolicySchema.optional(),
+  })
+  .strict();
+
+const configSchema = z
+  .object({
+    defaultRepository: z.string().optional(),
+    repositories: z.array(repositorySchema).default([]),
+    scan: z
+      .object({
+        roots: z.array(z.string().min(1)).default([]),
+        depth: z.number().int().min(0).max(6).default(2),
+      })
+      .strict()
+      .default({}),
+    ignore: globListSchema.default([]),
+    limits: z
+      .object({
+        maxFileSize: sizeSchema.default(DEFAULT_MAX_FILE_SIZE),
+        searchTimeout: z.number().positive().max(600).default(DEFAULT_SEARCH_TIMEOUT),
+      })
+      .strict()
+      .default({}),
+    tools: z
+      .object({
+        enabled: z.array(z.string()).optional(),
+        disabled: z.array(z.string()).default([]),
+      })
+      .strict()
+      .default({}),
+    watch: z.boolean().optional(),
+    index: z
+      .object({
+        enabled: z.boolean().default(true),
+        cacheDir: z.string().min(1).optional(),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict()
+  .superRefine((config, context) => {
+    const seen = new Set<string>();
+    config.repositories.forEach((repo, index) => {
+      if (seen.has(repo.id)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['repositories', index, 'id'],
+          message: `Duplicate repository id '${repo.id}'`,
+        });
+      }
+      seen.add(repo.id);
+    });
+  });
+
+/**
+ * Validated server configuration
+ */
+export type ServerConfig = z.output<typeof configSchema>;
+
+let cachedConfig: ServerConfig | undefined;
+let cachedError: ConfigError | undefined;
+
+/**
+ * Find the config file to load
+ * @returns Absolute path to the config file, or undefined if there is none
+ * @throws ConfigError if SWIFT_CODER_CONFIG points to a missing file
+ */
+export function findConfigFile(): string | undefined {
+  const configured = process.env.SWIFT_CODER_CONFIG;
+  if (configured) {
+    const configPath = path.resolve(configured);
+    if (!existsSync(configPath)) {
+      throw new ConfigError(`Config file not found: ${configPath} (set by SWIFT_CODER_CONFIG)`);
+    }
+    return configPath;
+  }
+  return DEFAULT_CONFIG_FILES.find(file => existsSync(file));
+}
+
+/**
+ * Format a zod issue path, e.g. repositories[0].path
+ */
+function formatIssuePath(issuePath: (string | number)[]): string {
+  return (
+    issuePath
+      .map((part, index) =>
+        typeof part === 'number' ? `[${part}]` : `${index > 0 ? '.' : ''}${part}`
+      )
+      .join('') || '(root)'
+  );
+}
+
+/**
+ * Parse and validate config file text
+ * Relative repository paths and scan roots are resolved against the file's directory.
+ *
+ * @param text File content
+ * @param configPath Path of the file, used to pick the format, resolve paths and in errors
+ * @returns Validated configuration
+ * @throws ConfigError listing every problem found
+ */
+export function parseServerConfig(text: string, configPath: string): ServerConfig {
+  let raw: unknown;
+  try {
+    raw = configPath.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse config file ${configPath}: ${(error as Error).message}`);
+  }
+
+  const result = configSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      issue => `  - ${formatIssuePath(issue.path)}: ${issue.message}`
+    );
+    throw new ConfigError(`Invalid config file ${configPath}:\n${problems.join('\n')}`);
+  }
+
+  const baseDir = path.dirname(configPath);
+  const config = result.data;
+  config.repositories.forEach(repo => (repo.path = path.resolve(baseDir, repo.path)));
+  config.scan.roots = config.scan.roots.map(root => path.resolve(baseDir, root));
+  if (config.index.cacheDir) {
+    config.index.cacheDir = path.resolve(baseDir, config.index.cacheDir);
+  }
+  return config;
+}
+
+/**
+ * Get the server configuration, loading the config file on first use
+ * Without a config file every setting has its default.
+ *
+ * @returns Validated configuration
+ * @throws ConfigError if the config file cannot be read or is invalid; the error is cached
+ */
+export function getServerConfig(): ServerConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+  if (cachedError) {
+    throw cachedError;
+  }
+
+  try {
+    const configPath = findConfigFile();
+    if (!configPath) {
+      cachedConfig = configSchema.parse({});
+    } else {
+      let text: string;
+      try {
+        text = readFileSync(configPath, 'utf8');
+      } catch (error) {
+        throw new ConfigError(`Cannot read config file ${configPath}: ${(error as Error).message}`);
+      }
+      cachedConfig = parseServerConfig(text, configPath);
+      process.stderr.write(`Loaded config file ${configPath}\n`);
+    }
+    return cachedConfig;
+  } catch (error) {
+    cachedError = error as ConfigError;
+    throw error;
+  }
+}
+
+/**
+ * Format a size limit for display, e.g. 10MB
+ * @param bytes Size in bytes
+ * @returns Formatted size
+ */
+export function formatSizeLimit(bytes: number): string {
+  for (const unit of ['GB', 'MB', 'KB']) {
+    if (bytes >= SIZE_UNITS[unit]) {
+      return `${Number((bytes / SIZE_UNITS[unit]).toFixed(2))}${unit}`;
+    }
+  }
+  return `${bytes}B`;
+}
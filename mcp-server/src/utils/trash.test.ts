@@ -0,0 +1,48 @@
+/**
+ * Trash tests
+ */
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { repoManager } from './repoManager.js';
+import { purgeExpiredTrash, TRASH_DIRECTORY } from './trash.js';
+
+describe('trash', () => {
+  let repoPath: string;
+  let trashPath: string;
+
+  before(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'trash-'));
+    trashPath = path.join(repoPath, TRASH_DIRECTORY);
+    for (const stamp of ['2024-01-01T12-00-00-000Z-1a2b', '2024-01-09T12-00-00-000Z-3c4d']) {
+      fs.mkdirSync(path.join(trashPath, stamp, 'src'), { recursive: true });
+      fs.writeFileSync(path.join(trashPath, stamp, 'src', 'old.ts'), 'x');
+    }
+    fs.mkdirSync(path.join(trashPath, 'kept-by-hand'));
+    fs.writeFileSync(path.join(trashPath, '.gitignore'), '*\n');
+
+    repoManager.addRepository({ id: 'trashpurge', path: repoPath, displayName: 'Trash' });
+  });
+
+  after(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('removes only deletes older than the retention period', async () => {
+    const purged = await purgeExpiredTrash('trashpurge', Date.parse('2024-01-10T00:00:00Z'));
+    assert.equal(purged, 1);
+    assert.deepEqual(fs.readdirSync(trashPath).sort(), [
+      '.gitignore',
+      '2024-01-09T12-00-00-000Z-3c4d',
+      'kept-by-hand',
+    ]);
+  });
+
+  it('does nothing for a repository without a trash', async () => {
+    fs.rmSync(trashPath, { recursive: true });
+    assert.equal(await purgeExpiredTrash('trashpurge'), 0);
+  });
+});
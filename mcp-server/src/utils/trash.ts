@@ -0,0 +1,118 @@
+/**
+ * Trash
+ * Server-managed trash inside each repository, so deleted files and directories can be restored
+ */
+import { randomBytes } from 'crypto';
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+
+import { JournalChange } from './changeJournal.js';
+import { movePathTracked } from './fileWriter.js';
+import { parsePathFormat, resolveToAbsolutePath } from './path-handler.js';
+import { repoManager } from './repoManager.js';
+
+// Directory at the repository root that holds deleted paths
+export const TRASH_DIRECTORY = '.mcp-trash';
+
+// Days a deleted path stays in the trash before it is removed for good
+export const TRASH_RETENTION_DAYS = 7;
+
+// Name of the directory each delete gets, e.g. 2024-01-01T12-00-00-000Z-1a2b
+const TRASH_STAMP_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z-[0-9a-f]+$/;
+
+/**
+ * Check whether a repository-relative path is inside the trash
+ * @param relativePath Path relative to the repository root
+ * @returns True if the path is the trash directory or inside it
+ */
+export function isInTrash(relativePath: string): boolean {
+  return path.posix.normalize(relativePath).split('/')[0] === TRASH_DIRECTORY;
+}
+
+/**
+ * Remove deletes older than the retention period from a repository's trash
+ * Only the timestamped directories the server created are removed.
+ *
+ * @param repoId Repository whose trash to purge
+ * @param now Time to measure the age of each delete against
+ * @returns Number of deletes removed
+ */
+export async function purgeExpiredTrash(repoId: string, now = Date.now()): Promise<number> {
+  const trashRoot = resolveToAbsolutePath(`/${repoId}/${TRASH_DIRECTORY}`);
+  const entries = await fs.readdir(trashRoot, { withFileTypes: true }).catch(() => []);
+  const cutoff = now - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+  let purged = 0;
+  for (const entry of entries) {
+    const match = entry.isDirectory() ? TRASH_STAMP_PATTERN.exec(entry.name) : null;
+    if (!match) {
+      continue;
+    }
+    const [, date, hours, minutes, seconds, millis] = match;
+    const deletedAt = Date.parse(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+    if (deletedAt < cutoff) {
+      await fs.rm(path.join(trashRoot, entry.name), { recursive: true, force: true });
+      purged++;
+    }
+  }
+  return purged;
+}
+
+/**
+ * Remove expired deletes from the trash of every repository
+ * @returns Number of deletes removed
+ */
+export async function purgeAllExpiredTrash(): Promise<number> {
+  let purged = 0;
+  for (const repo of repoManager.getAllRepositories()) {
+    try {
+      purged += await purgeExpiredTrash(repo.id);
+    } catch (error) {
+      console.error(`Error purging the trash of ${repo.id}:`, error);
+    }
+  }
+  return purged;
+}
+
+/**
+ * Allocate a trash location for a path that is about to be deleted
+ * Each delete gets its own timestamped directory, and the path keeps its repository-relative
+ * location inside it, e.g. /repoId/.mcp-trash/2024-01-01T12-00-00-000Z-1a2b/src/old.ts
+ *
+ * @param toolPath Path being deleted, in format /repoId/path/to/file
+ * @returns Tool path and absolute path the deleted item should be moved to
+ */
+async function allocateTrashLocation(
+  toolPath: string
+): Promise<{ toolPath: string; absolutePath: string }> {
+  const { repoId, relativePath } = parsePathFormat(toolPath);
+  const trashRoot = resolveToAbsolutePath(`/${repoId}/${TRASH_DIRECTORY}`);
+  await purgeExpiredTrash(repoId);
+
+  // Keep the trash out of version control
+  await fs.mkdir(trashRoot, { recursive: true });
+  const gitignorePath = path.join(trashRoot, '.gitignore');
+  if (!existsSync(gitignorePath)) {
+    await fs.writeFile(gitignorePath, '*\n');
+  }
+
+  const stamp = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(2).toString('hex')}`;
+  const trashToolPath = `/${repoId}/${TRASH_DIRECTORY}/${stamp}/${path.posix.normalize(relativePath)}`;
+  return { toolPath: trashToolPath, absolutePath: resolveToAbsolutePath(trashToolPath) };
+}
+
+/**
+ * Move a file or directory into the trash
+ * @param toolPath Path to delete in format /repoId/path/to/file
+ * @param absolutePath Absolute filesystem path to delete
+ * @returns Tool path of the item in the trash and the changes made
+ */
+export async function moveToTrashTracked(
+  toolPath: string,
+  absolutePath: string
+): Promise<{ trashPath: string; changes: JournalChange[] }> {
+  const trash = await allocateTrashLocation(toolPath);
+  const changes = await movePathTracked(toolPath, absolutePath, trash.toolPath, trash.absolutePath);
+  return { trashPath: trash.toolPath, changes };
+}
@@ -0,0 +1,468 @@
+/**
+ * Unified Diff
+ * Parses unified diffs (including git extended headers) and applies hunks to file lines
+ */
+
+/**
+ * A single line inside a hunk
+ */
+export interface HunkLine {
+  op: ' ' | '-' | '+'; // Context, removal or addition
+  text: string; // Line content without the op prefix
+}
+
+/**
+ * A single hunk of a file patch
+ */
+export interface Hunk {
+  header: string; // The original "@@ -a,b +c,d @@" line
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: HunkLine[];
+}
+
+/**
+ * All changes the patch makes to one file
+ */
+export interface FilePatch {
+  oldPath: string | null; // null when the file is created
+  newPath: string | null; // null when the file is deleted
+  hunks: Hunk[];
+  newMissingFinalNewline: boolean; // "\ No newline at end of file" applies to the new side
+  oldMissingFinalNewline: boolean; // "\ No newline at end of file" applies to the old side
+  isBinary: boolean;
+}
+
+/**
+ * Outcome of applying a single hunk
+ */
+export interface HunkResult {
+  index: number; // 1-based hunk number within the file
+  header: string;
+  applied: boolean;
+  line?: number; // 1-based line where the hunk was applied
+  offset?: number; // Difference between the expected and actual position
+  fuzzy?: boolean; // Matched only after ignoring trailing whitespace
+  message?: string;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Clean up a path from a ---/+++ or git header line
+ * @param raw Raw path text
+ * @param prefix Git prefix to strip ('a/' or 'b/')
+ * @returns Path, or null for /dev/null
+ */
+function parseHeaderPath(raw: string, prefix: string): string | null {
+  // Drop trailing timestamps emitted by diff -u
+  let filePath = raw.split('\t')[0].trim();
+
+  if (filePath.startsWith('"') && filePath.endsWith('"')) {
+    filePath = filePath.slice(1, -1);
+  }
+  if (filePath === '/dev/null') {
+    return null;
+  }
+  if (filePath.startsWith(prefix)) {
+    filePath = filePath.slice(prefix.length);
+  }
+  return filePath;
+}
+
+/**
+ * Create an empty file patch
+ */
+function createFilePatch(oldPath: string | null, newPath: string | null): FilePatch {
+  return {
+    oldPath,
+    newPath,
+    hunks: [],
+    newMissingFinalNewline: false,
+    oldMissingFinalNewline: false,
+    isBinary: false,
+  };
+}
+
+/**
+ * Parse a unified diff into per-file patches
+ * @param patch Unified diff text, optionally with git extended headers
+ * @returns Array of file patches in the order they appear
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const lines = patch.split('\n').map(line => line.replace(/\r$/, ''));
+  const files: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  // Set once a ---/+++ pair has been seen for the current file
+  let sawFileHeader = false;
+
+  const startFile = (oldPath: string | null, newPath: string | null): FilePatch => {
+    current = createFilePatch(oldPath, newPath);
+    files.push(current);
+    sawFileHeader = false;
+    return current;
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/^diff --git (?:"?a\/)?(.+?)"? (?:"?b\/)(.+?)"?$/);
+      startFile(match ? match[1] : null, match ? match[2] : null);
+      i++;
+      continue;
+    }
+
+    if (current) {
+      const file: FilePatch = current;
+      if (line.startsWith('new file mode')) {
+        file.oldPath = null;
+      } else if (line.startsWith('deleted file mode')) {
+        file.newPath = null;
+      } else if (line.startsWith('rename from ')) {
+        file.oldPath = line.slice('rename from '.length);
+      } else if (line.startsWith('rename to ')) {
+        file.newPath = line.slice('rename to '.length);
+      } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+        file.isBinary = true;
+      }
+    }
+
+    if (line.startsWith('--- ') && i + 1 < lines.length && lines[i + 1].startsWith('+++ ')) {
+      const oldPath = parseHeaderPath(line.slice(4), 'a/');
+      const newPath = parseHeaderPath(lines[i + 1].slice(4), 'b/');
+
+      // A ---/+++ pair without a preceding git header starts a new file
+      const existing = current as FilePatch | null;
+      const file =
+        existing && !sawFileHeader && existing.hunks.length === 0
+          ? existing
+          : startFile(oldPath, newPath);
+      file.oldPath = oldPath;
+      file.newPath = newPath;
+      sawFileHeader = true;
+      i += 2;
+      continue;
+    }
+
+    const headerMatch = line.match(HUNK_HEADER);
+    if (headerMatch && current) {
+      const file: FilePatch = current;
+      const hunk: Hunk = {
+        header: line,
+        oldStart: parseInt(headerMatch[1], 10),
+        oldLines: headerMatch[2] !== undefined ? parseInt(headerMatch[2], 10) : 1,
+        newStart: parseInt(headerMatch[3], 10),
+        newLines: headerMatch[4] !== undefined ? parseInt(headerMatch[4], 10) : 1,
+        lines: [],
+      };
+      i++;
+
+      let remainingOld = hunk.oldLines;
+      let remainingNew = hunk.newLines;
+      while (
+        i < lines.length &&
+        (remainingOld > 0 || remainingNew > 0 || lines[i].startsWith('\\'))
+      ) {
+        const hunkLine = lines[i];
+
+        if (hunkLine.startsWith('\\')) {
+          // "\ No newline at end of file" refers to the line before it
+          const previous = hunk.lines[hunk.lines.length - 1];
+          if (previous && previous.op !== '+') {
+            file.oldMissingFinalNewline = true;
+          }
+          if (previous && previous.op !== '-') {
+            file.newMissingFinalNewline = true;
+          }
+        } else if (hunkLine.startsWith('+')) {
+          hunk.lines.push({ op: '+', text: hunkLine.slice(1) });
+          remainingNew--;
+        } else if (hunkLine.startsWith('-')) {
+          hunk.lines.push({ op: '-', text: hunkLine.slice(1) });
+          remainingOld--;
+        } else if (hunkLine.startsWith(' ') || hunkLine === '') {
+          // Editors often strip the single space from empty context lines
+          hunk.lines.push({ op: ' ', text: hunkLine.slice(1) });
+          remainingOld--;
+          remainingNew--;
+        } else {
+          break;
+        }
+        i++;
+      }
+
+      if (remainingOld > 0 || remainingNew > 0) {
+        throw new Error(`Hunk "${hunk.header}" is truncated or its line counts are wrong`);
+      }
+
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    i++;
+  }
+
+  return files;
+}
+
+/**
+ * Check whether a block of lines matches the file at a position
+ */
+function matchesAt(
+  fileLines: string[],
+  block: string[],
+  position: number,
+  ignoreTrailingWhitespace: boolean
+): boolean {
+  if (position < 0 || position + block.length > fileLines.length) {
+    return false;
+  }
+  for (let i = 0; i < block.length; i++) {
+    const actual = fileLines[position + i];
+    const expected = block[i];
+    if (ignoreTrailingWhitespace ? actual.trimEnd() !== expected.trimEnd() : actual !== expected) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Find the position closest to the expected one where a block matches
+ * @returns Matching position, or -1 if the block does not match anywhere after minPosition
+ */
+function findBlock(
+  fileLines: string[],
+  block: string[],
+  expected: number,
+  minPosition: number,
+  ignoreTrailingWhitespace: boolean
+): number {
+  const maxDistance = Math.max(expected - minPosition, fileLines.length - expected);
+  for (let distance = 0; distance <= maxDistance; distance++) {
+    for (const candidate of distance === 0
+      ? [expected]
+      : [expected + distance, expected - distance]) {
+      if (
+        candidate >= minPosition &&
+        matchesAt(fileLines, block, candidate, ignoreTrailingWhitespace)
+      ) {
+        return candidate;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Apply hunks to the lines of a file
+ * Hunks are located at their stated position first, then at the nearest offset,
+ * then again ignoring trailing whitespace. Input lines are never modified.
+ *
+ * @param fileLines Original file lines
+ * @param hunks Hunks to apply, in file order
+ * @returns Resulting lines (only meaningful when every hunk applied) and per-hunk results
+ */
+export function applyHunks(
+  fileLines: string[],
+  hunks: Hunk[]
+): { lines: string[]; results: HunkResult[] } {
+  const result: string[] = [];
+  const results: HunkResult[] = [];
+  // Position in the original file up to which lines have been consumed
+  let consumed = 0;
+  // Offset at which the previous hunk was found, applied to later hunks as a hint
+  let delta = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldBlock = hunk.lines.filter(l => l.op !== '+').map(l => l.text);
+    const newBlock = hunk.lines.filter(l => l.op !== '-').map(l => l.text);
+
+    // A hunk with no old lines inserts after line oldStart rather than at it
+    const stated = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(consumed, Math.min(stated + delta, fileLines.length));
+
+    let fuzzy = false;
+    let position = findBlock(fileLines, oldBlock, expected, consumed, false);
+    if (position === -1) {
+      position = findBlock(fileLines, oldBlock, expected, consumed, true);
+      fuzzy = position !== -1;
+    }
+
+    if (position === -1) {
+      results.push({
+        index: index + 1,
+        header: hunk.header,
+        applied: false,
+        message: 'context does not match the file',
+      });
+      return;
+    }
+
+    result.push(...fileLines.slice(consumed, position), ...newBlock);
+    consumed = position + oldBlock.length;
+    delta = position - stated;
+
+    results.push({
+      index: index + 1,
+      header: hunk.header,
+      applied: true,
+      line: position + 1,
+      offset: position - stated,
+      fuzzy,
+    });
+  });
+
+  result.push(...fileLines.slice(consumed));
+  return { lines: result, results };
+}
+
+/**
+ * A line in a computed diff
+ */
+interface DiffOp {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+// Above this many line pairs the changed region is shown as a block replacement
+const MAX_LCS_CELLS = 4 * 1024 * 1024;
+
+/**
+ * Compute a line diff between two arrays of lines
+ * Common leading and trailing lines are stripped before running an LCS on the rest.
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const ops: DiffOp[] = a.slice(0, prefix).map(text => ({ op: ' ' as const, text }));
+
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+  if (n * m > MAX_LCS_CELLS) {
+    ops.push(...oldMiddle.map(text => ({ op: '-' as const, text })));
+    ops.push(...newMiddle.map(text => ({ op: '+' as const, text })));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        ops.push({ op: ' ', text: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (
+        i < n &&
+        (j >= m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])
+      ) {
+        // Prefer removals on ties so deleted lines come before added ones
+        ops.push({ op: '-', text: oldMiddle[i] });
+        i++;
+      } else {
+        ops.push({ op: '+', text: newMiddle[j] });
+        j++;
+      }
+    }
+  }
+
+  ops.push(...a.slice(a.length - suffix).map(text => ({ op: ' ' as const, text })));
+  return ops;
+}
+
+/**
+ * Create a unified diff between two versions of a text file
+ * @param oldText Original content (empty string for a created file)
+ * @param newText New content (empty string for a deleted file)
+ * @param oldLabel Label for the --- header
+ * @param newLabel Label for the +++ header
+ * @param contextLines Number of unchanged lines around each change
+ * @returns Unified diff text, or an empty string if the line content is identical
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  contextLines: number = 3
+): string {
+  const toLines = (text: string): string[] => {
+    if (text === '') return [];
+    const lines = text.split(/\r?\n/);
+    if (text.endsWith('\n')) lines.pop();
+    return lines;
+  };
+  const ops = diffLines(toLines(oldText), toLines(newText));
+
+  // Group changed lines that are close enough to share context into hunks
+  const groups: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.op === ' ') return;
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= contextLines * 2 + 1) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  });
+
+  if (groups.length === 0) {
+    return '';
+  }
+
+  // Number of old and new lines before each op
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const op of ops) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (op.op !== '+') oldCount++;
+    if (op.op !== '-') newCount++;
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [first, last] of groups) {
+    const start = Math.max(0, first - contextLines);
+    const end = Math.min(ops.length - 1, last + contextLines);
+    const hunkOps = ops.slice(start, end + 1);
+
+    const hunkOldLines = hunkOps.filter(op => op.op !== '+').length;
+    const hunkNewLines = hunkOps.filter(op => op.op !== '-').length;
+    // Empty ranges point at the line before them, as diff -u does
+    const hunkOldStart = hunkOldLines > 0 ? oldBefore[start] + 1 : oldBefore[start];
+    const hunkNewStart = hunkNewLines > 0 ? newBefore[start] + 1 : newBefore[start];
+
+    output.push(`@@ -${hunkOldStart},${hunkOldLines} +${hunkNewStart},${hunkNewLines} @@`);
+    output.push(...hunkOps.map(op => `${op.op}${op.text}`));
+  }
+
+  return output.join('\n');
+}
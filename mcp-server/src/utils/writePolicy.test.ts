@@ -0,0 +1,71 @@
+/**
+ * Write Policy tests
+ */
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { repoManager } from './repoManager.js';
+import { validateTreeWriteAccess, validateWriteAccess } from './writePolicy.js';
+
+describe('write policy', () => {
+  let repoPath: string;
+
+  before(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'write-policy-'));
+    fs.mkdirSync(path.join(repoPath, 'web', 'src'), { recursive: true });
+    fs.mkdirSync(path.join(repoPath, 'docs'));
+    fs.mkdirSync(path.join(repoPath, 'tree', 'nested'), { recursive: true });
+    fs.writeFileSync(path.join(repoPath, 'tree', 'nested', 'file.txt'), 'x');
+    fs.symlinkSync(path.join(repoPath, 'web', 'src'), path.join(repoPath, 'srclink'));
+    fs.symlinkSync('../web', path.join(repoPath, 'docs', 'weblink'));
+
+    repoManager.addRepository({
+      id: 'policydeny',
+      path: repoPath,
+      displayName: 'Deny',
+      writePolicy: { deny: ['web/src/**'] },
+    });
+    repoManager.addRepository({
+      id: 'policyallow',
+      path: repoPath,
+      displayName: 'Allow',
+      writePolicy: { allow: ['docs/**'] },
+    });
+  });
+
+  after(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('denies paths matching a deny pattern', () => {
+    assert.equal(validateWriteAccess('/policydeny/web/src/app.ts').isAllowed, false);
+    assert.equal(validateWriteAccess('/policydeny/web/other.ts').isAllowed, true);
+  });
+
+  it('denies paths that reach a protected directory through ..', () => {
+    assert.equal(validateWriteAccess('/policydeny/docs/../web/src/app.ts').isAllowed, false);
+  });
+
+  it('denies paths that reach a protected directory through a symbolic link', () => {
+    const result = validateWriteAccess('/policydeny/srclink/evil.ts');
+    assert.equal(result.isAllowed, false);
+    assert.match(result.errorMessage!, /really 'web\/src\/evil\.ts'/);
+  });
+
+  it('denies paths under an allowed directory that link outside it', () => {
+    assert.equal(validateWriteAccess('/policyallow/docs/guide.md').isAllowed, true);
+    assert.equal(validateWriteAccess('/policyallow/docs/weblink/app.ts').isAllowed, false);
+  });
+
+  it('checks every entry of a tree copied or moved through a symbolic link', async () => {
+    const source = path.join(repoPath, 'tree');
+    assert.equal((await validateTreeWriteAccess('/policydeny/copied', source)).isAllowed, true);
+    assert.equal(
+      (await validateTreeWriteAccess('/policydeny/srclink/copied', source)).isAllowed,
+      false
+    );
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Write Policy
+ * Central enforcement of per-repository write restrictions for all mutating tools
+ */
+import fs from 'fs/promises';
+import path from 'path';
+
+import { listTree } from './fileWriter.js';
+import { findMatchingGlob } from './glob.js';
+import { parsePathFormat, resolveToAbsolutePath } from './path-handler.js';
+import { resolveRealRelativePath } from './pathContainment.js';
+import { repoManager } from './repoManager.js';
+
+/**
+ * Validates that a path may be written under its repository's write policy
+ * Every tool that creates, modifies or deletes files or directories must call this
+ * before touching the filesystem.
+ *
+ * @param toolPath Path in format /repoId/path/to/file
+ * @returns Validation result with error message if the write is not allowed
+ */
+export function validateWriteAccess(toolPath: string): {
+  isAllowed: boolean;
+  errorMessage?: string;
+} {
+  const { repoId } = parsePathFormat(toolPath);
+  const repo = repoManager.getRepository(repoId);
+  if (!repo) {
+    return {
+      isAllowed: false,
+      errorMessage: `INVALID REPOSITORY ID: '${repoId}' not found in registered repositories.`,
+    };
+  }
+
+  const policy = repo.writePolicy;
+  if (!policy) {
+    return { isAllowed: true };
+  }
+
+  if (policy.readOnly) {
+    return {
+      isAllowed: false,
+      errorMessage: `WRITE DENIED: Repository '${repoId}' is read-only. Its files can be read but not modified.`,
+    };
+  }
+
+  // Match where the write really lands, so neither "a/../.github/x" nor a symbolic link into a
+  // protected directory can dodge a pattern; deny patterns also apply to the path as written
+  const absolutePath = resolveToAbsolutePath(toolPath);
+  const relativePath = path.relative(repo.path, absolutePath).split(path.sep).join('/');
+  const realPath = resolveRealRelativePath(repo.path, absolutePath);
+  const target =
+    realPath === relativePath ? `'${toolPath}'` : `'${toolPath}' (really '${realPath}')`;
+
+  const deniedBy =
+    findMatchingGlob(realPath, policy.deny || []) ||
+    findMatchingGlob(relativePath, policy.deny || []);
+  if (deniedBy) {
+    return {
+      isAllowed: false,
+      errorMessage: `WRITE DENIED: ${target} matches protected pattern '${deniedBy}' in repository '${repoId}'.`,
+    };
+  }
+
+  if (policy.allow && policy.allow.length > 0 && !findMatchingGlob(realPath, policy.allow)) {
+    return {
+      isAllowed: false,
+      errorMessage: `WRITE DENIED: ${target} is outside the writable paths of repository '${repoId}' (${policy.allow.join(', ')}).`,
+    };
+  }
+
+  return { isAllowed: true };
+}
+
+/**
+ * Validates that a path and, for directories, everything below it may be written
+ * Used by tools that move or delete whole directories, so a protected file cannot be
+ * carried away with its parent. Each entry is checked where it really lands, like toolPath.
+ *
+ * @param toolPath Path in format /repoId/path/to/dir
+ * @param sourceAbsolutePath Absolute path of the existing tree whose entries are checked,
+ *   which differs from toolPath when checking where a tree will be copied or moved to
+ * @returns Validation result with error message for the first path that is not allowed
+ */
+export async function validateTreeWriteAccess(
+  toolPath: string,
+  sourceAbsolutePath: string
+): Promise<{ isAllowed: boolean; errorMessage?: string }> {
+  const rootAccess = validateWriteAccess(toolPath);
+  const { repoId } = parsePathFormat(toolPath);
+  const policy = repoManager.getRepository(repoId)?.writePolicy;
+  if (!rootAccess.isAllowed || !policy || (!policy.allow?.length && !policy.deny?.length)) {
+    return rootAccess;
+  }
+
+  const stats = await fs.lstat(sourceAbsolutePath);
+  if (!stats.isDirectory()) {
+    return rootAccess;
+  }
+
+  const base = toolPath.replace(/\/+$/, '');
+  for (const entry of await listTree(sourceAbsolutePath)) {
+    const entryAccess = validateWriteAccess(`${base}/${entry}`);
+    if (!entryAccess.isAllowed) {
+      return entryAccess;
+    }
+  }
+  return rootAccess;
+}